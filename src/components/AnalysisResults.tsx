@@ -1,12 +1,9 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Download, AlertCircle, Activity, Leaf, TrendingUp, Shield, Globe } from 'lucide-react';
+import { Download, AlertCircle, Activity, Leaf, Shield, Globe, Languages, FileDown } from 'lucide-react';
 import { Progress } from '@/components/ui/progress';
-import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from 'recharts';
-import jsPDF from 'jspdf';
-import html2canvas from 'html2canvas';
-import { useRef, useState } from 'react';
+import { useState } from 'react';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -15,84 +12,87 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { languages } from './LanguageSelector';
-import { supabase } from '@/integrations/supabase/client';
+import { DifferentialDiagnosis } from './DifferentialDiagnosis';
+import { DiseaseSeverity } from './DiseaseSeverity';
+import { OutcomeResult } from './OutcomeResult';
+import { AnalyzedImages } from './AnalyzedImages';
+import { ShareDialog } from './ShareDialog';
+import { ListenControl } from './ListenControl';
+import { IdentifiedCrop } from './IdentifiedCrop';
 import { useToast } from '@/hooks/use-toast';
-
-interface AnalysisData {
-  diseaseName: string;
-  scientificName: string;
-  confidence: number;
-  severity: 'low' | 'moderate' | 'high' | 'critical';
-  description: string;
-  symptoms: string[];
-  causes: string[];
-  treatment: string[];
-  prevention: string[];
-  affectedParts: string[];
-  spreadRate: string;
-}
+import { useErrorToast } from '@/hooks/use-error-toast';
+import { useI18n } from '@/hooks/use-i18n';
+import { LanguageScope } from '@/i18n/I18nProvider';
+import { getLanguage, languages } from '@/i18n/languages';
+import { createTranslator } from '@/i18n/translate';
+import { translateDiagnosis, type Diagnosis } from '@/lib/diagnosis';
+import { getSeverityColor } from '@/lib/severity';
+import type { DisplayImage } from '@/lib/images';
+import { downloadDiagnosisReport } from '@/lib/pdf-report';
+import { exportDiagnosis, exportFormats, type ExportFormat } from '@/lib/exports';
 
 interface AnalysisResultsProps {
-  data: AnalysisData;
+  data: Diagnosis;
   language: string;
-  imagePreview: string;
-  onLanguageChange?: (newLanguage: string, newData: AnalysisData) => void;
+  images: DisplayImage[];
+  // The crop the farmer entered before the analysis, if any
+  reportedCrop?: string | null;
+  // Printed in the PDF header once the diagnosis has been saved to history
+  reportId?: string;
+  createdAt?: string;
+  // Shared links show the result without the option to share it again
+  readOnly?: boolean;
+  onLanguageChange?: (newLanguage: string, newData: Diagnosis) => void;
 }
 
-const getSeverityColor = (severity: string) => {
-  const colors = {
-    low: 'bg-success text-white',
-    moderate: 'bg-warning text-white',
-    high: 'bg-destructive text-white',
-    critical: 'bg-destructive text-white',
-  };
-  return colors[severity as keyof typeof colors] || colors.moderate;
-};
-
-const getSeverityData = (severity: string) => {
-  const severityMap = {
-    low: 25,
-    moderate: 50,
-    high: 75,
-    critical: 100,
-  };
-  return severityMap[severity as keyof typeof severityMap] || 50;
-};
-
-export const AnalysisResults = ({ data, language, imagePreview, onLanguageChange }: AnalysisResultsProps) => {
-  const resultsRef = useRef<HTMLDivElement>(null);
-  const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
+export const AnalysisResults = ({
+  data,
+  language,
+  images,
+  reportedCrop,
+  reportId,
+  createdAt,
+  readOnly = false,
+  onLanguageChange,
+}: AnalysisResultsProps) => {
+  const [isExporting, setIsExporting] = useState(false);
   const [currentData, setCurrentData] = useState(data);
   const [currentLanguage, setCurrentLanguage] = useState(language);
+  // Translations already fetched, keyed by language; always translated from
+  // the original so repeated switches don't compound translation drift.
+  const [sourceLanguage] = useState(language);
+  const [translations, setTranslations] = useState<Record<string, Diagnosis>>({ [language]: data });
   const { toast } = useToast();
+  const { t } = useI18n();
+  const showError = useErrorToast();
+  // The report itself is rendered in its own language, the controls in the app's
+  const report = createTranslator(currentLanguage);
+  // No PDF report without a plant to diagnose; the data exports still work
+  const isUnusableImage = currentData.kind === 'not_a_plant' || currentData.kind === 'unclear_image';
 
-  const chartData = [
-    { name: 'Confidence', value: data.confidence, color: 'hsl(var(--success))' },
-    { name: 'Uncertainty', value: 100 - data.confidence, color: 'hsl(var(--muted))' },
-  ];
+  // Returns the diagnosis in the given language, translating it on first use
+  const getDiagnosisIn = async (targetLanguage: string) => {
+    const cached = translations[targetLanguage];
+    if (cached) return cached;
 
-  const generatePDFInLanguage = async (selectedLanguage: string) => {
-    if (!resultsRef.current) return;
+    toast({
+      title: t('results.translating.title'),
+      description: t('results.translating.description', {
+        language: getLanguage(targetLanguage)?.nativeName ?? targetLanguage,
+      }),
+    });
+    const translated = await translateDiagnosis(translations[sourceLanguage], targetLanguage);
+    setTranslations((current) => ({ ...current, [targetLanguage]: translated }));
+    return translated;
+  };
 
-    setIsGeneratingPDF(true);
+  const generatePDFInLanguage = async (selectedLanguage: string) => {
+    setIsExporting(true);
     try {
-      // If language is different, fetch new analysis
+      // If language is different, translate the existing diagnosis
       let dataToUse = currentData;
       if (selectedLanguage !== currentLanguage) {
-        toast({
-          title: 'Translating...',
-          description: `Generating report in ${languages.find(l => l.code === selectedLanguage)?.name}`,
-        });
-
-        const { data: translatedData, error } = await supabase.functions.invoke('analyze-plant-disease', {
-          body: {
-            imageData: imagePreview,
-            language: selectedLanguage,
-          },
-        });
-
-        if (error) throw error;
+        const translatedData = await getDiagnosisIn(selectedLanguage);
         dataToUse = translatedData;
         setCurrentData(translatedData);
         setCurrentLanguage(selectedLanguage);
@@ -100,317 +100,322 @@ export const AnalysisResults = ({ data, language, imagePreview, onLanguageChange
         if (onLanguageChange) {
           onLanguageChange(selectedLanguage, translatedData);
         }
-
-        // Wait a bit for the UI to update
-        await new Promise(resolve => setTimeout(resolve, 500));
       }
 
-      const canvas = await html2canvas(resultsRef.current, {
-        scale: 2,
-        useCORS: true,
-        logging: false,
+      await downloadDiagnosisReport({
+        diagnosis: dataToUse,
+        language: selectedLanguage,
+        images,
+        reportId,
+        createdAt,
       });
 
-      const imgData = canvas.toDataURL('image/png');
-      const pdf = new jsPDF('p', 'mm', 'a4');
-      const pdfWidth = pdf.internal.pageSize.getWidth();
-      const pdfHeight = pdf.internal.pageSize.getHeight();
-      const imgWidth = canvas.width;
-      const imgHeight = canvas.height;
-      const ratio = Math.min(pdfWidth / imgWidth, pdfHeight / imgHeight);
-      const imgX = (pdfWidth - imgWidth * ratio) / 2;
-      const imgY = 10;
-
-      pdf.addImage(imgData, 'PNG', imgX, imgY, imgWidth * ratio, imgHeight * ratio);
-      
-      const languageName = languages.find(l => l.code === selectedLanguage)?.name || selectedLanguage;
-      pdf.save(`plant-disease-report-${languageName}-${Date.now()}.pdf`);
-      
+      const reportLanguage = getLanguage(selectedLanguage);
       toast({
-        title: 'PDF Downloaded',
-        description: `Report generated in ${languageName}`,
+        title: t('results.pdfDownloaded.title'),
+        description: t('results.pdfDownloaded.description', {
+          language: reportLanguage?.nativeName ?? selectedLanguage,
+        }),
       });
     } catch (error) {
       console.error('Error generating PDF:', error);
+      showError(error, { onRetry: () => generatePDFInLanguage(selectedLanguage) });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // English beside the chosen language; the screen keeps its current language
+  const generateBilingualPDF = async (selectedLanguage: string) => {
+    setIsExporting(true);
+    try {
+      const english = await getDiagnosisIn('en');
+      const diagnosis = await getDiagnosisIn(selectedLanguage);
+
+      await downloadDiagnosisReport({
+        diagnosis,
+        language: selectedLanguage,
+        english,
+        images,
+        reportId,
+        createdAt,
+      });
+
+      toast({
+        title: t('results.pdfDownloaded.title'),
+        description: t('results.pdfDownloaded.description', {
+          language: t('results.bilingualOption', {
+            language: getLanguage(selectedLanguage)?.nativeName ?? selectedLanguage,
+          }),
+        }),
+      });
+    } catch (error) {
+      console.error('Error generating bilingual PDF:', error);
+      showError(error, { onRetry: () => generateBilingualPDF(selectedLanguage) });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Data exports use the language currently on screen
+  const exportInFormat = async (format: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      await exportDiagnosis(format, {
+        diagnosis: currentData,
+        language: currentLanguage,
+        images,
+        reportId,
+        createdAt,
+      });
       toast({
-        title: 'PDF Generation Failed',
-        description: error instanceof Error ? error.message : 'Failed to generate PDF',
-        variant: 'destructive',
+        title: t('results.exported.title'),
+        description: t('results.exported.description', { format: t(`results.format.${format}`) }),
       });
+    } catch (error) {
+      console.error('Error exporting diagnosis:', error);
+      showError(error, { onRetry: () => exportInFormat(format) });
     } finally {
-      setIsGeneratingPDF(false);
+      setIsExporting(false);
     }
   };
 
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
-        <h2 className="text-2xl font-bold text-foreground">Analysis Results</h2>
-        <DropdownMenu>
-          <DropdownMenuTrigger asChild>
-            <Button disabled={isGeneratingPDF} className="gap-2">
-              {isGeneratingPDF ? (
-                <>
-                  <div className="w-4 h-4 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
-                  Generating...
-                </>
-              ) : (
-                <>
-                  <Download className="w-4 h-4" />
-                  Download PDF Report
-                </>
-              )}
-            </Button>
-          </DropdownMenuTrigger>
-          <DropdownMenuContent align="end" className="w-56">
-            <DropdownMenuLabel className="flex items-center gap-2">
-              <Globe className="w-4 h-4" />
-              Select Language
-            </DropdownMenuLabel>
-            <DropdownMenuSeparator />
-            {languages.map((lang) => (
-              <DropdownMenuItem
-                key={lang.code}
-                onClick={() => generatePDFInLanguage(lang.code)}
-                className="cursor-pointer"
-              >
-                <span className="flex items-center justify-between w-full">
-                  <span>{lang.nativeName}</span>
-                  <span className="text-xs text-muted-foreground">{lang.name}</span>
-                </span>
-              </DropdownMenuItem>
-            ))}
-          </DropdownMenuContent>
-        </DropdownMenu>
+        <h2 className="text-2xl font-bold text-foreground">{t('results.title')}</h2>
+        <div className="flex items-center gap-2">
+          {reportId && !readOnly && (
+            <ShareDialog
+              diagnosisId={reportId}
+              title={currentData.kind === 'diseased' ? currentData.diseaseName : t(`kind.${currentData.kind}`)}
+            />
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button disabled={isExporting} className="gap-2">
+                {isExporting ? (
+                  <>
+                    <div className="w-4 h-4 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
+                    {t('results.generating')}
+                  </>
+                ) : (
+                  <>
+                    <Download className="w-4 h-4" />
+                    {t('results.downloadPdf')}
+                  </>
+                )}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-56 max-h-[70vh] overflow-y-auto">
+              <DropdownMenuLabel className="flex items-center gap-2">
+                <Globe className="w-4 h-4" />
+                {t('results.selectLanguage')}
+              </DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {languages.map((lang) => (
+                <DropdownMenuItem
+                  key={lang.code}
+                  onClick={() => generatePDFInLanguage(lang.code)}
+                  disabled={isUnusableImage}
+                  className="cursor-pointer"
+                >
+                  <span className="flex items-center justify-between w-full">
+                    <span>{lang.nativeName}</span>
+                    <span className="text-xs text-muted-foreground">{lang.name}</span>
+                  </span>
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="flex items-center gap-2">
+                <Languages className="w-4 h-4" />
+                {t('results.bilingual')}
+              </DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {languages
+                .filter((lang) => lang.code !== 'en')
+                .map((lang) => (
+                  <DropdownMenuItem
+                    key={lang.code}
+                    onClick={() => generateBilingualPDF(lang.code)}
+                    disabled={isUnusableImage}
+                    className="cursor-pointer"
+                  >
+                    {t('results.bilingualOption', { language: lang.nativeName })}
+                  </DropdownMenuItem>
+                ))}
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="flex items-center gap-2">
+                <FileDown className="w-4 h-4" />
+                {t('results.exportData')}
+              </DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {exportFormats.map((format) => (
+                <DropdownMenuItem key={format} onClick={() => exportInFormat(format)} className="cursor-pointer">
+                  {t(`results.format.${format}`)}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
       </div>
 
-      <div ref={resultsRef} className="space-y-6 bg-background p-6 rounded-lg">
-        {/* Language indicator */}
-        <div className="flex items-center gap-2 text-sm text-muted-foreground">
-          <Globe className="w-4 h-4" />
-          <span>
-            Report Language: <span className="font-semibold text-foreground">
-              {languages.find(l => l.code === currentLanguage)?.nativeName}
+      <LanguageScope language={currentLanguage}>
+        <div className="space-y-6 bg-background p-6 rounded-lg">
+          {/* Language indicator */}
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Globe className="w-4 h-4" />
+            <span>
+              {report('results.reportLanguage')} <span className="font-semibold text-foreground">
+                {getLanguage(currentLanguage)?.nativeName}
+              </span>
             </span>
-          </span>
-        </div>
-        {/* Header Card */}
-        <Card>
-          <CardHeader>
-            <div className="flex items-start justify-between">
-              <div className="space-y-2">
-                <CardTitle className="text-2xl">{currentData.diseaseName}</CardTitle>
-                <CardDescription className="text-base">{currentData.scientificName}</CardDescription>
-              </div>
-              <Badge className={getSeverityColor(currentData.severity)}>
-                {currentData.severity.toUpperCase()}
-              </Badge>
-            </div>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div>
-              <div className="flex items-center justify-between mb-2">
-                <span className="text-sm font-medium">Confidence Level</span>
-                <span className="text-sm font-bold text-primary">{currentData.confidence}%</span>
-              </div>
-              <Progress value={currentData.confidence} className="h-2" />
-            </div>
-            <p className="text-foreground leading-relaxed">{currentData.description}</p>
-          </CardContent>
-        </Card>
+          </div>
+          <ListenControl diagnosis={currentData} language={currentLanguage} />
+          <IdentifiedCrop crop={currentData.crop} reportedCrop={reportedCrop} />
+          {currentData.kind === 'diseased' ? (
+            <>
+              {/* Header Card */}
+              <Card>
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div className="space-y-2">
+                      <CardTitle className="text-2xl">{currentData.diseaseName}</CardTitle>
+                      <CardDescription className="text-base">{currentData.scientificName}</CardDescription>
+                    </div>
+                    <Badge className={getSeverityColor(currentData.severity)}>
+                      {report(`severity.${currentData.severity}`).toUpperCase()}
+                    </Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm font-medium">{report('results.confidence')}</span>
+                      <span className="text-sm font-bold text-primary">{currentData.confidence}%</span>
+                    </div>
+                    <Progress value={currentData.confidence} className="h-2" />
+                  </div>
+                  <p className="text-foreground leading-relaxed">{currentData.description}</p>
+                </CardContent>
+              </Card>
 
-        {/* Charts Row */}
-        <div className="grid md:grid-cols-2 gap-6">
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Activity className="w-5 h-5 text-primary" />
-                Detection Confidence
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <ResponsiveContainer width="100%" height={200}>
-                <PieChart>
-                  <Pie
-                    data={chartData}
-                    cx="50%"
-                    cy="50%"
-                    innerRadius={60}
-                    outerRadius={80}
-                    paddingAngle={5}
-                    dataKey="value"
-                  >
-                    {chartData.map((entry, index) => (
-                      <Cell key={`cell-${index}`} fill={entry.color} />
-                    ))}
-                  </Pie>
-                  <Tooltip />
-                  <Legend />
-                </PieChart>
-              </ResponsiveContainer>
-            </CardContent>
-          </Card>
+              {/* Charts Row */}
+              <div className="grid md:grid-cols-2 gap-6">
+                <DifferentialDiagnosis diagnosis={currentData} />
 
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <TrendingUp className="w-5 h-5 text-primary" />
-                Disease Severity
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="flex items-center justify-center h-[200px]">
-              <div className="text-center space-y-4">
-                <div className="relative w-32 h-32 mx-auto">
-                  <svg className="w-full h-full" viewBox="0 0 100 100">
-                    <circle
-                      cx="50"
-                      cy="50"
-                      r="40"
-                      fill="none"
-                      stroke="hsl(var(--muted))"
-                      strokeWidth="10"
-                    />
-                    <circle
-                      cx="50"
-                      cy="50"
-                      r="40"
-                      fill="none"
-                      stroke="hsl(var(--primary))"
-                      strokeWidth="10"
-                      strokeDasharray={`${getSeverityData(data.severity) * 2.51} 251`}
-                      strokeLinecap="round"
-                      transform="rotate(-90 50 50)"
-                    />
-                  </svg>
-                  <div className="absolute inset-0 flex items-center justify-center">
-                    <span className="text-3xl font-bold text-foreground">
-                      {getSeverityData(currentData.severity)}%
-                    </span>
-                  </div>
-                </div>
-                <p className="text-sm text-muted-foreground">
-                  Spread Rate: <span className="font-semibold text-foreground">{currentData.spreadRate}</span>
-                </p>
+                <DiseaseSeverity diagnosis={currentData} />
               </div>
-            </CardContent>
-          </Card>
-        </div>
 
-        {/* Symptoms */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <AlertCircle className="w-5 h-5 text-warning" />
-              Symptoms
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <ul className="space-y-2">
-              {currentData.symptoms.map((symptom, index) => (
-                <li key={index} className="flex items-start gap-2">
-                  <span className="text-primary mt-1">•</span>
-                  <span className="text-foreground">{symptom}</span>
-                </li>
-              ))}
-            </ul>
-          </CardContent>
-        </Card>
+              {/* Symptoms */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <AlertCircle className="w-5 h-5 text-warning" />
+                    {report('results.symptoms')}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ul className="space-y-2">
+                    {currentData.symptoms.map((symptom, index) => (
+                      <li key={index} className="flex items-start gap-2">
+                        <span className="text-primary mt-1">•</span>
+                        <span className="text-foreground">{symptom}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
 
-        {/* Affected Parts & Causes */}
-        <div className="grid md:grid-cols-2 gap-6">
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Leaf className="w-5 h-5 text-primary" />
-                Affected Parts
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="flex flex-wrap gap-2">
-                {currentData.affectedParts.map((part, index) => (
-                  <Badge key={index} variant="secondary">
-                    {part}
-                  </Badge>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
+              {/* Affected Parts & Causes */}
+              <div className="grid md:grid-cols-2 gap-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Leaf className="w-5 h-5 text-primary" />
+                      {report('results.affectedParts')}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex flex-wrap gap-2">
+                      {currentData.affectedParts.map((part, index) => (
+                        <Badge key={index} variant="secondary">
+                          {part}
+                        </Badge>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
 
-          <Card>
-            <CardHeader>
-              <CardTitle>Causes</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <ul className="space-y-2">
-                {currentData.causes.map((cause, index) => (
-                  <li key={index} className="flex items-start gap-2">
-                    <span className="text-primary mt-1">•</span>
-                    <span className="text-foreground">{cause}</span>
-                  </li>
-                ))}
-              </ul>
-            </CardContent>
-          </Card>
-        </div>
+                <Card>
+                  <CardHeader>
+                    <CardTitle>{report('results.causes')}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ul className="space-y-2">
+                      {currentData.causes.map((cause, index) => (
+                        <li key={index} className="flex items-start gap-2">
+                          <span className="text-primary mt-1">•</span>
+                          <span className="text-foreground">{cause}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </CardContent>
+                </Card>
+              </div>
 
-        {/* Treatment */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Activity className="w-5 h-5 text-success" />
-              Treatment
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <ol className="space-y-3">
-              {currentData.treatment.map((step, index) => (
-                <li key={index} className="flex items-start gap-3">
-                  <span className="flex-shrink-0 w-6 h-6 rounded-full bg-primary text-primary-foreground flex items-center justify-center text-sm font-semibold">
-                    {index + 1}
-                  </span>
-                  <span className="text-foreground pt-0.5">{step}</span>
-                </li>
-              ))}
-            </ol>
-          </CardContent>
-        </Card>
+              {/* Treatment */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Activity className="w-5 h-5 text-success" />
+                    {report('results.treatment')}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ol className="space-y-3">
+                    {currentData.treatment.map((step, index) => (
+                      <li key={index} className="flex items-start gap-3">
+                        <span className="flex-shrink-0 w-6 h-6 rounded-full bg-primary text-primary-foreground flex items-center justify-center text-sm font-semibold">
+                          {index + 1}
+                        </span>
+                        <span className="text-foreground pt-0.5">{step}</span>
+                      </li>
+                    ))}
+                  </ol>
+                </CardContent>
+              </Card>
 
-        {/* Prevention */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Shield className="w-5 h-5 text-info" />
-              Prevention
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <ul className="space-y-2">
-              {currentData.prevention.map((measure, index) => (
-                <li key={index} className="flex items-start gap-2">
-                  <span className="text-primary mt-1">•</span>
-                  <span className="text-foreground">{measure}</span>
-                </li>
-              ))}
-            </ul>
-          </CardContent>
-        </Card>
+              {/* Prevention */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Shield className="w-5 h-5 text-info" />
+                    {report('results.prevention')}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ul className="space-y-2">
+                    {currentData.prevention.map((measure, index) => (
+                      <li key={index} className="flex items-start gap-2">
+                        <span className="text-primary mt-1">•</span>
+                        <span className="text-foreground">{measure}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            </>
+          ) : (
+            <OutcomeResult diagnosis={currentData} />
+          )}
 
-        {/* Plant Image */}
-        {imagePreview && (
-          <Card>
-            <CardHeader>
-              <CardTitle>Analyzed Plant Image</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <img
-                src={imagePreview}
-                alt="Analyzed plant"
-                className="w-full max-w-md mx-auto rounded-lg border-2 border-border"
-              />
-            </CardContent>
-          </Card>
-        )}
-      </div>
+          {/* Plant Images */}
+          {images.length > 0 && (
+            <AnalyzedImages images={images} photoFindings={currentData.photoFindings} regions={currentData.regions} />
+          )}
+        </div>
+      </LanguageScope>
     </div>
   );
 };
\ No newline at end of file
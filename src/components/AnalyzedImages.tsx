@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { useI18n } from '@/hooks/use-i18n';
+import type { DisplayImage } from '@/lib/images';
+import type { PhotoFinding, SymptomRegion } from '@/lib/diagnosis';
+
+interface AnalyzedImagesProps {
+  images: DisplayImage[];
+  photoFindings: PhotoFinding[];
+  regions: SymptomRegion[];
+}
+
+const toPercent = (fraction: number) => `${fraction * 100}%`;
+
+export const AnalyzedImages = ({ images, photoFindings, regions }: AnalyzedImagesProps) => {
+  const { t } = useI18n();
+  const [showRegions, setShowRegions] = useState(true);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-3 space-y-0">
+        <CardTitle>{images.length > 1 ? t('images.title.other') : t('images.title.one')}</CardTitle>
+        {regions.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Switch id="show-regions" checked={showRegions} onCheckedChange={setShowRegions} />
+            <Label htmlFor="show-regions">{t('images.showRegions')}</Label>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div className={images.length > 1 ? 'grid sm:grid-cols-2 gap-6' : ''}>
+          {images.map((image, index) => {
+            const findings = photoFindings.find((finding) => finding.photo === index + 1)?.symptoms ?? [];
+            const photoRegions = regions.filter((region) => region.photo === index + 1);
+
+            return (
+              <figure key={`${image.url}-${index}`} className="space-y-2">
+                <div className="relative w-full max-w-md mx-auto">
+                  <img
+                    src={image.url}
+                    alt={t('images.photoAlt', { number: index + 1 })}
+                    className="block w-full rounded-lg border-2 border-border"
+                  />
+                  {/* Boxes are placed in fractions of the photo, so they scale with it */}
+                  {showRegions &&
+                    photoRegions.map((region, regionIndex) => (
+                      <Tooltip key={regionIndex}>
+                        <TooltipTrigger asChild>
+                          <button
+                            type="button"
+                            aria-label={region.label}
+                            className="absolute rounded-sm border-2 border-destructive bg-destructive/10 transition-colors hover:bg-destructive/25 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                            style={{
+                              left: toPercent(region.x),
+                              top: toPercent(region.y),
+                              width: toPercent(region.width),
+                              height: toPercent(region.height),
+                            }}
+                          >
+                            <span className="absolute -top-2 -left-2 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-bold text-destructive-foreground">
+                              {regionIndex + 1}
+                            </span>
+                          </button>
+                        </TooltipTrigger>
+                        <TooltipContent>{region.label}</TooltipContent>
+                      </Tooltip>
+                    ))}
+                </div>
+                <figcaption className="space-y-1 text-center">
+                  <p className="text-sm font-semibold text-foreground">
+                    {t('upload.photoNumber', { number: index + 1 })} · {t(`imageLabel.${image.label}`)}
+                  </p>
+                  {findings.length > 0 && (
+                    <ul className="text-sm text-muted-foreground space-y-1">
+                      {findings.map((symptom, symptomIndex) => (
+                        <li key={symptomIndex}>{symptom}</li>
+                      ))}
+                    </ul>
+                  )}
+                </figcaption>
+              </figure>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,232 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Camera, Check, Flashlight, FlashlightOff, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useI18n } from '@/hooks/use-i18n';
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  disabled?: boolean;
+}
+
+// Torch is not yet part of the standard MediaTrackCapabilities typings
+type TorchCapabilities = MediaTrackCapabilities & { torch?: boolean };
+
+const hasMediaDevices = () => typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+export const CameraCapture = ({ onCapture, disabled }: CameraCaptureProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [captured, setCaptured] = useState<{ file: File; url: string } | null>(null);
+  const [cameraFailed, setCameraFailed] = useState(false);
+  const [torchSupported, setTorchSupported] = useState(false);
+  const [torchOn, setTorchOn] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fallbackInputRef = useRef<HTMLInputElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  // Bumped on every start and stop, so a camera that opens after the dialog
+  // closed can tell it is no longer wanted
+  const streamRequestRef = useRef(0);
+  const { t } = useI18n();
+
+  const stopStream = useCallback(() => {
+    streamRequestRef.current += 1;
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setStream(null);
+    setTorchOn(false);
+    setTorchSupported(false);
+  }, []);
+
+  const startStream = useCallback(async () => {
+    const request = ++streamRequestRef.current;
+    setCameraFailed(false);
+    try {
+      const mediaStream = await navigator.mediaDevices.getUserMedia({
+        video: {
+          facingMode: { ideal: 'environment' },
+          width: { ideal: 1920 },
+          height: { ideal: 1080 },
+        },
+        audio: false,
+      });
+      if (request !== streamRequestRef.current) {
+        mediaStream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+      streamRef.current = mediaStream;
+      const [track] = mediaStream.getVideoTracks();
+      const capabilities = track?.getCapabilities?.() as TorchCapabilities | undefined;
+      setTorchSupported(!!capabilities?.torch);
+      setStream(mediaStream);
+    } catch (cameraError) {
+      console.error('Error starting camera:', cameraError);
+      if (request === streamRequestRef.current) setCameraFailed(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (videoRef.current && stream) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream, captured]);
+
+  // Release the camera whenever the dialog closes or the component unmounts
+  useEffect(() => {
+    if (!isOpen) stopStream();
+  }, [isOpen, stopStream]);
+
+  useEffect(() => stopStream, [stopStream]);
+
+  useEffect(() => {
+    return () => {
+      if (captured) URL.revokeObjectURL(captured.url);
+    };
+  }, [captured]);
+
+  const handleOpen = () => {
+    if (!hasMediaDevices()) {
+      fallbackInputRef.current?.click();
+      return;
+    }
+    setCaptured(null);
+    setIsOpen(true);
+    startStream();
+  };
+
+  const toggleTorch = async () => {
+    const [track] = stream?.getVideoTracks() ?? [];
+    if (!track) return;
+    try {
+      await track.applyConstraints({ advanced: [{ torch: !torchOn } as MediaTrackConstraintSet] });
+      setTorchOn(!torchOn);
+    } catch (torchError) {
+      console.error('Error toggling torch:', torchError);
+      setTorchSupported(false);
+    }
+  };
+
+  const handleCapture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) return;
+        const file = new File([blob], `camera-${Date.now()}.jpg`, { type: 'image/jpeg' });
+        setCaptured({ file, url: URL.createObjectURL(blob) });
+      },
+      'image/jpeg',
+      0.92
+    );
+  };
+
+  const handleUsePhoto = () => {
+    if (!captured) return;
+    onCapture(captured.file);
+    setIsOpen(false);
+  };
+
+  const handleFallbackInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onCapture(file);
+    e.target.value = '';
+  };
+
+  return (
+    <>
+      <Button type="button" variant="outline" onClick={handleOpen} disabled={disabled} className="gap-2">
+        <Camera className="w-4 h-4" />
+        {t('camera.takePhoto')}
+      </Button>
+      {/* Phones without the media API still open their native camera here */}
+      <input
+        ref={fallbackInputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        onChange={handleFallbackInput}
+        className="hidden"
+      />
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{t('camera.title')}</DialogTitle>
+            <DialogDescription>
+              {t('camera.description')}
+            </DialogDescription>
+          </DialogHeader>
+
+          {cameraFailed ? (
+            <div className="space-y-4 text-center py-8">
+              <p className="text-sm text-destructive">{t('camera.error')}</p>
+              <Button type="button" variant="outline" onClick={() => fallbackInputRef.current?.click()}>
+                {t('camera.openPhoneCamera')}
+              </Button>
+            </div>
+          ) : (
+            <div className="relative rounded-lg overflow-hidden bg-black aspect-[4/3]">
+              {captured ? (
+                <img src={captured.url} alt={t('camera.capturedAlt')} className="w-full h-full object-contain" />
+              ) : (
+                <>
+                  <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+                  {/* Framing guide */}
+                  <div className="pointer-events-none absolute inset-0 flex items-center justify-center">
+                    <div className="w-3/4 h-3/4 rounded-2xl border-2 border-dashed border-white/80 shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]" />
+                  </div>
+                  {torchSupported && (
+                    <Button
+                      type="button"
+                      variant="secondary"
+                      size="icon"
+                      onClick={toggleTorch}
+                      className="absolute top-3 right-3"
+                      aria-label={torchOn ? t('camera.torchOff') : t('camera.torchOn')}
+                    >
+                      {torchOn ? <FlashlightOff className="w-4 h-4" /> : <Flashlight className="w-4 h-4" />}
+                    </Button>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          {!cameraFailed && (
+            <DialogFooter className="gap-2">
+              {captured ? (
+                <>
+                  <Button type="button" variant="outline" onClick={() => setCaptured(null)} className="gap-2">
+                    <RotateCcw className="w-4 h-4" />
+                    {t('camera.retake')}
+                  </Button>
+                  <Button type="button" onClick={handleUsePhoto} className="gap-2">
+                    <Check className="w-4 h-4" />
+                    {t('camera.usePhoto')}
+                  </Button>
+                </>
+              ) : (
+                <Button type="button" onClick={handleCapture} disabled={!stream} className="gap-2">
+                  <Camera className="w-4 h-4" />
+                  {t('camera.capture')}
+                </Button>
+              )}
+            </DialogFooter>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
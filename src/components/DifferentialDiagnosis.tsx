@@ -0,0 +1,69 @@
+import { ListOrdered } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { useI18n } from '@/hooks/use-i18n';
+import { cn } from '@/lib/utils';
+import type { Diagnosis } from '@/lib/diagnosis';
+
+interface DifferentialDiagnosisProps {
+  diagnosis: Diagnosis;
+}
+
+export const DifferentialDiagnosis = ({ diagnosis }: DifferentialDiagnosisProps) => {
+  const { t } = useI18n();
+  const candidates = [
+    {
+      diseaseName: diagnosis.diseaseName,
+      scientificName: diagnosis.scientificName,
+      probability: diagnosis.confidence,
+      distinguishingSymptom: '',
+    },
+    ...diagnosis.alternatives,
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListOrdered className="w-5 h-5 text-primary" />
+          {t('differential.title')}
+        </CardTitle>
+        <CardDescription>{t('differential.description')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ol className="space-y-4">
+          {candidates.map((candidate, index) => (
+            <li key={`${candidate.diseaseName}-${index}`} className="flex items-start gap-3">
+              <span
+                className={cn(
+                  'flex-shrink-0 w-6 h-6 rounded-full flex items-center justify-center text-sm font-semibold',
+                  index === 0 ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground'
+                )}
+              >
+                {index + 1}
+              </span>
+              <div className="flex-1 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className={cn('text-foreground', index === 0 && 'font-semibold')}>
+                    {candidate.diseaseName}
+                  </span>
+                  <span className="text-sm font-bold text-primary">{candidate.probability}%</span>
+                </div>
+                {candidate.scientificName && (
+                  <p className="text-xs italic text-muted-foreground">{candidate.scientificName}</p>
+                )}
+                <Progress value={candidate.probability} className="h-1.5" />
+                {candidate.distinguishingSymptom && (
+                  <p className="text-sm text-muted-foreground">
+                    <span className="font-medium text-foreground">{t('differential.tellApart')} </span>
+                    {candidate.distinguishingSymptom}
+                  </p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,89 @@
+import { TrendingUp } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useI18n } from '@/hooks/use-i18n';
+import { cn } from '@/lib/utils';
+import { MAX_SEVERITY_GRADE, severityGrades, type Diagnosis } from '@/lib/diagnosis';
+
+interface DiseaseSeverityProps {
+  diagnosis: Diagnosis;
+}
+
+// Circumference of the ring's circle (r = 40)
+const RING_LENGTH = 251;
+
+// The estimated share of tissue affected, with its grade highlighted on the
+// scale. Older diagnoses without an estimate show the severity level instead.
+export const DiseaseSeverity = ({ diagnosis }: DiseaseSeverityProps) => {
+  const { t } = useI18n();
+  const estimate = diagnosis.severityEstimate;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="w-5 h-5 text-primary" />
+          {t('results.severity')}
+        </CardTitle>
+        <CardDescription>{t('severityScale.description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 text-center">
+        <div className="relative w-32 h-32 mx-auto">
+          <svg className="w-full h-full" viewBox="0 0 100 100">
+            <circle cx="50" cy="50" r="40" fill="none" stroke="hsl(var(--muted))" strokeWidth="10" />
+            {estimate && (
+              <circle
+                cx="50"
+                cy="50"
+                r="40"
+                fill="none"
+                stroke="hsl(var(--primary))"
+                strokeWidth="10"
+                strokeDasharray={`${(estimate.percentAffected / 100) * RING_LENGTH} ${RING_LENGTH}`}
+                strokeLinecap="round"
+                transform="rotate(-90 50 50)"
+              />
+            )}
+          </svg>
+          <div className="absolute inset-0 flex items-center justify-center">
+            <span className={cn('font-bold text-foreground', estimate ? 'text-3xl' : 'text-lg')}>
+              {estimate ? `${estimate.percentAffected}%` : t(`severity.${diagnosis.severity}`)}
+            </span>
+          </div>
+        </div>
+
+        {estimate ? (
+          <div className="space-y-2">
+            <p className="text-sm font-semibold text-foreground">
+              {t('severityScale.grade', { grade: estimate.grade, max: MAX_SEVERITY_GRADE })}
+            </p>
+            <ol className="grid grid-cols-6 gap-1 text-xs">
+              {severityGrades.map((band, index) => (
+                <li
+                  key={band.grade}
+                  className={cn(
+                    'rounded-md px-1 py-1',
+                    band.grade === estimate.grade
+                      ? 'bg-primary text-primary-foreground font-semibold'
+                      : 'bg-muted text-muted-foreground'
+                  )}
+                >
+                  <span className="block font-bold">{band.grade}</span>
+                  {index === 0
+                    ? t('severityScale.none')
+                    : t('severityScale.range', { min: severityGrades[index - 1].maxPercent, max: band.maxPercent })}
+                </li>
+              ))}
+            </ol>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">{t('severityScale.notEstimated')}</p>
+        )}
+
+        <p className="text-sm text-muted-foreground">
+          {t('results.spreadRate')}{' '}
+          <span className="font-semibold text-foreground">{t(`spreadRate.${diagnosis.spreadRate}`)}</span>
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import type { UseFormReturn } from 'react-hook-form';
+import { ChevronDown, Sprout } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useI18n } from '@/hooks/use-i18n';
+import type { MessageKey } from '@/i18n/translate';
+import { cn } from '@/lib/utils';
+import {
+  emptyFieldContext,
+  growthStages,
+  irrigationTypes,
+  MAX_DAYS_SINCE_SOWING,
+  MAX_FIELD_TEXT_LENGTH,
+  MAX_SPRAYS_LENGTH,
+  weatherConditions,
+  type FieldContextFormValues,
+} from '@/lib/field-context';
+
+interface FieldContextFormProps {
+  form: UseFormReturn<FieldContextFormValues>;
+  disabled?: boolean;
+}
+
+interface TextFieldConfig {
+  name: 'crop' | 'variety' | 'recentSprays' | 'district' | 'state';
+  label: MessageKey;
+  placeholder: MessageKey;
+  maxLength: number;
+  wide?: boolean;
+}
+
+interface ChoiceFieldConfig {
+  name: 'growthStage' | 'weather' | 'irrigation';
+  label: MessageKey;
+  options: { value: string; label: MessageKey }[];
+}
+
+const cropFields: TextFieldConfig[] = [
+  { name: 'crop', label: 'home.cropLabel', placeholder: 'home.cropPlaceholder', maxLength: MAX_FIELD_TEXT_LENGTH },
+  {
+    name: 'variety',
+    label: 'fieldContext.variety',
+    placeholder: 'fieldContext.varietyPlaceholder',
+    maxLength: MAX_FIELD_TEXT_LENGTH,
+  },
+];
+
+const sprayAndLocationFields: TextFieldConfig[] = [
+  {
+    name: 'recentSprays',
+    label: 'fieldContext.recentSprays',
+    placeholder: 'fieldContext.recentSpraysPlaceholder',
+    maxLength: MAX_SPRAYS_LENGTH,
+    wide: true,
+  },
+  {
+    name: 'district',
+    label: 'fieldContext.district',
+    placeholder: 'fieldContext.districtPlaceholder',
+    maxLength: MAX_FIELD_TEXT_LENGTH,
+  },
+  {
+    name: 'state',
+    label: 'fieldContext.state',
+    placeholder: 'fieldContext.statePlaceholder',
+    maxLength: MAX_FIELD_TEXT_LENGTH,
+  },
+];
+
+const growthStageField: ChoiceFieldConfig = {
+  name: 'growthStage',
+  label: 'fieldContext.growthStage',
+  options: growthStages.map((stage) => ({ value: stage, label: `growthStage.${stage}` as const })),
+};
+
+const conditionFields: ChoiceFieldConfig[] = [
+  {
+    name: 'weather',
+    label: 'fieldContext.weather',
+    options: weatherConditions.map((weather) => ({ value: weather, label: `weather.${weather}` as const })),
+  },
+  {
+    name: 'irrigation',
+    label: 'fieldContext.irrigation',
+    options: irrigationTypes.map((irrigation) => ({ value: irrigation, label: `irrigation.${irrigation}` as const })),
+  },
+];
+
+// Optional details about the field that let the model tailor its advice to
+// the crop stage and region. Opens by itself when a value fails validation.
+export const FieldContextForm = ({ form, disabled }: FieldContextFormProps) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const hasErrors = Object.keys(form.formState.errors).length > 0;
+
+  const renderText = ({ name, label, placeholder, maxLength, wide }: TextFieldConfig) => (
+    <FormField
+      key={name}
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className={cn(wide && 'md:col-span-2')}>
+          <FormLabel>{t(label)}</FormLabel>
+          <FormControl>
+            <Input {...field} placeholder={t(placeholder)} maxLength={maxLength} disabled={disabled} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const renderChoice = ({ name, label, options }: ChoiceFieldConfig) => (
+    <FormField
+      key={name}
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{t(label)}</FormLabel>
+          <Select value={field.value} onValueChange={field.onChange} disabled={disabled}>
+            <FormControl>
+              <SelectTrigger onBlur={field.onBlur}>
+                <SelectValue placeholder={t('fieldContext.select')} />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {options.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {t(option.label)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Collapsible open={open || hasErrors} onOpenChange={setOpen} className="rounded-lg border border-border">
+      <CollapsibleTrigger asChild>
+        <button type="button" className="flex w-full items-center justify-between gap-3 p-4 text-left">
+          <span className="flex items-center gap-3">
+            <Sprout className="w-5 h-5 text-primary" />
+            <span>
+              <span className="block font-medium text-foreground">{t('fieldContext.title')}</span>
+              <span className="block text-sm text-muted-foreground">{t('fieldContext.description')}</span>
+            </span>
+          </span>
+          <ChevronDown className={cn('w-4 h-4 transition-transform', (open || hasErrors) && 'rotate-180')} />
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <Form {...form}>
+          <form onSubmit={(event) => event.preventDefault()} className="grid md:grid-cols-2 gap-4 px-4 pb-4">
+            {cropFields.map(renderText)}
+            {renderChoice(growthStageField)}
+            <FormField
+              control={form.control}
+              name="daysSinceSowing"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('fieldContext.daysSinceSowing')}</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="number"
+                      inputMode="numeric"
+                      min={0}
+                      max={MAX_DAYS_SINCE_SOWING}
+                      disabled={disabled}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {conditionFields.map(renderChoice)}
+            {sprayAndLocationFields.map(renderText)}
+            <div className="md:col-span-2 flex justify-end">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => form.reset(emptyFieldContext)}
+                disabled={disabled}
+              >
+                {t('fieldContext.clear')}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
@@ -0,0 +1,44 @@
+import { AlertTriangle, Sprout } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useI18n } from '@/hooks/use-i18n';
+import type { IdentifiedCrop as IdentifiedCropData } from '@/lib/diagnosis';
+
+interface IdentifiedCropProps {
+  crop: IdentifiedCropData;
+  // The crop the farmer entered, named in the warning
+  reportedCrop?: string | null;
+}
+
+// The plant the model recognised in the photos, with a warning when it is
+// not the crop the farmer entered. Hidden when no plant was recognised.
+export const IdentifiedCrop = ({ crop, reportedCrop }: IdentifiedCropProps) => {
+  const { t } = useI18n();
+
+  if (!crop.commonName) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3 rounded-lg border border-border bg-card p-4">
+        <div className="p-2 rounded-lg bg-primary/10">
+          <Sprout className="w-6 h-6 text-primary" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-muted-foreground">{t('crop.label')}</p>
+          <p className="text-xl font-semibold text-foreground">{crop.commonName}</p>
+          {crop.scientificName && <p className="text-sm italic text-muted-foreground">{crop.scientificName}</p>}
+        </div>
+        <div className="text-right">
+          <p className="text-sm text-muted-foreground">{t('results.confidence')}</p>
+          <p className="text-sm font-bold text-primary">{crop.confidence}%</p>
+        </div>
+      </div>
+      {crop.matchesReported === false && reportedCrop && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>{t('crop.mismatch.title')}</AlertTitle>
+          <AlertDescription>{t('crop.mismatch.description', { crop: crop.commonName, reported: reportedCrop })}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+};
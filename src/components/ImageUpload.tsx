@@ -1,113 +1,281 @@
 import { useCallback, useState } from 'react';
-import { Upload, X, Image as ImageIcon } from 'lucide-react';
+import { Upload, X, ImagePlus } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CameraCapture } from '@/components/CameraCapture';
+import { useToast } from '@/hooks/use-toast';
+import { useErrorToast } from '@/hooks/use-error-toast';
+import { useI18n } from '@/hooks/use-i18n';
+import { formatBytes, preprocessImage, type PreprocessOptions } from '@/lib/image-preprocess';
+import {
+  imageLabels,
+  MAX_IMAGES,
+  validateImageFile,
+  type ImageLabel,
+  type SelectedImage,
+} from '@/lib/images';
+
+type ImagesUpdate = (images: SelectedImage[]) => SelectedImage[];
 
 interface ImageUploadProps {
-  onImageSelect: (file: File, preview: string) => void;
-  preview: string | null;
-  onClear: () => void;
+  images: SelectedImage[];
+  onImagesChange: (update: ImagesUpdate) => void;
   disabled?: boolean;
+  preprocessOptions?: Partial<Omit<PreprocessOptions, 'keepLocation'>>;
 }
 
-export const ImageUpload = ({ onImageSelect, preview, onClear, disabled }: ImageUploadProps) => {
+// Suggests the first plant part that has no photo yet
+const nextLabel = (images: SelectedImage[]): ImageLabel =>
+  imageLabels.find((label) => label !== 'other' && !images.some((image) => image.label === label)) ?? 'other';
+
+export const ImageUpload = ({ images, onImagesChange, disabled, preprocessOptions }: ImageUploadProps) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [keepLocation, setKeepLocation] = useState(false);
+  const { toast } = useToast();
+  const { t } = useI18n();
+  const showError = useErrorToast();
+
+  const remainingSlots = MAX_IMAGES - images.length;
+  const isLocked = disabled || isProcessing;
+
+  const processFile = useCallback(
+    async (file: File, withLocation: boolean) => {
+      const processed = await preprocessImage(file, { ...preprocessOptions, keepLocation: withLocation });
+      const validationError = validateImageFile(processed.file);
+      if (validationError) {
+        throw validationError;
+      }
+      return processed;
+    },
+    [preprocessOptions]
+  );
+
+  const addFiles = useCallback(
+    async (files: File[]) => {
+      const imageFiles = files.filter((file) => file.type.startsWith('image/'));
+      if (imageFiles.length > remainingSlots) {
+        toast({
+          title: t('upload.tooMany.title'),
+          description: t('upload.tooMany.description', { max: MAX_IMAGES }),
+          variant: 'destructive',
+        });
+      }
+
+      setIsProcessing(true);
+      try {
+        for (const file of imageFiles.slice(0, remainingSlots)) {
+          const processed = await processFile(file, keepLocation);
+          onImagesChange((current) => [
+            ...current,
+            {
+              id: crypto.randomUUID(),
+              file: processed.file,
+              originalFile: file,
+              preview: processed.preview,
+              label: nextLabel(current),
+              originalBytes: processed.originalBytes,
+            },
+          ]);
+        }
+      } catch (error) {
+        console.error('Error processing image:', error);
+        // Anything the browser fails to decode is reported as an unsupported photo
+        showError(error, { fallback: 'invalid_image' });
+      } finally {
+        setIsProcessing(false);
+      }
+    },
+    [keepLocation, onImagesChange, processFile, remainingSlots, showError, t, toast]
+  );
 
   const handleDrop = useCallback(
     (e: React.DragEvent<HTMLDivElement>) => {
       e.preventDefault();
       setIsDragging(false);
-      
-      if (disabled) return;
-
-      const file = e.dataTransfer.files[0];
-      if (file && file.type.startsWith('image/')) {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          onImageSelect(file, e.target?.result as string);
-        };
-        reader.readAsDataURL(file);
-      }
+
+      if (isLocked) return;
+
+      addFiles(Array.from(e.dataTransfer.files));
     },
-    [onImageSelect, disabled]
+    [addFiles, isLocked]
   );
 
   const handleFileInput = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0];
-      if (file && file.type.startsWith('image/')) {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          onImageSelect(file, e.target?.result as string);
-        };
-        reader.readAsDataURL(file);
-      }
+      addFiles(Array.from(e.target.files ?? []));
+      // Allow picking the same file again after removing it
+      e.target.value = '';
     },
-    [onImageSelect]
+    [addFiles]
   );
 
-  return (
-    <div className="w-full">
-      {!preview ? (
-        <div
-          onDragOver={(e) => {
-            e.preventDefault();
-            if (!disabled) setIsDragging(true);
-          }}
-          onDragLeave={() => setIsDragging(false)}
-          onDrop={handleDrop}
-          className={cn(
-            "relative border-2 border-dashed rounded-lg p-12 text-center transition-all",
-            isDragging ? "border-primary bg-secondary/50 scale-[1.02]" : "border-border bg-card",
-            disabled ? "opacity-50 cursor-not-allowed" : "cursor-pointer hover:border-primary hover:bg-secondary/30"
+  // Re-encode every photo from its original so the location is added or removed
+  const handleKeepLocationChange = async (checked: boolean) => {
+    setKeepLocation(checked);
+    if (images.length === 0) return;
+
+    setIsProcessing(true);
+    try {
+      // Photos are only swapped once all of them are ready, so a failure
+      // leaves every photo as it was and the checkbox can go back
+      const processed = new Map<string, Awaited<ReturnType<typeof processFile>>>();
+      for (const image of images) {
+        processed.set(image.id, await processFile(image.originalFile, checked));
+      }
+      onImagesChange((current) =>
+        current.map((item) => {
+          const result = processed.get(item.id);
+          return result ? { ...item, file: result.file, preview: result.preview, path: undefined } : item;
+        })
+      );
+    } catch (error) {
+      console.error('Error processing image:', error);
+      setKeepLocation(!checked);
+      showError(error, { fallback: 'invalid_image' });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleRemove = (id: string) => onImagesChange((current) => current.filter((image) => image.id !== id));
+
+  const handleLabelChange = (id: string, label: ImageLabel) =>
+    onImagesChange((current) => current.map((image) => (image.id === id ? { ...image, label } : image)));
+
+  const dropZone = (compact: boolean) => (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        if (!isLocked) setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={cn(
+        "relative border-2 border-dashed rounded-lg text-center transition-all",
+        compact ? "p-4 flex items-center justify-center min-h-[12rem]" : "p-12",
+        isDragging ? "border-primary bg-secondary/50 scale-[1.02]" : "border-border bg-card",
+        isLocked ? "opacity-50 cursor-not-allowed" : "cursor-pointer hover:border-primary hover:bg-secondary/30"
+      )}
+    >
+      <input
+        type="file"
+        accept="image/*"
+        multiple
+        onChange={handleFileInput}
+        disabled={isLocked}
+        className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+      />
+      {compact ? (
+        <div className="flex flex-col items-center gap-2 text-muted-foreground">
+          {isProcessing ? (
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+          ) : (
+            <ImagePlus className="w-8 h-8 text-primary" />
           )}
-        >
-          <input
-            type="file"
-            accept="image/*"
-            onChange={handleFileInput}
-            disabled={disabled}
-            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-          />
-          <div className="flex flex-col items-center gap-4">
-            <div className="p-4 rounded-full bg-primary/10">
+          <span className="text-sm font-medium">{t('upload.addAnother')}</span>
+          <span className="text-xs">{t('upload.remaining', { count: remainingSlots })}</span>
+        </div>
+      ) : (
+        <div className="flex flex-col items-center gap-4">
+          <div className="p-4 rounded-full bg-primary/10">
+            {isProcessing ? (
+              <div className="w-10 h-10 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+            ) : (
               <Upload className="w-10 h-10 text-primary" />
-            </div>
-            <div>
-              <p className="text-lg font-semibold text-foreground mb-1">
-                Drop your plant image here
-              </p>
-              <p className="text-sm text-muted-foreground">
-                or click to browse from your device
-              </p>
-            </div>
-            <p className="text-xs text-muted-foreground">
-              Supports: JPG, PNG, WEBP
+            )}
+          </div>
+          <div>
+            <p className="text-lg font-semibold text-foreground mb-1">
+              {t('upload.dropTitle')}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {t('upload.dropSubtitle')}
             </p>
           </div>
+          <p className="text-xs text-muted-foreground">
+            {t('upload.dropHint', { max: MAX_IMAGES })}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {t('upload.formats')}
+          </p>
         </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="w-full">
+      {images.length === 0 ? (
+        dropZone(false)
       ) : (
-        <div className="relative rounded-lg overflow-hidden border-2 border-border bg-card">
-          <img
-            src={preview}
-            alt="Plant preview"
-            className="w-full h-auto max-h-96 object-contain"
-          />
-          <Button
-            onClick={onClear}
-            disabled={disabled}
-            variant="destructive"
-            size="icon"
-            className="absolute top-4 right-4 shadow-lg"
-          >
-            <X className="w-4 h-4" />
-          </Button>
-          <div className="absolute bottom-4 left-4 bg-card/90 backdrop-blur-sm px-3 py-2 rounded-md flex items-center gap-2">
-            <ImageIcon className="w-4 h-4 text-primary" />
-            <span className="text-sm font-medium text-foreground">Image ready for analysis</span>
-          </div>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          {images.map((image, index) => (
+            <div key={image.id} className="rounded-lg overflow-hidden border-2 border-border bg-card">
+              <div className="relative">
+                <img
+                  src={image.preview}
+                  alt={t('upload.photoNumber', { number: index + 1 })}
+                  className="w-full h-40 object-cover"
+                />
+                <Button
+                  onClick={() => handleRemove(image.id)}
+                  disabled={isLocked}
+                  variant="destructive"
+                  size="icon"
+                  className="absolute top-2 right-2 h-8 w-8 shadow-lg"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+                <span className="absolute top-2 left-2 bg-card/90 backdrop-blur-sm px-2 py-1 rounded-md text-xs font-semibold text-foreground">
+                  {t('upload.photoNumber', { number: index + 1 })}
+                </span>
+              </div>
+              <div className="p-2 space-y-1">
+                <Select
+                  value={image.label}
+                  onValueChange={(value) => handleLabelChange(image.id, value as ImageLabel)}
+                  disabled={isLocked}
+                >
+                  <SelectTrigger className="h-8 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {imageLabels.map((label) => (
+                      <SelectItem key={label} value={label}>
+                        {t(`imageLabel.${label}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground text-center">
+                  {formatBytes(image.originalBytes)} → {formatBytes(image.file.size)}
+                </p>
+              </div>
+            </div>
+          ))}
+          {remainingSlots > 0 && dropZone(true)}
+        </div>
+      )}
+      {remainingSlots > 0 && (
+        <div className="mt-4 flex justify-center">
+          <CameraCapture onCapture={(file) => addFiles([file])} disabled={isLocked} />
         </div>
       )}
+      <div className="mt-4 flex items-center gap-2">
+        <Checkbox
+          id="keep-location"
+          checked={keepLocation}
+          onCheckedChange={(checked) => handleKeepLocationChange(checked === true)}
+          disabled={isLocked}
+        />
+        <Label htmlFor="keep-location" className="text-sm font-normal text-muted-foreground">
+          {t('upload.keepLocation')}
+        </Label>
+      </div>
     </div>
   );
-};
\ No newline at end of file
+};
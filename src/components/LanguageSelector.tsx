@@ -1,31 +1,23 @@
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Globe } from 'lucide-react';
+import { useI18n } from '@/hooks/use-i18n';
+import { languages, type LanguageCode } from '@/i18n/languages';
 
 interface LanguageSelectorProps {
-  value: string;
-  onChange: (value: string) => void;
+  value: LanguageCode;
+  onChange: (value: LanguageCode) => void;
   disabled?: boolean;
 }
 
-export const languages = [
-  { code: 'en', name: 'English', nativeName: 'English' },
-  { code: 'kn', name: 'Kannada', nativeName: 'ಕನ್ನಡ' },
-  { code: 'ta', name: 'Tamil', nativeName: 'தமிழ்' },
-  { code: 'ml', name: 'Malayalam', nativeName: 'മലയാളം' },
-  { code: 'te', name: 'Telugu', nativeName: 'తెలుగు' },
-  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी' },
-  { code: 'bn', name: 'Bengali', nativeName: 'বাংলা' },
-  { code: 'mr', name: 'Marathi', nativeName: 'मराठी' },
-  { code: 'gu', name: 'Gujarati', nativeName: 'ગુજરાતી' },
-];
-
 export const LanguageSelector = ({ value, onChange, disabled }: LanguageSelectorProps) => {
+  const { t } = useI18n();
+
   return (
     <div className="flex items-center gap-3">
       <Globe className="w-5 h-5 text-primary" />
-      <Select value={value} onValueChange={onChange} disabled={disabled}>
+      <Select value={value} onValueChange={(code) => onChange(code as LanguageCode)} disabled={disabled}>
         <SelectTrigger className="w-full md:w-64 bg-card border-border">
-          <SelectValue placeholder="Select language" />
+          <SelectValue placeholder={t('language.placeholder')} />
         </SelectTrigger>
         <SelectContent>
           {languages.map((lang) => (
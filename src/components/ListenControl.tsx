@@ -0,0 +1,109 @@
+import { useMemo } from 'react';
+import { Pause, Play, SkipBack, SkipForward, Square, Volume2, VolumeX } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSpeech } from '@/hooks/use-speech';
+import { getLanguage } from '@/i18n/languages';
+import type { Diagnosis } from '@/lib/diagnosis';
+import { speechRates, toSpeechSections } from '@/lib/speech';
+
+interface ListenControlProps {
+  diagnosis: Diagnosis;
+  // The language the diagnosis is written in, which is also the voice used
+  language: string;
+}
+
+export const ListenControl = ({ diagnosis, language }: ListenControlProps) => {
+  const { t } = useI18n();
+  const sections = useMemo(() => toSpeechSections(diagnosis, language), [diagnosis, language]);
+  const { supported, voice, voicesLoaded, status, currentSection, rate, speakFrom, pause, resume, stop, changeRate } =
+    useSpeech(sections, language);
+
+  if (!supported || (voicesLoaded && !voice)) {
+    return (
+      <Alert>
+        <VolumeX className="h-4 w-4" />
+        <AlertTitle>{t('speech.unavailable.title')}</AlertTitle>
+        <AlertDescription>
+          {supported
+            ? t('speech.unavailable.noVoice', { language: getLanguage(language)?.nativeName ?? language })
+            : t('speech.unavailable.unsupported')}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const section = currentSection ?? 0;
+
+  return (
+    <div className="rounded-lg border border-border p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {status === 'speaking' ? (
+          <Button onClick={pause} className="gap-2">
+            <Pause className="w-4 h-4" />
+            {t('speech.pause')}
+          </Button>
+        ) : status === 'paused' ? (
+          <Button onClick={resume} className="gap-2">
+            <Play className="w-4 h-4" />
+            {t('speech.resume')}
+          </Button>
+        ) : (
+          <Button onClick={() => speakFrom(0)} disabled={!voice} className="gap-2">
+            <Volume2 className="w-4 h-4" />
+            {t('speech.listen')}
+          </Button>
+        )}
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => speakFrom(section - 1)}
+          disabled={status === 'idle' || section === 0}
+          aria-label={t('speech.previous')}
+        >
+          <SkipBack className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => speakFrom(section + 1)}
+          disabled={status === 'idle' || section >= sections.length - 1}
+          aria-label={t('speech.next')}
+        >
+          <SkipForward className="w-4 h-4" />
+        </Button>
+        <Button variant="outline" size="icon" onClick={stop} disabled={status === 'idle'} aria-label={t('speech.stop')}>
+          <Square className="w-4 h-4" />
+        </Button>
+        <Select value={String(rate)} onValueChange={(value) => changeRate(Number(value))}>
+          <SelectTrigger className="w-28" aria-label={t('speech.speed')}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {speechRates.map((speed) => (
+              <SelectItem key={speed} value={String(speed)}>
+                {speed}×
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {sections.map(({ title }, index) => (
+          <Button
+            key={index}
+            variant={currentSection === index ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => speakFrom(index)}
+            disabled={!voice}
+            aria-current={currentSection === index}
+          >
+            {title}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import { Camera, CheckCircle2, ImageOff, Leaf, ScanSearch } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { useI18n } from '@/hooks/use-i18n';
+import type { Diagnosis } from '@/lib/diagnosis';
+import { retakeGuidance } from '@/lib/outcome';
+
+interface OutcomeResultProps {
+  diagnosis: Diagnosis;
+}
+
+const HealthyResult = ({ diagnosis }: OutcomeResultProps) => {
+  const { t } = useI18n();
+
+  return (
+    <>
+      <Card className="border-success/40">
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-full bg-success/10">
+              <CheckCircle2 className="w-8 h-8 text-success" />
+            </div>
+            <div className="space-y-1">
+              <CardTitle className="text-2xl">{t('outcome.healthy.title')}</CardTitle>
+              <CardDescription className="text-base">{t('outcome.healthy.description')}</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium">{t('results.confidence')}</span>
+              <span className="text-sm font-bold text-primary">{diagnosis.confidence}%</span>
+            </div>
+            <Progress value={diagnosis.confidence} className="h-2" />
+          </div>
+          {diagnosis.description && <p className="text-foreground leading-relaxed">{diagnosis.description}</p>}
+        </CardContent>
+      </Card>
+
+      {diagnosis.prevention.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Leaf className="w-5 h-5 text-primary" />
+              {t('outcome.keepHealthy')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-2">
+              {diagnosis.prevention.map((tip, index) => (
+                <li key={index} className="flex items-start gap-2">
+                  <span className="text-primary mt-1">•</span>
+                  <span className="text-foreground">{tip}</span>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </>
+  );
+};
+
+const UnusableImageResult = ({ diagnosis }: OutcomeResultProps) => {
+  const isNotAPlant = diagnosis.kind === 'not_a_plant';
+  const Icon = isNotAPlant ? ImageOff : ScanSearch;
+  const { t } = useI18n();
+  const tips = [...diagnosis.retakeTips, ...retakeGuidance.map((key) => t(key))];
+
+  return (
+    <>
+      <Card className="border-warning/40">
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-full bg-warning/10">
+              <Icon className="w-8 h-8 text-warning" />
+            </div>
+            <div className="space-y-1">
+              <CardTitle className="text-2xl">
+                {isNotAPlant ? t('outcome.notAPlant.title') : t('outcome.unclear.title')}
+              </CardTitle>
+              <CardDescription className="text-base">
+                {isNotAPlant ? t('outcome.notAPlant.description') : t('outcome.unclear.description')}
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        {diagnosis.description && (
+          <CardContent>
+            <p className="text-foreground leading-relaxed">{diagnosis.description}</p>
+          </CardContent>
+        )}
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Camera className="w-5 h-5 text-primary" />
+            {t('outcome.retakeTitle')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ol className="space-y-3">
+            {tips.map((tip, index) => (
+              <li key={index} className="flex items-start gap-3">
+                <span className="flex-shrink-0 w-6 h-6 rounded-full bg-primary text-primary-foreground flex items-center justify-center text-sm font-semibold">
+                  {index + 1}
+                </span>
+                <span className="text-foreground pt-0.5">{tip}</span>
+              </li>
+            ))}
+          </ol>
+        </CardContent>
+      </Card>
+    </>
+  );
+};
+
+export const OutcomeResult = ({ diagnosis }: OutcomeResultProps) =>
+  diagnosis.kind === 'healthy' ? <HealthyResult diagnosis={diagnosis} /> : <UnusableImageResult diagnosis={diagnosis} />;
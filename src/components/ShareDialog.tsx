@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import { Copy, Link2, Share2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useErrorToast } from '@/hooks/use-error-toast';
+import { useI18n } from '@/hooks/use-i18n';
+import { useToast } from '@/hooks/use-toast';
+import { formatDateTime } from '@/i18n/translate';
+import {
+  createShare,
+  getOwnedShares,
+  getShareUrl,
+  revokeShare,
+  shareExpiryDays,
+  type OwnedShare,
+  type ShareExpiryDays,
+} from '@/lib/shares';
+
+interface ShareDialogProps {
+  diagnosisId: string;
+  // Used as the title when handing the link to the phone's share sheet
+  title: string;
+}
+
+const NEVER = 'never';
+
+export const ShareDialog = ({ diagnosisId, title }: ShareDialogProps) => {
+  const { language, t } = useI18n();
+  const { toast } = useToast();
+  const showError = useErrorToast();
+  const [shares, setShares] = useState<OwnedShare[]>([]);
+  const [expiry, setExpiry] = useState<string>('7');
+  const [isCreating, setIsCreating] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const canUseShareSheet = typeof navigator !== 'undefined' && typeof navigator.share === 'function';
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      await createShare(diagnosisId, expiry === NEVER ? null : (Number(expiry) as ShareExpiryDays));
+      setShares(getOwnedShares(diagnosisId));
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      showError(error, { onRetry: handleCreate });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async (share: OwnedShare) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(share.shareId));
+      toast({ title: t('share.copied') });
+    } catch (error) {
+      console.error('Error copying share link:', error);
+      showError(error);
+    }
+  };
+
+  const handleShareSheet = async (share: OwnedShare) => {
+    try {
+      await navigator.share({ title, text: t('share.message'), url: getShareUrl(share.shareId) });
+    } catch (error) {
+      // Closing the share sheet is not an error
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      console.error('Error opening share sheet:', error);
+      showError(error);
+    }
+  };
+
+  const handleRevoke = async (share: OwnedShare) => {
+    setRevoking(share.shareId);
+    try {
+      await revokeShare(share);
+      setShares(getOwnedShares(diagnosisId));
+      toast({ title: t('share.revoked') });
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      showError(error, { onRetry: () => handleRevoke(share) });
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => open && setShares(getOwnedShares(diagnosisId))}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Share2 className="w-4 h-4" />
+          {t('share.button')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('share.title')}</DialogTitle>
+          <DialogDescription>{t('share.description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-3">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="share-expiry">{t('share.expiryLabel')}</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger id="share-expiry">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {shareExpiryDays.map((days) => (
+                  <SelectItem key={days} value={String(days)}>
+                    {t(`share.expiry.${days}`)}
+                  </SelectItem>
+                ))}
+                <SelectItem value={NEVER}>{t('share.expiry.never')}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleCreate} disabled={isCreating} className="gap-2">
+            <Link2 className="w-4 h-4" />
+            {isCreating ? t('share.creating') : t('share.create')}
+          </Button>
+        </div>
+
+        {shares.length > 0 && (
+          <div className="space-y-3">
+            <p className="text-sm font-medium">{t('share.activeLinks')}</p>
+            {shares.map((share) => (
+              <div key={share.shareId} className="space-y-2 rounded-lg border border-border p-3">
+                <div className="flex gap-2">
+                  <Input readOnly value={getShareUrl(share.shareId)} onFocus={(event) => event.target.select()} />
+                  <Button variant="outline" size="icon" onClick={() => handleCopy(share)} aria-label={t('share.copy')}>
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                  {canUseShareSheet && (
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => handleShareSheet(share)}
+                      aria-label={t('share.shareVia')}
+                    >
+                      <Share2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>
+                    {share.expiresAt
+                      ? t('share.expiresOn', { date: formatDateTime(share.expiresAt, language) })
+                      : t('share.noExpiry')}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRevoke(share)}
+                    disabled={revoking === share.shareId}
+                    className="gap-1 text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                    {t('share.revoke')}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
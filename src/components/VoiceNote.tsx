@@ -0,0 +1,74 @@
+import { useEffect } from 'react';
+import { Mic, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSpeechRecognition } from '@/hooks/use-speech-recognition';
+import { getLanguage } from '@/i18n/languages';
+import { MAX_NOTES_LENGTH } from '@/lib/diagnosis';
+
+type NotesUpdate = (notes: string) => string;
+
+interface VoiceNoteProps {
+  value: string;
+  onChange: (update: NotesUpdate) => void;
+  disabled?: boolean;
+}
+
+// Spoken observations are transcribed into the same box the farmer can type in,
+// so a misheard word can be corrected before the analysis.
+export const VoiceNote = ({ value, onChange, disabled }: VoiceNoteProps) => {
+  const { language, t } = useI18n();
+  const { supported, listening, interim, error, start, stop, abort } = useSpeechRecognition(language, (text) =>
+    onChange((current) => (current ? `${current} ${text}` : text).slice(0, MAX_NOTES_LENGTH))
+  );
+
+  // Stop listening once the form is locked, so nothing is added to the notes
+  // while they are being analysed
+  useEffect(() => {
+    if (disabled) abort();
+  }, [disabled, abort]);
+
+  const hint = !supported
+    ? t('voiceNote.unsupported')
+    : error
+      ? t(`voiceNote.error.${error}`, { language: getLanguage(language)?.nativeName ?? language })
+      : listening
+        ? t('voiceNote.listening')
+        : null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-3">
+        <Label htmlFor="notes">{t('voiceNote.label')}</Label>
+        {supported && (
+          <Button
+            type="button"
+            variant={listening ? 'destructive' : 'outline'}
+            size="sm"
+            onClick={listening ? stop : start}
+            disabled={disabled}
+            className="gap-2"
+          >
+            {listening ? <Square className="w-4 h-4" /> : <Mic className="w-4 h-4" />}
+            {listening ? t('voiceNote.stop') : t('voiceNote.record')}
+          </Button>
+        )}
+      </div>
+      <Textarea
+        id="notes"
+        value={value}
+        onChange={(e) => onChange(() => e.target.value)}
+        placeholder={t('voiceNote.placeholder')}
+        maxLength={MAX_NOTES_LENGTH}
+        rows={3}
+        disabled={disabled}
+      />
+      {interim && <p className="text-sm italic text-muted-foreground">{interim}</p>}
+      {hint && (
+        <p className={error ? 'text-sm text-destructive' : 'text-sm text-muted-foreground'}>{hint}</p>
+      )}
+    </div>
+  );
+};
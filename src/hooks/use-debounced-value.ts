@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+
+// Follows value once it has stopped changing for delayMs, so typing doesn't
+// start a request on every keystroke
+export function useDebouncedValue<T>(value: T, delayMs: number) {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debounced;
+}
@@ -0,0 +1,40 @@
+import { useCallback } from 'react';
+import { ToastAction } from '@/components/ui/toast';
+import { useI18n } from '@/hooks/use-i18n';
+import { useToast } from '@/hooks/use-toast';
+import { describeError } from '@/lib/error-messages';
+import type { ErrorCode } from '@/lib/errors';
+
+interface ErrorToastOptions {
+  onRetry?: () => void;
+  onChoosePhoto?: () => void;
+  // Code to assume for errors that don't carry one
+  fallback?: ErrorCode;
+}
+
+// Shows a localised toast for any error, with a recovery button when the error
+// suggests one and the caller can carry it out.
+export function useErrorToast() {
+  const { toast } = useToast();
+  const { language } = useI18n();
+
+  return useCallback(
+    (error: unknown, { onRetry, onChoosePhoto, fallback }: ErrorToastOptions = {}) => {
+      const { title, description, action, actionLabel } = describeError(error, language, fallback);
+      const handler = action === 'retry' ? onRetry : action === 'choose_photo' ? onChoosePhoto : undefined;
+
+      toast({
+        title,
+        description,
+        variant: 'destructive',
+        action:
+          handler && actionLabel ? (
+            <ToastAction altText={actionLabel} onClick={handler}>
+              {actionLabel}
+            </ToastAction>
+          ) : undefined,
+      });
+    },
+    [language, toast]
+  );
+}
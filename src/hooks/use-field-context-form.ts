@@ -0,0 +1,36 @@
+import { useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import type { ZodErrorMap } from 'zod';
+import { useI18n } from '@/hooks/use-i18n';
+import {
+  emptyFieldContext,
+  fieldContextSchema,
+  MAX_DAYS_SINCE_SOWING,
+  type FieldContextFormValues,
+} from '@/lib/field-context';
+
+// The optional field details form on the home page, validated against the
+// same schema the edge function uses, with messages in the app's language.
+export function useFieldContextForm() {
+  const { t } = useI18n();
+
+  const resolver = useMemo(() => {
+    const errorMap: ZodErrorMap = (issue, ctx) => {
+      if (issue.path[0] === 'daysSinceSowing') {
+        return { message: t('fieldContext.error.days', { max: MAX_DAYS_SINCE_SOWING }) };
+      }
+      if (issue.code === 'too_big') {
+        return { message: t('fieldContext.error.tooLong', { max: Number(issue.maximum) }) };
+      }
+      return { message: ctx.defaultError };
+    };
+    return zodResolver(fieldContextSchema, { errorMap });
+  }, [t]);
+
+  return useForm<FieldContextFormValues>({
+    resolver,
+    defaultValues: emptyFieldContext,
+    mode: 'onTouched',
+  });
+}
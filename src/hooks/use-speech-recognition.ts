@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getLanguage } from '@/i18n/languages';
+
+// The DOM typings ship the result types but not the recognizer itself, which
+// Chrome and Safari still expose only under a webkit prefix.
+interface RecognitionResultEvent extends Event {
+  resultIndex: number;
+  results: SpeechRecognitionResultList;
+}
+
+interface RecognitionErrorEvent extends Event {
+  error: string;
+}
+
+interface Recognition extends EventTarget {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: RecognitionResultEvent) => void) | null;
+  onerror: ((event: RecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+type RecognitionConstructor = new () => Recognition;
+
+export type RecognitionError = 'denied' | 'language' | 'noSpeech' | 'failed';
+
+const getRecognitionConstructor = (): RecognitionConstructor | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: RecognitionConstructor;
+    webkitSpeechRecognition?: RecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+};
+
+const toRecognitionError = (error: string): RecognitionError => {
+  switch (error) {
+    case 'not-allowed':
+    case 'service-not-allowed':
+    case 'audio-capture':
+      return 'denied';
+    case 'language-not-supported':
+      return 'language';
+    case 'no-speech':
+      return 'noSpeech';
+    default:
+      return 'failed';
+  }
+};
+
+// Dictation in the given language. Finished phrases are handed to onTranscript
+// as they arrive; the phrase still being spoken is exposed as interim text.
+export function useSpeechRecognition(language: string, onTranscript: (text: string) => void) {
+  const Recognizer = getRecognitionConstructor();
+  const [listening, setListening] = useState(false);
+  const [interim, setInterim] = useState('');
+  const [error, setError] = useState<RecognitionError | null>(null);
+  const recognitionRef = useRef<Recognition | null>(null);
+  const onTranscriptRef = useRef(onTranscript);
+  onTranscriptRef.current = onTranscript;
+
+  const start = useCallback(() => {
+    if (!Recognizer || recognitionRef.current) return;
+    const recognition = new Recognizer();
+    recognition.lang = getLanguage(language)?.locale ?? language;
+    recognition.continuous = true;
+    recognition.interimResults = true;
+
+    recognition.onresult = (event) => {
+      let pending = '';
+      for (let index = event.resultIndex; index < event.results.length; index++) {
+        const result = event.results[index];
+        const text = result[0].transcript.trim();
+        if (result.isFinal) {
+          if (text) onTranscriptRef.current(text);
+        } else {
+          pending += result[0].transcript;
+        }
+      }
+      setInterim(pending.trim());
+    };
+    recognition.onerror = (event) => {
+      // Aborted by us when stopping or switching language
+      if (event.error === 'aborted') return;
+      console.error('Speech recognition failed:', event.error);
+      setError(toRecognitionError(event.error));
+    };
+    recognition.onend = () => {
+      recognitionRef.current = null;
+      setListening(false);
+      setInterim('');
+    };
+
+    recognitionRef.current = recognition;
+    setError(null);
+    setListening(true);
+    try {
+      recognition.start();
+    } catch (startError) {
+      console.error('Speech recognition could not start:', startError);
+      recognitionRef.current = null;
+      setListening(false);
+      setError('failed');
+    }
+  }, [Recognizer, language]);
+
+  const stop = useCallback(() => {
+    recognitionRef.current?.stop();
+  }, []);
+
+  // Unlike stop, drops whatever was said but not yet transcribed
+  const abort = useCallback(() => {
+    recognitionRef.current?.abort();
+  }, []);
+
+  // A recognizer is bound to one language, so switching ends the session
+  useEffect(() => () => recognitionRef.current?.abort(), [language]);
+
+  return { supported: !!Recognizer, listening, interim, error, start, stop, abort };
+}
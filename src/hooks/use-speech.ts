@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { findVoice, isSpeechSupported, type SpeechSection } from '@/lib/speech';
+
+export type SpeechStatus = 'idle' | 'speaking' | 'paused';
+
+// Some browsers never fire voiceschanged when no voices are installed
+const VOICE_LOAD_TIMEOUT_MS = 2000;
+
+interface SpeechPosition {
+  section: number;
+  utterance: number;
+}
+
+// Reads sections aloud one utterance at a time so playback can jump between
+// sections and pick up where it was when the speed changes.
+export function useSpeech(sections: SpeechSection[], language: string) {
+  const supported = isSpeechSupported();
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() =>
+    supported ? window.speechSynthesis.getVoices() : []
+  );
+  const [voicesLoaded, setVoicesLoaded] = useState(voices.length > 0);
+  const [status, setStatus] = useState<SpeechStatus>('idle');
+  const [currentSection, setCurrentSection] = useState<number | null>(null);
+  const [rate, setRate] = useState(1);
+  // Bumped on every start and stop so callbacks from cancelled utterances are ignored
+  const runRef = useRef(0);
+  const positionRef = useRef<SpeechPosition>({ section: 0, utterance: 0 });
+  const voice = findVoice(voices, language);
+
+  useEffect(() => {
+    if (!supported) return;
+    const synth = window.speechSynthesis;
+    const onVoicesChanged = () => {
+      setVoices(synth.getVoices());
+      setVoicesLoaded(true);
+    };
+    const timeout = window.setTimeout(() => setVoicesLoaded(true), VOICE_LOAD_TIMEOUT_MS);
+    synth.addEventListener('voiceschanged', onVoicesChanged);
+    return () => {
+      window.clearTimeout(timeout);
+      synth.removeEventListener('voiceschanged', onVoicesChanged);
+    };
+  }, [supported]);
+
+  const speakFrom = useCallback(
+    (section: number, utterance = 0, speed = rate) => {
+      if (!supported || !voice) return;
+      const synth = window.speechSynthesis;
+      const run = ++runRef.current;
+      synth.cancel();
+      // Chrome keeps a paused engine paused even after cancel
+      synth.resume();
+
+      const speakNext = ({ section, utterance }: SpeechPosition) => {
+        if (run !== runRef.current) return;
+        const texts = sections[section]?.utterances;
+        if (!texts) {
+          setStatus('idle');
+          setCurrentSection(null);
+          return;
+        }
+        if (utterance >= texts.length) {
+          speakNext({ section: section + 1, utterance: 0 });
+          return;
+        }
+
+        positionRef.current = { section, utterance };
+        setCurrentSection(section);
+        const spoken = new SpeechSynthesisUtterance(texts[utterance]);
+        spoken.voice = voice;
+        spoken.lang = voice.lang;
+        spoken.rate = speed;
+        spoken.onend = () => speakNext({ section, utterance: utterance + 1 });
+        spoken.onerror = (event) => {
+          if (event.error === 'interrupted' || event.error === 'canceled') return;
+          console.error('Speech synthesis failed:', event.error);
+          speakNext({ section, utterance: utterance + 1 });
+        };
+        synth.speak(spoken);
+      };
+
+      setStatus('speaking');
+      speakNext({ section, utterance });
+    },
+    [sections, supported, voice, rate]
+  );
+
+  const stop = useCallback(() => {
+    runRef.current++;
+    if (supported) window.speechSynthesis.cancel();
+    setStatus('idle');
+    setCurrentSection(null);
+  }, [supported]);
+
+  const pause = () => {
+    window.speechSynthesis.pause();
+    setStatus('paused');
+  };
+
+  const resume = () => {
+    window.speechSynthesis.resume();
+    setStatus('speaking');
+  };
+
+  const changeRate = (newRate: number) => {
+    setRate(newRate);
+    // The rate of an utterance is fixed once queued, so restart the current one
+    if (status !== 'idle') {
+      speakFrom(positionRef.current.section, positionRef.current.utterance, newRate);
+    }
+  };
+
+  // New text (e.g. after switching the report language) ends the old read-out
+  useEffect(() => stop, [sections, stop]);
+
+  return {
+    supported,
+    voice,
+    voicesLoaded,
+    status,
+    currentSection,
+    rate,
+    speakFrom,
+    pause,
+    resume,
+    stop,
+    changeRate,
+  };
+}
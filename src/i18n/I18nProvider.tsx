@@ -0,0 +1,57 @@
+import { useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { I18nContext } from './context';
+import { DEFAULT_LANGUAGE, isLanguageCode, type LanguageCode } from './languages';
+import { createTranslator, reportMissingKeys } from './translate';
+
+const STORAGE_KEY = 'plantcare.language';
+
+const readStoredLanguage = (): LanguageCode | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isLanguageCode(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+// First visit: use the browser language when we have a catalogue for it
+const detectLanguage = (): LanguageCode => {
+  const browser = navigator.language?.split('-')[0];
+  return readStoredLanguage() ?? (isLanguageCode(browser) ? browser : DEFAULT_LANGUAGE);
+};
+
+export const I18nProvider = ({ children }: { children: ReactNode }) => {
+  const [language, setLanguageState] = useState<LanguageCode>(detectLanguage);
+
+  const setLanguage = useCallback((next: LanguageCode) => {
+    setLanguageState(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // Private browsing or storage disabled: the choice lasts for this visit only
+    }
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  useEffect(() => {
+    if (import.meta.env.DEV) reportMissingKeys();
+  }, []);
+
+  const value = useMemo(() => ({ language, setLanguage, t: createTranslator(language) }), [language, setLanguage]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+// Renders a subtree in another language, e.g. a report shown in the language
+// it was generated in while the rest of the app keeps the user's choice.
+export const LanguageScope = ({ language, children }: { language: string; children: ReactNode }) => {
+  const parent = useContext(I18nContext);
+  const scoped = isLanguageCode(language) ? language : parent.language;
+
+  const value = useMemo(() => ({ ...parent, language: scoped, t: createTranslator(scoped) }), [parent, scoped]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
@@ -0,0 +1,15 @@
+import { createContext } from 'react';
+import { DEFAULT_LANGUAGE, type LanguageCode } from './languages';
+import { createTranslator, type Translator } from './translate';
+
+export interface I18nContextValue {
+  language: LanguageCode;
+  setLanguage: (language: LanguageCode) => void;
+  t: Translator;
+}
+
+export const I18nContext = createContext<I18nContextValue>({
+  language: DEFAULT_LANGUAGE,
+  setLanguage: () => {},
+  t: createTranslator(DEFAULT_LANGUAGE),
+});
@@ -0,0 +1,305 @@
+import type { Catalogue } from './en';
+
+export const bn: Catalogue = {
+  'app.name': 'PlantCare AI',
+  'app.tagline': 'স্মার্ট রোগ শনাক্তকরণ',
+  'app.footer.copyright': '© 2024 PlantCare AI. উন্নত AI প্রযুক্তি দ্বারা চালিত।',
+  'app.footer.mission': 'কৃষক ও বাগানপ্রেমীদের ফসল রক্ষায় সহায়তা।',
+  'nav.history': 'ইতিহাস',
+  'language.placeholder': 'ভাষা বেছে নিন',
+
+  'home.badge': 'AI-চালিত উদ্ভিদ স্বাস্থ্য বিশ্লেষণ',
+  'home.title': 'গাছের রোগ শনাক্ত করুন',
+  'home.titleHighlight': 'কয়েক সেকেন্ডে',
+  'home.subtitle':
+    'আপনার গাছের একটি ছবি আপলোড করুন এবং আপনার পছন্দের ভাষায় চিকিৎসার পরামর্শসহ তাৎক্ষণিক AI-চালিত রোগ শনাক্তকরণ পান।',
+  'home.cropLabel': 'ফসল (ঐচ্ছিক)',
+  'home.cropPlaceholder': 'যেমন টমেটো',
+  'home.fieldLabel': 'জমি বা প্লট (ঐচ্ছিক)',
+  'home.fieldPlaceholder': 'যেমন উত্তরের জমি',
+  'home.analyze': 'গাছ বিশ্লেষণ করুন',
+  'home.analyzing': 'বিশ্লেষণ চলছে...',
+  'home.feature.detection.title': 'AI-চালিত শনাক্তকরণ',
+  'home.feature.detection.description': 'উন্নত কম্পিউটার ভিশন উচ্চ নির্ভুলতায় গাছের স্বাস্থ্য বিশ্লেষণ করে',
+  'home.feature.languages.title': 'বহু ভাষায় সহায়তা',
+  'home.feature.languages.description': 'ভালোভাবে বোঝার জন্য ৯টি ভারতীয় ভাষায় ফলাফল পান',
+  'home.feature.treatment.title': 'চিকিৎসা পরিকল্পনা',
+  'home.feature.treatment.description': 'চিকিৎসা ও প্রতিরোধের বিস্তারিত পরামর্শ পান',
+  'home.retakePhoto': '← আবার ছবি তুলুন',
+  'home.analyzeAnother': '← অন্য গাছ বিশ্লেষণ করুন',
+  'home.cachedResult': 'সংরক্ষিত ফলাফল',
+  'home.freshAnalysis': 'নতুন করে বিশ্লেষণ করুন',
+  'home.noImage.title': 'কোনো ছবি বেছে নেওয়া হয়নি',
+  'home.noImage.description': 'অনুগ্রহ করে প্রথমে গাছের একটি ছবি আপলোড করুন।',
+
+  'analysis.diseased.title': 'বিশ্লেষণ সম্পূর্ণ',
+  'analysis.diseased.description': 'গাছের রোগ সফলভাবে বিশ্লেষণ করা হয়েছে।',
+  'analysis.healthy.title': 'বিশ্লেষণ সম্পূর্ণ',
+  'analysis.healthy.description': 'আপনার গাছে রোগের কোনো লক্ষণ পাওয়া যায়নি।',
+  'analysis.not_a_plant.title': 'কোনো গাছ পাওয়া যায়নি',
+  'analysis.not_a_plant.description': 'যে গাছটি পরীক্ষা করতে চান তার একটি ছবি আপলোড করুন।',
+  'analysis.unclear_image.title': 'ছবি অস্পষ্ট',
+  'analysis.unclear_image.description': 'দেখানো পরামর্শ অনুযায়ী আবার ছবি তুলুন।',
+
+  'upload.dropTitle': 'আপনার গাছের ছবি এখানে ছাড়ুন',
+  'upload.dropSubtitle': 'অথবা আপনার ডিভাইস থেকে বেছে নিতে ক্লিক করুন',
+  'upload.dropHint': 'একই গাছের সর্বোচ্চ {max}টি ছবি: পাতার উপরের ও নিচের দিক, কাণ্ড, ফল, পুরো গাছ',
+  'upload.formats': 'সমর্থিত: JPG, PNG, WEBP',
+  'upload.addAnother': 'আরেকটি ছবি যোগ করুন',
+  'upload.remaining': 'আরও {count}টি',
+  'upload.photoNumber': 'ছবি {number}',
+  'upload.keepLocation': 'ছবির GPS অবস্থান রাখুন (গোপনীয়তার জন্য স্বাভাবিকভাবে মুছে ফেলা হয়)',
+  'upload.tooMany.title': 'অনেক বেশি ছবি',
+  'upload.tooMany.description': 'একটি গাছের সর্বোচ্চ {max}টি ছবি যোগ করতে পারেন।',
+
+  'imageLabel.leaf_top': 'পাতা (উপরের দিক)',
+  'imageLabel.leaf_underside': 'পাতা (নিচের দিক)',
+  'imageLabel.stem': 'কাণ্ড',
+  'imageLabel.fruit': 'ফল',
+  'imageLabel.whole_plant': 'পুরো গাছ',
+  'imageLabel.other': 'অন্যান্য',
+
+  'voiceNote.label': 'আপনার পর্যবেক্ষণ (ঐচ্ছিক)',
+  'voiceNote.placeholder': 'যেমন গত সপ্তাহে বৃষ্টির পরে শুরু হয়েছে, পাশের গাছে ছড়াচ্ছে',
+  'voiceNote.record': 'ভয়েস নোট রেকর্ড করুন',
+  'voiceNote.stop': 'রেকর্ডিং বন্ধ করুন',
+  'voiceNote.listening': 'শুনছি… এখন বলুন',
+  'voiceNote.unsupported': 'এই ব্রাউজারে কণ্ঠস্বর দিয়ে লেখার সুবিধা নেই। আপনি আপনার পর্যবেক্ষণ টাইপ করতে পারেন।',
+  'voiceNote.error.denied': 'মাইক্রোফোনের অনুমতি পাওয়া যায়নি। নোট রেকর্ড করতে ব্রাউজার সেটিংসে অনুমতি দিন।',
+  'voiceNote.error.language':
+    'এই ডিভাইসে {language} ভাষায় কণ্ঠস্বর দিয়ে লেখার সুবিধা নেই। আপনি আপনার পর্যবেক্ষণ টাইপ করতে পারেন।',
+  'voiceNote.error.noSpeech': 'কোনো কথা শোনা যায়নি। মাইক্রোফোনের কাছে এসে আবার চেষ্টা করুন।',
+  'voiceNote.error.failed': 'ভয়েস ইনপুট হঠাৎ বন্ধ হয়ে গেছে। আবার চেষ্টা করুন বা আপনার পর্যবেক্ষণ টাইপ করুন।',
+
+  'fieldContext.title': 'জমির বিবরণ (ঐচ্ছিক)',
+  'fieldContext.description': 'এতে চিকিৎসা আপনার ফসলের পর্যায় ও অঞ্চল অনুযায়ী দেওয়া যায়',
+  'fieldContext.variety': 'জাত',
+  'fieldContext.varietyPlaceholder': 'যেমন অর্কা রক্ষক',
+  'fieldContext.growthStage': 'বৃদ্ধির পর্যায়',
+  'fieldContext.daysSinceSowing': 'বপন বা রোপণের পরের দিন',
+  'fieldContext.weather': 'সাম্প্রতিক আবহাওয়া',
+  'fieldContext.irrigation': 'সেচ',
+  'fieldContext.recentSprays': 'সাম্প্রতিক স্প্রে বা সার',
+  'fieldContext.recentSpraysPlaceholder': 'যেমন ৫ দিন আগে ম্যানকোজেব, গত সপ্তাহে ইউরিয়া',
+  'fieldContext.district': 'জেলা',
+  'fieldContext.districtPlaceholder': 'যেমন বর্ধমান',
+  'fieldContext.state': 'রাজ্য',
+  'fieldContext.statePlaceholder': 'যেমন পশ্চিমবঙ্গ',
+  'fieldContext.select': 'বেছে নিন',
+  'fieldContext.clear': 'বিবরণ মুছুন',
+  'fieldContext.error.tooLong': 'সর্বোচ্চ {max}টি অক্ষর ব্যবহার করুন',
+  'fieldContext.error.days': '0 থেকে {max} পর্যন্ত দিনের পূর্ণ সংখ্যা লিখুন',
+
+  'camera.takePhoto': 'ছবি তুলুন',
+  'camera.title': 'একটি ছবি তুলুন',
+  'camera.description': 'আক্রান্ত পাতাটি ফ্রেমের ভেতরে রাখুন এবং ফোন স্থির রাখুন।',
+  'camera.error': 'ক্যামেরা চালু করা যায়নি। ক্যামেরার অনুমতি দিন বা ফোনের ক্যামেরা ব্যবহার করুন।',
+  'camera.openPhoneCamera': 'ফোনের ক্যামেরা খুলুন',
+  'camera.capturedAlt': 'তোলা গাছের ছবি',
+  'camera.torchOn': 'টর্চ চালু করুন',
+  'camera.torchOff': 'টর্চ বন্ধ করুন',
+  'camera.retake': 'আবার তুলুন',
+  'camera.usePhoto': 'ছবি ব্যবহার করুন',
+  'camera.capture': 'ছবি তুলুন',
+
+  'results.title': 'বিশ্লেষণের ফলাফল',
+  'results.generating': 'তৈরি হচ্ছে...',
+  'results.downloadPdf': 'PDF রিপোর্ট ডাউনলোড করুন',
+  'results.selectLanguage': 'ভাষা বেছে নিন',
+  'results.bilingual': 'দ্বিভাষিক রিপোর্ট',
+  'results.bilingualOption': 'ইংরেজি + {language}',
+  'results.exportData': 'ডেটা রপ্তানি করুন',
+  'results.format.json': 'JSON (ডেটা)',
+  'results.format.csv': 'CSV (স্প্রেডশিট)',
+  'results.format.markdown': 'Markdown',
+  'results.format.html': 'HTML (ওয়েব পেজ)',
+  'results.exported.title': 'রপ্তানি ডাউনলোড হয়েছে',
+  'results.exported.description': '{format} ফাইল সংরক্ষিত হয়েছে',
+  'results.reportLanguage': 'রিপোর্টের ভাষা:',
+  'results.confidence': 'আস্থার মাত্রা',
+  'results.severity': 'রোগের তীব্রতা',
+  'results.spreadRate': 'ছড়ানোর হার:',
+  'results.symptoms': 'লক্ষণ',
+  'results.affectedParts': 'আক্রান্ত অংশ',
+  'results.causes': 'কারণ',
+  'results.treatment': 'চিকিৎসা',
+  'results.prevention': 'প্রতিরোধ',
+  'results.translating.title': 'অনুবাদ হচ্ছে...',
+  'results.translating.description': '{language} ভাষায় রিপোর্ট তৈরি হচ্ছে',
+  'results.pdfDownloaded.title': 'PDF ডাউনলোড হয়েছে',
+  'results.pdfDownloaded.description': '{language} ভাষায় রিপোর্ট তৈরি হয়েছে',
+
+  'crop.label': 'ফসল',
+  'crop.mismatch.title': 'এটি কি সঠিক ফসল?',
+  'crop.mismatch.description':
+    'আপনি {reported} লিখেছেন, কিন্তু ছবিগুলো {crop}-এর মতো দেখাচ্ছে। ফসলের নাম যাচাই করুন, অথবা ছবিতে ভুল গাছ থাকলে আবার ছবি তুলুন।',
+
+  'speech.listen': 'শুনুন',
+  'speech.pause': 'বিরতি',
+  'speech.resume': 'আবার চালু করুন',
+  'speech.stop': 'থামান',
+  'speech.previous': 'আগের অংশ',
+  'speech.next': 'পরের অংশ',
+  'speech.speed': 'পড়ার গতি',
+  'speech.unavailable.title': 'শোনার সুবিধা উপলব্ধ নেই',
+  'speech.unavailable.noVoice':
+    'এই ডিভাইসে {language} কণ্ঠ ইনস্টল করা নেই। রিপোর্ট শুনতে ফোনের টেক্সট-টু-স্পিচ সেটিংসে এটি যোগ করুন।',
+  'speech.unavailable.unsupported':
+    'এই ব্রাউজার লেখা পড়ে শোনাতে পারে না। Chrome বা ফোনের ডিফল্ট ব্রাউজার ব্যবহার করে দেখুন।',
+
+  'report.title': 'উদ্ভিদ স্বাস্থ্য রিপোর্ট',
+  'report.date': 'তারিখ: {date}',
+  'report.id': 'রিপোর্ট আইডি: {id}',
+  'report.page': 'পৃষ্ঠা {page} / {total}',
+  'report.photos': 'ছবি',
+  'report.severity': 'তীব্রতা: {value}',
+  'report.spreadRate': 'বিস্তারের হার: {value}',
+  'report.crop': 'ফসল: {name} ({confidence}%)',
+  'report.affectedArea': 'আক্রান্ত অংশ: {percent}% (গ্রেড {grade} / {max})',
+
+  'severity.low': 'কম',
+  'severity.moderate': 'মাঝারি',
+  'severity.high': 'বেশি',
+  'severity.critical': 'গুরুতর',
+
+  'severityScale.description': 'দৃশ্যমান পাতা বা কলার যে অংশে লক্ষণ আছে',
+  'severityScale.grade': 'গ্রেড {grade} / {max}',
+  'severityScale.none': 'কোনোটি নয়',
+  'severityScale.range': '{min}–{max}%',
+  'severityScale.notEstimated': 'এই নির্ণয়ের জন্য আক্রান্ত অংশের অনুমান করা হয়নি।',
+
+  'spreadRate.low': 'ধীর',
+  'spreadRate.moderate': 'মাঝারি',
+  'spreadRate.high': 'দ্রুত',
+
+  'growthStage.seedling': 'চারা',
+  'growthStage.vegetative': 'অঙ্গজ বৃদ্ধি',
+  'growthStage.flowering': 'ফুল আসা',
+  'growthStage.fruiting': 'ফল বা দানা পুষ্ট হওয়া',
+  'growthStage.maturity': 'পরিপক্ব, ফসল তোলার কাছাকাছি',
+  'weather.dry': 'শুকনো',
+  'weather.hot': 'গরম',
+  'weather.rainy': 'বৃষ্টি',
+  'weather.humid': 'আর্দ্র',
+  'weather.cold': 'ঠান্ডা',
+  'weather.foggy': 'কুয়াশা',
+  'irrigation.rainfed': 'বৃষ্টিনির্ভর',
+  'irrigation.flood': 'প্লাবন সেচ',
+  'irrigation.furrow': 'নালা সেচ',
+  'irrigation.drip': 'ড্রিপ',
+  'irrigation.sprinkler': 'স্প্রিংকলার',
+
+  'kind.diseased': 'রোগাক্রান্ত',
+  'kind.healthy': 'সুস্থ গাছ',
+  'kind.not_a_plant': 'গাছ নয়',
+  'kind.unclear_image': 'অস্পষ্ট ছবি',
+
+  'differential.title': 'পার্থক্যমূলক রোগনির্ণয়',
+  'differential.description': 'সম্ভাব্যতা অনুযায়ী সাজানো সবচেয়ে সম্ভাব্য রোগ',
+  'differential.tellApart': 'কীভাবে আলাদা করবেন:',
+
+  'outcome.healthy.title': 'আপনার গাছ সুস্থ দেখাচ্ছে',
+  'outcome.healthy.description': 'রোগের কোনো দৃশ্যমান লক্ষণ পাওয়া যায়নি',
+  'outcome.keepHealthy': 'গাছ সুস্থ রাখুন',
+  'outcome.notAPlant.title': 'এটি গাছ বলে মনে হচ্ছে না',
+  'outcome.notAPlant.description': 'রোগনির্ণয়ের জন্য আক্রান্ত গাছের ছবি আপলোড করুন',
+  'outcome.unclear.title': 'আমরা গাছটি পরিষ্কার দেখতে পাইনি',
+  'outcome.unclear.description': 'নির্ভরযোগ্য রোগনির্ণয়ের জন্য ছবিটি খুব অস্পষ্ট',
+  'outcome.retakeTitle': 'কীভাবে আবার ছবি তুলবেন',
+  'outcome.guidance.fill': 'একটি পাতা বা আক্রান্ত অংশের ছবি তুলুন যাতে সেটি ফ্রেমের বেশিরভাগ জুড়ে থাকে।',
+  'outcome.guidance.light': 'দিনের আলোয় ছবি তুলুন এবং গাঢ় ছায়া, ফ্ল্যাশের ঝলক বা পেছনের আলো এড়িয়ে চলুন।',
+  'outcome.guidance.focus': 'ফোন স্থির রাখুন এবং ছবি তোলার আগে ফোকাস করতে পাতায় ট্যাপ করুন।',
+  'outcome.guidance.compare': 'তুলনার জন্য ক্ষতিগ্রস্ত অংশের সাথে কিছু সুস্থ অংশও রাখুন।',
+
+  'images.title.one': 'বিশ্লেষিত গাছের ছবি',
+  'images.title.other': 'বিশ্লেষিত গাছের ছবিগুলি',
+  'images.photoAlt': 'বিশ্লেষিত গাছ, ছবি {number}',
+  'images.showRegions': 'লক্ষণের অংশ দেখান',
+
+  'history.title': 'রোগনির্ণয়ের ইতিহাস',
+  'history.subtitle': 'আপনার বিশ্লেষণ করা প্রতিটি গাছ',
+  'history.newAnalysis': 'নতুন বিশ্লেষণ',
+  'history.search': 'খুঁজুন',
+  'history.searchPlaceholder': 'রোগ, ফসল বা জমি',
+  'history.crop': 'ফসল',
+  'history.cropPlaceholder': 'দেওয়া বা শনাক্ত করা ফসল',
+  'history.severity': 'তীব্রতা',
+  'history.allSeverities': 'সব তীব্রতা',
+  'history.dateRange': 'তারিখের পরিসর',
+  'history.from': 'শুরুর তারিখ',
+  'history.to': 'শেষ তারিখ',
+  'history.loadFailed': 'রোগনির্ণয়ের ইতিহাস লোড করা যায়নি। অনুগ্রহ করে আবার চেষ্টা করুন।',
+  'history.empty': 'আপনার ফিল্টারের সাথে কোনো রোগনির্ণয় মেলেনি।',
+  'history.clearFilters': 'ফিল্টার মুছুন',
+
+  'share.button': 'শেয়ার করুন',
+  'share.title': 'এই রোগনির্ণয় শেয়ার করুন',
+  'share.description': 'লিঙ্ক থাকা যে কেউ এই ফলাফল নিজের পছন্দের ভাষায় শুধু দেখতে পারবেন।',
+  'share.expiryLabel': 'লিঙ্কের মেয়াদ',
+  'share.expiry.1': '1 দিন পরে',
+  'share.expiry.7': '7 দিন পরে',
+  'share.expiry.30': '30 দিন পরে',
+  'share.expiry.never': 'কখনও না',
+  'share.create': 'লিঙ্ক তৈরি করুন',
+  'share.creating': 'তৈরি হচ্ছে...',
+  'share.activeLinks': 'আপনার সক্রিয় লিঙ্ক',
+  'share.copy': 'লিঙ্ক কপি করুন',
+  'share.copied': 'লিঙ্ক কপি হয়েছে',
+  'share.shareVia': 'এর মাধ্যমে শেয়ার করুন...',
+  'share.message': 'PlantCare AI থেকে একটি উদ্ভিদ রোগনির্ণয়',
+  'share.expiresOn': '{date} তারিখে মেয়াদ শেষ',
+  'share.noExpiry': 'মেয়াদ শেষ হবে না',
+  'share.revoke': 'বাতিল করুন',
+  'share.revoked': 'লিঙ্ক বাতিল হয়েছে',
+  'shared.readOnly': 'শেয়ার করা রোগনির্ণয় · শুধু পড়ার জন্য',
+  'shared.tryIt': 'আপনার গাছ বিশ্লেষণ করুন',
+
+  'detail.back': 'ইতিহাসে ফিরে যান',
+  'detail.notFound': 'এই রোগনির্ণয়টি পাওয়া যায়নি।',
+  'detail.analyzedOn': '{date} তারিখে বিশ্লেষণ করা হয়েছে',
+  'detail.notes': 'কৃষকের পর্যবেক্ষণ',
+
+  'notFound.message': 'দুঃখিত! পৃষ্ঠাটি পাওয়া যায়নি',
+  'notFound.home': 'হোমে ফিরে যান',
+
+  'error.invalid_request.title': 'অনুরোধ গ্রহণ করা হয়নি',
+  'error.invalid_request.description': 'অ্যাপটি অসম্পূর্ণ অনুরোধ পাঠিয়েছে। পৃষ্ঠাটি আবার লোড করে আবার চেষ্টা করুন।',
+  'error.invalid_image.title': 'ছবিটি সমর্থিত নয়',
+  'error.invalid_image.description': 'অনুগ্রহ করে গাছের একটি JPG, PNG বা WEBP ছবি বেছে নিন।',
+  'error.image_too_large.title': 'ছবিটি খুব বড়',
+  'error.image_too_large.description': 'অনুগ্রহ করে একটি ছোট ছবি বেছে নিন।',
+  'error.image_not_found.title': 'ছবি পাওয়া যায়নি',
+  'error.image_not_found.description': 'আপলোড করা ছবিটি পাওয়া যায়নি। অনুগ্রহ করে আবার যোগ করুন।',
+  'error.upload_failed.title': 'আপলোড ব্যর্থ হয়েছে',
+  'error.upload_failed.description': 'ছবিটি আপলোড করা যায়নি। আপনার সংযোগ পরীক্ষা করে আবার চেষ্টা করুন।',
+  'error.network_error.title': 'সংযোগ নেই',
+  'error.network_error.description':
+    'সার্ভারের সাথে যোগাযোগ করা যায়নি। আপনার ইন্টারনেট সংযোগ পরীক্ষা করে আবার চেষ্টা করুন।',
+  'error.rate_limited.title': 'অনেক বেশি অনুরোধ',
+  'error.rate_limited.description': 'পরিষেবাটি ব্যস্ত। অনুগ্রহ করে এক মিনিট অপেক্ষা করে আবার চেষ্টা করুন।',
+  'error.payment_required.title': 'পরিষেবা উপলব্ধ নয়',
+  'error.payment_required.description':
+    'বিশ্লেষণ পরিষেবার ক্রেডিট শেষ হয়ে গেছে। অনুগ্রহ করে অ্যাপ প্রশাসকের সাথে যোগাযোগ করুন।',
+  'error.upstream_unavailable.title': 'পরিষেবা সাময়িকভাবে উপলব্ধ নয়',
+  'error.upstream_unavailable.description': 'AI পরিষেবা এখন সাড়া দিচ্ছে না। অনুগ্রহ করে একটু পরে আবার চেষ্টা করুন।',
+  'error.upstream_error.title': 'বিশ্লেষণ ব্যর্থ হয়েছে',
+  'error.upstream_error.description': 'AI পরিষেবা এই অনুরোধটি সম্পন্ন করতে পারেনি। অনুগ্রহ করে আবার চেষ্টা করুন।',
+  'error.upstream_timeout.title': 'বিশ্লেষণে অনেক সময় লেগেছে',
+  'error.upstream_timeout.description': 'AI পরিষেবা সময়মতো উত্তর দেয়নি। অনুগ্রহ করে আবার চেষ্টা করুন।',
+  'error.model_output_invalid.title': 'ফলাফল পড়া যায়নি',
+  'error.model_output_invalid.description': 'AI একটি অসম্পূর্ণ ফলাফল দিয়েছে। অনুগ্রহ করে আবার চেষ্টা করুন।',
+  'error.share_not_found.title': 'লিঙ্ক পাওয়া যায়নি',
+  'error.share_not_found.description': 'এই লিঙ্কটি নেই বা যিনি শেয়ার করেছেন তিনি এটি বাতিল করেছেন।',
+  'error.share_expired.title': 'লিঙ্কের মেয়াদ শেষ',
+  'error.share_expired.description': 'এই লিঙ্কের মেয়াদ শেষ হয়ে গেছে। যিনি শেয়ার করেছেন তাঁর কাছে নতুন লিঙ্ক চান।',
+  'error.unauthorized.title': 'সেশন প্রয়োজন',
+  'error.unauthorized.description': 'এই ডিভাইসটি সাইন ইন করা যায়নি। আপনার সংযোগ যাচাই করে আবার চেষ্টা করুন।',
+  'error.forbidden.title': 'অনুমতি নেই',
+  'error.forbidden.description': 'শুধু যে ডিভাইস এই নির্ণয় ও এর ছবিগুলো সংরক্ষণ করেছে সেটিই এটি করতে পারে।',
+  'error.misconfigured.title': 'পরিষেবা সেট আপ করা নেই',
+  'error.misconfigured.description': 'বিশ্লেষণ পরিষেবা কনফিগার করা নেই। অনুগ্রহ করে অ্যাপ প্রশাসকের সাথে যোগাযোগ করুন।',
+  'error.internal.title': 'কিছু ভুল হয়েছে',
+  'error.internal.description': 'একটি অপ্রত্যাশিত ত্রুটি ঘটেছে। অনুগ্রহ করে আবার চেষ্টা করুন।',
+  'error.action.retry': 'আবার চেষ্টা করুন',
+  'error.action.choose_photo': 'ছবি বেছে নিন',
+};
@@ -0,0 +1,308 @@
+// Source catalogue: every UI string lives here first. The other catalogues may
+// lag behind; missing keys fall back to English and are reported in development.
+export const en = {
+  'app.name': 'PlantCare AI',
+  'app.tagline': 'Smart Disease Detection',
+  'app.footer.copyright': '© 2024 PlantCare AI. Powered by advanced AI technology.',
+  'app.footer.mission': 'Helping farmers and gardeners protect their crops.',
+  'nav.history': 'History',
+  'language.placeholder': 'Select language',
+
+  'home.badge': 'AI-Powered Plant Health Analysis',
+  'home.title': 'Detect Plant Diseases',
+  'home.titleHighlight': 'In Seconds',
+  'home.subtitle':
+    'Upload a photo of your plant and get instant AI-powered disease detection with treatment recommendations in your preferred language.',
+  'home.cropLabel': 'Crop (optional)',
+  'home.cropPlaceholder': 'e.g. Tomato',
+  'home.fieldLabel': 'Field or plot (optional)',
+  'home.fieldPlaceholder': 'e.g. North field',
+  'home.analyze': 'Analyze Plant',
+  'home.analyzing': 'Analyzing...',
+  'home.feature.detection.title': 'AI-Powered Detection',
+  'home.feature.detection.description': 'Advanced computer vision analyzes plant health with high accuracy',
+  'home.feature.languages.title': 'Multi-Language Support',
+  'home.feature.languages.description': 'Get results in 9 Indian languages for better understanding',
+  'home.feature.treatment.title': 'Treatment Plans',
+  'home.feature.treatment.description': 'Receive detailed treatment and prevention recommendations',
+  'home.retakePhoto': '← Retake Photo',
+  'home.analyzeAnother': '← Analyze Another Plant',
+  'home.cachedResult': 'Cached result',
+  'home.freshAnalysis': 'Run Fresh Analysis',
+  'home.noImage.title': 'No image selected',
+  'home.noImage.description': 'Please upload a plant image first.',
+
+  'analysis.diseased.title': 'Analysis Complete',
+  'analysis.diseased.description': 'Plant disease has been successfully analyzed.',
+  'analysis.healthy.title': 'Analysis Complete',
+  'analysis.healthy.description': 'No signs of disease were found on your plant.',
+  'analysis.not_a_plant.title': 'No Plant Detected',
+  'analysis.not_a_plant.description': 'Please upload a photo of the plant you want to check.',
+  'analysis.unclear_image.title': 'Image Unclear',
+  'analysis.unclear_image.description': 'Please retake the photo following the tips shown.',
+
+  'upload.dropTitle': 'Drop your plant photos here',
+  'upload.dropSubtitle': 'or click to browse from your device',
+  'upload.dropHint': 'Up to {max} photos of the same plant: leaf top and underside, stem, fruit, whole plant',
+  'upload.formats': 'Supports: JPG, PNG, WEBP',
+  'upload.addAnother': 'Add another photo',
+  'upload.remaining': '{count} remaining',
+  'upload.photoNumber': 'Photo {number}',
+  'upload.keepLocation': "Keep the photo's GPS location (removed by default for privacy)",
+  'upload.tooMany.title': 'Too many photos',
+  'upload.tooMany.description': 'You can add up to {max} photos of one plant.',
+
+  'imageLabel.leaf_top': 'Leaf (top)',
+  'imageLabel.leaf_underside': 'Leaf (underside)',
+  'imageLabel.stem': 'Stem',
+  'imageLabel.fruit': 'Fruit',
+  'imageLabel.whole_plant': 'Whole plant',
+  'imageLabel.other': 'Other',
+
+  'voiceNote.label': 'Your observations (optional)',
+  'voiceNote.placeholder': 'e.g. Started after rain last week, spreading to neighbouring plants',
+  'voiceNote.record': 'Record voice note',
+  'voiceNote.stop': 'Stop recording',
+  'voiceNote.listening': 'Listening… speak now',
+  'voiceNote.unsupported': "Voice input isn't available in this browser. You can type your observations instead.",
+  'voiceNote.error.denied': 'Microphone access was blocked. Allow it in your browser settings to record a note.',
+  'voiceNote.error.language':
+    "Voice input isn't available in {language} on this device. You can type your observations instead.",
+  'voiceNote.error.noSpeech': 'No speech was heard. Try again closer to the microphone.',
+  'voiceNote.error.failed': 'Voice input stopped unexpectedly. Try again or type your observations.',
+
+  'fieldContext.title': 'Field details (optional)',
+  'fieldContext.description': 'Helps tailor the treatment to your crop stage and region',
+  'fieldContext.variety': 'Variety',
+  'fieldContext.varietyPlaceholder': 'e.g. Arka Rakshak',
+  'fieldContext.growthStage': 'Growth stage',
+  'fieldContext.daysSinceSowing': 'Days since sowing or transplanting',
+  'fieldContext.weather': 'Recent weather',
+  'fieldContext.irrigation': 'Irrigation',
+  'fieldContext.recentSprays': 'Recent sprays or fertilisers',
+  'fieldContext.recentSpraysPlaceholder': 'e.g. Mancozeb 5 days ago, urea last week',
+  'fieldContext.district': 'District',
+  'fieldContext.districtPlaceholder': 'e.g. Dharwad',
+  'fieldContext.state': 'State',
+  'fieldContext.statePlaceholder': 'e.g. Karnataka',
+  'fieldContext.select': 'Select',
+  'fieldContext.clear': 'Clear details',
+  'fieldContext.error.tooLong': 'Use at most {max} characters',
+  'fieldContext.error.days': 'Enter a whole number of days from 0 to {max}',
+
+  'camera.takePhoto': 'Take Photo',
+  'camera.title': 'Take a Photo',
+  'camera.description': 'Fit the affected leaf inside the frame and hold the phone steady.',
+  'camera.error': 'The camera could not be started. Allow camera access or use your phone camera instead.',
+  'camera.openPhoneCamera': 'Open Phone Camera',
+  'camera.capturedAlt': 'Captured plant',
+  'camera.torchOn': 'Turn torch on',
+  'camera.torchOff': 'Turn torch off',
+  'camera.retake': 'Retake',
+  'camera.usePhoto': 'Use Photo',
+  'camera.capture': 'Capture',
+
+  'results.title': 'Analysis Results',
+  'results.generating': 'Generating...',
+  'results.downloadPdf': 'Download PDF Report',
+  'results.selectLanguage': 'Select Language',
+  'results.bilingual': 'Bilingual Report',
+  'results.bilingualOption': 'English + {language}',
+  'results.exportData': 'Export Data',
+  'results.format.json': 'JSON (data)',
+  'results.format.csv': 'CSV (spreadsheet)',
+  'results.format.markdown': 'Markdown',
+  'results.format.html': 'HTML (web page)',
+  'results.exported.title': 'Export Downloaded',
+  'results.exported.description': '{format} file saved',
+  'results.reportLanguage': 'Report Language:',
+  'results.confidence': 'Confidence Level',
+  'results.severity': 'Disease Severity',
+  'results.spreadRate': 'Spread Rate:',
+  'results.symptoms': 'Symptoms',
+  'results.affectedParts': 'Affected Parts',
+  'results.causes': 'Causes',
+  'results.treatment': 'Treatment',
+  'results.prevention': 'Prevention',
+  'results.translating.title': 'Translating...',
+  'results.translating.description': 'Generating report in {language}',
+  'results.pdfDownloaded.title': 'PDF Downloaded',
+  'results.pdfDownloaded.description': 'Report generated in {language}',
+
+  'crop.label': 'Crop',
+  'crop.mismatch.title': 'Is this the right crop?',
+  'crop.mismatch.description':
+    'You entered {reported}, but the photos look like {crop}. Check the crop name, or retake the photos if they show the wrong plant.',
+
+  'speech.listen': 'Listen',
+  'speech.pause': 'Pause',
+  'speech.resume': 'Resume',
+  'speech.stop': 'Stop',
+  'speech.previous': 'Previous section',
+  'speech.next': 'Next section',
+  'speech.speed': 'Reading speed',
+  'speech.unavailable.title': 'Read-aloud unavailable',
+  'speech.unavailable.noVoice':
+    "No {language} voice is installed on this device. Add one in your phone's text-to-speech settings to hear the report.",
+  'speech.unavailable.unsupported': "This browser cannot read text aloud. Try Chrome or your phone's default browser.",
+
+  'report.title': 'Plant Health Report',
+  'report.date': 'Date: {date}',
+  'report.id': 'Report ID: {id}',
+  'report.page': 'Page {page} of {total}',
+  'report.photos': 'Photos',
+  'report.severity': 'Severity: {value}',
+  'report.spreadRate': 'Spread rate: {value}',
+  'report.crop': 'Crop: {name} ({confidence}%)',
+  'report.affectedArea': 'Affected area: {percent}% (grade {grade} of {max})',
+
+  'severity.low': 'Low',
+  'severity.moderate': 'Moderate',
+  'severity.high': 'High',
+  'severity.critical': 'Critical',
+
+  'severityScale.description': 'Share of the visible leaf or tissue area with symptoms',
+  'severityScale.grade': 'Grade {grade} of {max}',
+  'severityScale.none': 'None',
+  'severityScale.range': '{min}–{max}%',
+  'severityScale.notEstimated': 'The affected area was not estimated for this diagnosis.',
+
+  'spreadRate.low': 'Low',
+  'spreadRate.moderate': 'Moderate',
+  'spreadRate.high': 'High',
+
+  'growthStage.seedling': 'Seedling',
+  'growthStage.vegetative': 'Vegetative',
+  'growthStage.flowering': 'Flowering',
+  'growthStage.fruiting': 'Fruiting or grain filling',
+  'growthStage.maturity': 'Mature, near harvest',
+  'weather.dry': 'Dry',
+  'weather.hot': 'Hot',
+  'weather.rainy': 'Rainy',
+  'weather.humid': 'Humid',
+  'weather.cold': 'Cold',
+  'weather.foggy': 'Foggy or misty',
+  'irrigation.rainfed': 'Rainfed',
+  'irrigation.flood': 'Flood',
+  'irrigation.furrow': 'Furrow',
+  'irrigation.drip': 'Drip',
+  'irrigation.sprinkler': 'Sprinkler',
+
+  'kind.diseased': 'Diseased',
+  'kind.healthy': 'Healthy plant',
+  'kind.not_a_plant': 'Not a plant',
+  'kind.unclear_image': 'Unclear image',
+
+  'differential.title': 'Differential Diagnosis',
+  'differential.description': 'Most likely diseases, ranked by probability',
+  'differential.tellApart': 'How to tell apart:',
+
+  'outcome.healthy.title': 'Your plant looks healthy',
+  'outcome.healthy.description': 'No visible signs of disease were detected',
+  'outcome.keepHealthy': 'Keep It Healthy',
+  'outcome.notAPlant.title': "This doesn't look like a plant",
+  'outcome.notAPlant.description': 'Upload a photo of the affected plant to get a diagnosis',
+  'outcome.unclear.title': "We couldn't see the plant clearly",
+  'outcome.unclear.description': 'The photo is too unclear for a reliable diagnosis',
+  'outcome.retakeTitle': 'How to Retake the Photo',
+  'outcome.guidance.fill': 'Photograph a single leaf or affected area so it fills most of the frame.',
+  'outcome.guidance.light': 'Use daylight and avoid harsh shadows, flash glare or backlighting.',
+  'outcome.guidance.focus': 'Hold the phone steady and tap the leaf to focus before capturing.',
+  'outcome.guidance.compare': 'Include both the damaged area and some healthy tissue for comparison.',
+
+  'images.title.one': 'Analyzed Plant Image',
+  'images.title.other': 'Analyzed Plant Images',
+  'images.photoAlt': 'Analyzed plant, photo {number}',
+  'images.showRegions': 'Show symptom areas',
+
+  'history.title': 'Diagnosis History',
+  'history.subtitle': 'Every plant you have analyzed',
+  'history.newAnalysis': 'New Analysis',
+  'history.search': 'Search',
+  'history.searchPlaceholder': 'Disease, crop or field',
+  'history.crop': 'Crop',
+  'history.cropPlaceholder': 'Entered or identified crop',
+  'history.severity': 'Severity',
+  'history.allSeverities': 'All severities',
+  'history.dateRange': 'Date range',
+  'history.from': 'From date',
+  'history.to': 'To date',
+  'history.loadFailed': 'Failed to load diagnosis history. Please try again.',
+  'history.empty': 'No diagnoses match your filters.',
+  'history.clearFilters': 'Clear Filters',
+
+  'share.button': 'Share',
+  'share.title': 'Share this diagnosis',
+  'share.description': 'Anyone with the link can view this result, read-only, in the language they choose.',
+  'share.expiryLabel': 'Link expires',
+  'share.expiry.1': 'After 1 day',
+  'share.expiry.7': 'After 7 days',
+  'share.expiry.30': 'After 30 days',
+  'share.expiry.never': 'Never',
+  'share.create': 'Create Link',
+  'share.creating': 'Creating...',
+  'share.activeLinks': 'Your active links',
+  'share.copy': 'Copy link',
+  'share.copied': 'Link copied',
+  'share.shareVia': 'Share via...',
+  'share.message': 'A plant diagnosis from PlantCare AI',
+  'share.expiresOn': 'Expires {date}',
+  'share.noExpiry': 'Does not expire',
+  'share.revoke': 'Revoke',
+  'share.revoked': 'Link revoked',
+  'shared.readOnly': 'Shared diagnosis · read-only',
+  'shared.tryIt': 'Analyze Your Own Plant',
+
+  'detail.back': 'Back to History',
+  'detail.notFound': 'This diagnosis could not be found.',
+  'detail.analyzedOn': 'Analyzed on {date}',
+  'detail.notes': "Farmer's observations",
+
+  'notFound.message': 'Oops! Page not found',
+  'notFound.home': 'Return to Home',
+
+  'error.invalid_request.title': 'Request not accepted',
+  'error.invalid_request.description': 'The app sent an incomplete request. Reload the page and try again.',
+  'error.invalid_image.title': 'Photo not supported',
+  'error.invalid_image.description': 'Please choose a JPG, PNG or WEBP photo of the plant.',
+  'error.image_too_large.title': 'Photo too large',
+  'error.image_too_large.description': 'Please choose a smaller photo.',
+  'error.image_not_found.title': 'Photo missing',
+  'error.image_not_found.description': 'The uploaded photo could not be found. Please add it again.',
+  'error.upload_failed.title': 'Upload failed',
+  'error.upload_failed.description': 'The photo could not be uploaded. Check your connection and try again.',
+  'error.network_error.title': 'No connection',
+  'error.network_error.description': 'Could not reach the server. Check your internet connection and try again.',
+  'error.rate_limited.title': 'Too many requests',
+  'error.rate_limited.description': 'The service is busy. Please wait a minute and try again.',
+  'error.payment_required.title': 'Service unavailable',
+  'error.payment_required.description':
+    'The analysis service has run out of credits. Please contact the app administrator.',
+  'error.upstream_unavailable.title': 'Service temporarily unavailable',
+  'error.upstream_unavailable.description': 'The AI service is not responding right now. Please try again shortly.',
+  'error.upstream_error.title': 'Analysis failed',
+  'error.upstream_error.description': 'The AI service could not process this request. Please try again.',
+  'error.upstream_timeout.title': 'Analysis took too long',
+  'error.upstream_timeout.description': 'The AI service did not answer in time. Please try again.',
+  'error.model_output_invalid.title': 'Result could not be read',
+  'error.model_output_invalid.description': 'The AI returned an incomplete result. Please try again.',
+  'error.share_not_found.title': 'Link not found',
+  'error.share_not_found.description': 'This link does not exist or has been revoked by the person who shared it.',
+  'error.share_expired.title': 'Link expired',
+  'error.share_expired.description': 'This link has expired. Ask the person who shared it for a new one.',
+  'error.unauthorized.title': 'Session needed',
+  'error.unauthorized.description': 'This device could not be signed in. Check your connection and try again.',
+  'error.forbidden.title': 'Not allowed',
+  'error.forbidden.description': 'Only the device that saved this diagnosis and its photos can do that.',
+  'error.misconfigured.title': 'Service not set up',
+  'error.misconfigured.description':
+    'The analysis service is not configured. Please contact the app administrator.',
+  'error.internal.title': 'Something went wrong',
+  'error.internal.description': 'An unexpected error occurred. Please try again.',
+  'error.action.retry': 'Retry',
+  'error.action.choose_photo': 'Choose photo',
+} as const;
+
+export type MessageKey = keyof typeof en;
+
+export type Catalogue = Partial<Record<MessageKey, string>>;
@@ -0,0 +1,304 @@
+import type { Catalogue } from './en';
+
+export const gu: Catalogue = {
+  'app.name': 'PlantCare AI',
+  'app.tagline': 'સ્માર્ટ રોગ ઓળખ',
+  'app.footer.copyright': '© 2024 PlantCare AI. અદ્યતન AI ટેક્નોલોજી દ્વારા સંચાલિત.',
+  'app.footer.mission': 'ખેડૂતો અને માળીઓને તેમના પાકનું રક્ષણ કરવામાં મદદ.',
+  'nav.history': 'ઇતિહાસ',
+  'language.placeholder': 'ભાષા પસંદ કરો',
+
+  'home.badge': 'AI આધારિત છોડ આરોગ્ય વિશ્લેષણ',
+  'home.title': 'છોડના રોગ ઓળખો',
+  'home.titleHighlight': 'થોડી સેકંડમાં',
+  'home.subtitle':
+    'તમારા છોડનો ફોટો અપલોડ કરો અને તમારી પસંદગીની ભાષામાં સારવારની ભલામણો સાથે તરત AI આધારિત રોગ ઓળખ મેળવો.',
+  'home.cropLabel': 'પાક (વૈકલ્પિક)',
+  'home.cropPlaceholder': 'દા.ત. ટામેટાં',
+  'home.fieldLabel': 'ખેતર અથવા પ્લોટ (વૈકલ્પિક)',
+  'home.fieldPlaceholder': 'દા.ત. ઉત્તરનું ખેતર',
+  'home.analyze': 'છોડનું વિશ્લેષણ કરો',
+  'home.analyzing': 'વિશ્લેષણ ચાલુ છે...',
+  'home.feature.detection.title': 'AI આધારિત ઓળખ',
+  'home.feature.detection.description': 'અદ્યતન કમ્પ્યુટર વિઝન છોડના આરોગ્યનું ઉચ્ચ ચોકસાઈથી વિશ્લેષણ કરે છે',
+  'home.feature.languages.title': 'અનેક ભાષાઓમાં સહાય',
+  'home.feature.languages.description': 'વધુ સારી સમજ માટે 9 ભારતીય ભાષાઓમાં પરિણામ મેળવો',
+  'home.feature.treatment.title': 'સારવાર યોજનાઓ',
+  'home.feature.treatment.description': 'સારવાર અને નિવારણની વિગતવાર ભલામણો મેળવો',
+  'home.retakePhoto': '← ફોટો ફરી લો',
+  'home.analyzeAnother': '← બીજા છોડનું વિશ્લેષણ કરો',
+  'home.cachedResult': 'સાચવેલું પરિણામ',
+  'home.freshAnalysis': 'નવું વિશ્લેષણ કરો',
+  'home.noImage.title': 'કોઈ ફોટો પસંદ કર્યો નથી',
+  'home.noImage.description': 'કૃપા કરીને પહેલા છોડનો ફોટો અપલોડ કરો.',
+
+  'analysis.diseased.title': 'વિશ્લેષણ પૂર્ણ થયું',
+  'analysis.diseased.description': 'છોડના રોગનું સફળતાપૂર્વક વિશ્લેષણ થયું.',
+  'analysis.healthy.title': 'વિશ્લેષણ પૂર્ણ થયું',
+  'analysis.healthy.description': 'તમારા છોડ પર રોગના કોઈ લક્ષણો મળ્યા નથી.',
+  'analysis.not_a_plant.title': 'કોઈ છોડ મળ્યો નથી',
+  'analysis.not_a_plant.description': 'કૃપા કરીને જે છોડની તપાસ કરવી છે તેનો ફોટો અપલોડ કરો.',
+  'analysis.unclear_image.title': 'ફોટો અસ્પષ્ટ છે',
+  'analysis.unclear_image.description': 'કૃપા કરીને બતાવેલી સૂચનાઓ મુજબ ફોટો ફરી લો.',
+
+  'upload.dropTitle': 'તમારા છોડના ફોટા અહીં મૂકો',
+  'upload.dropSubtitle': 'અથવા તમારા ઉપકરણમાંથી પસંદ કરવા ક્લિક કરો',
+  'upload.dropHint': 'એક જ છોડના {max} સુધી ફોટા: પાનની ઉપરની અને નીચેની બાજુ, થડ, ફળ, આખો છોડ',
+  'upload.formats': 'સમર્થિત: JPG, PNG, WEBP',
+  'upload.addAnother': 'બીજો ફોટો ઉમેરો',
+  'upload.remaining': '{count} બાકી',
+  'upload.photoNumber': 'ફોટો {number}',
+  'upload.keepLocation': 'ફોટાનું GPS સ્થાન રાખો (ગોપનીયતા માટે મૂળભૂત રીતે દૂર કરાય છે)',
+  'upload.tooMany.title': 'ઘણા બધા ફોટા',
+  'upload.tooMany.description': 'તમે એક છોડના વધુમાં વધુ {max} ફોટા ઉમેરી શકો છો.',
+
+  'imageLabel.leaf_top': 'પાન (ઉપરની બાજુ)',
+  'imageLabel.leaf_underside': 'પાન (નીચેની બાજુ)',
+  'imageLabel.stem': 'થડ',
+  'imageLabel.fruit': 'ફળ',
+  'imageLabel.whole_plant': 'આખો છોડ',
+  'imageLabel.other': 'અન્ય',
+
+  'voiceNote.label': 'તમારાં અવલોકનો (વૈકલ્પિક)',
+  'voiceNote.placeholder': 'દા.ત. ગયા અઠવાડિયે વરસાદ પછી શરૂ થયું, બાજુના છોડમાં ફેલાય છે',
+  'voiceNote.record': 'વૉઇસ નોટ રેકોર્ડ કરો',
+  'voiceNote.stop': 'રેકોર્ડિંગ બંધ કરો',
+  'voiceNote.listening': 'સાંભળી રહ્યા છીએ… હવે બોલો',
+  'voiceNote.unsupported': 'આ બ્રાઉઝરમાં અવાજથી લખવાની સુવિધા ઉપલબ્ધ નથી. તમે તમારાં અવલોકનો ટાઇપ કરી શકો છો.',
+  'voiceNote.error.denied': 'માઇક્રોફોનની પરવાનગી મળી નથી. નોટ રેકોર્ડ કરવા બ્રાઉઝર સેટિંગ્સમાં તેની પરવાનગી આપો.',
+  'voiceNote.error.language':
+    'આ ઉપકરણ પર {language} માં અવાજથી લખવાની સુવિધા ઉપલબ્ધ નથી. તમે તમારાં અવલોકનો ટાઇપ કરી શકો છો.',
+  'voiceNote.error.noSpeech': 'કોઈ અવાજ સંભળાયો નહીં. માઇક્રોફોનની નજીક આવીને ફરી પ્રયાસ કરો.',
+  'voiceNote.error.failed': 'અવાજ ઇનપુટ અચાનક બંધ થયું. ફરી પ્રયાસ કરો અથવા તમારાં અવલોકનો ટાઇપ કરો.',
+
+  'fieldContext.title': 'ખેતરની વિગતો (વૈકલ્પિક)',
+  'fieldContext.description': 'આથી સારવાર તમારા પાકની અવસ્થા અને વિસ્તાર મુજબ સૂચવાય છે',
+  'fieldContext.variety': 'જાત',
+  'fieldContext.varietyPlaceholder': 'દા.ત. અર્કા રક્ષક',
+  'fieldContext.growthStage': 'વૃદ્ધિની અવસ્થા',
+  'fieldContext.daysSinceSowing': 'વાવણી કે રોપણી પછીના દિવસો',
+  'fieldContext.weather': 'તાજેતરનું હવામાન',
+  'fieldContext.irrigation': 'સિંચાઈ',
+  'fieldContext.recentSprays': 'તાજેતરના છંટકાવ કે ખાતર',
+  'fieldContext.recentSpraysPlaceholder': 'દા.ત. 5 દિવસ પહેલાં મેન્કોઝેબ, ગયા અઠવાડિયે યુરિયા',
+  'fieldContext.district': 'જિલ્લો',
+  'fieldContext.districtPlaceholder': 'દા.ત. ધારવાડ',
+  'fieldContext.state': 'રાજ્ય',
+  'fieldContext.statePlaceholder': 'દા.ત. કર્ણાટક',
+  'fieldContext.select': 'પસંદ કરો',
+  'fieldContext.clear': 'વિગતો સાફ કરો',
+  'fieldContext.error.tooLong': 'વધુમાં વધુ {max} અક્ષરો લખો',
+  'fieldContext.error.days': '0 થી {max} સુધીની દિવસોની પૂર્ણ સંખ્યા લખો',
+
+  'camera.takePhoto': 'ફોટો લો',
+  'camera.title': 'ફોટો લો',
+  'camera.description': 'અસરગ્રસ્ત પાનને ફ્રેમમાં રાખો અને ફોન સ્થિર પકડો.',
+  'camera.error': 'કૅમેરા શરૂ થઈ શક્યો નથી. કૅમેરાની પરવાનગી આપો અથવા ફોનનો કૅમેરા વાપરો.',
+  'camera.openPhoneCamera': 'ફોનનો કૅમેરા ખોલો',
+  'camera.capturedAlt': 'લીધેલો છોડનો ફોટો',
+  'camera.torchOn': 'ટૉર્ચ ચાલુ કરો',
+  'camera.torchOff': 'ટૉર્ચ બંધ કરો',
+  'camera.retake': 'ફરી લો',
+  'camera.usePhoto': 'ફોટો વાપરો',
+  'camera.capture': 'ફોટો પાડો',
+
+  'results.title': 'વિશ્લેષણના પરિણામો',
+  'results.generating': 'બની રહ્યો છે...',
+  'results.downloadPdf': 'PDF અહેવાલ ડાઉનલોડ કરો',
+  'results.selectLanguage': 'ભાષા પસંદ કરો',
+  'results.bilingual': 'દ્વિભાષી અહેવાલ',
+  'results.bilingualOption': 'અંગ્રેજી + {language}',
+  'results.exportData': 'ડેટા નિકાસ કરો',
+  'results.format.json': 'JSON (ડેટા)',
+  'results.format.csv': 'CSV (સ્પ્રેડશીટ)',
+  'results.format.markdown': 'Markdown',
+  'results.format.html': 'HTML (વેબ પેજ)',
+  'results.exported.title': 'નિકાસ ડાઉનલોડ થઈ',
+  'results.exported.description': '{format} ફાઇલ સાચવી',
+  'results.reportLanguage': 'અહેવાલની ભાષા:',
+  'results.confidence': 'વિશ્વાસ સ્તર',
+  'results.severity': 'રોગની તીવ્રતા',
+  'results.spreadRate': 'ફેલાવાનો દર:',
+  'results.symptoms': 'લક્ષણો',
+  'results.affectedParts': 'અસરગ્રસ્ત ભાગો',
+  'results.causes': 'કારણો',
+  'results.treatment': 'સારવાર',
+  'results.prevention': 'નિવારણ',
+  'results.translating.title': 'અનુવાદ થઈ રહ્યો છે...',
+  'results.translating.description': '{language} માં અહેવાલ બની રહ્યો છે',
+  'results.pdfDownloaded.title': 'PDF ડાઉનલોડ થયો',
+  'results.pdfDownloaded.description': 'અહેવાલ {language} માં બન્યો',
+
+  'crop.label': 'પાક',
+  'crop.mismatch.title': 'શું આ સાચો પાક છે?',
+  'crop.mismatch.description':
+    'તમે {reported} દાખલ કર્યું, પણ ફોટા {crop} જેવા લાગે છે. પાકનું નામ તપાસો, અથવા ફોટામાં ખોટો છોડ હોય તો ફરીથી ફોટા લો.',
+
+  'speech.listen': 'સાંભળો',
+  'speech.pause': 'થોભાવો',
+  'speech.resume': 'ફરી શરૂ કરો',
+  'speech.stop': 'બંધ કરો',
+  'speech.previous': 'પાછલો વિભાગ',
+  'speech.next': 'આગળનો વિભાગ',
+  'speech.speed': 'વાંચનની ઝડપ',
+  'speech.unavailable.title': 'સાંભળવાની સુવિધા ઉપલબ્ધ નથી',
+  'speech.unavailable.noVoice':
+    'આ ઉપકરણ પર {language} અવાજ ઇન્સ્ટોલ નથી. અહેવાલ સાંભળવા માટે ફોનની ટેક્સ્ટ-ટુ-સ્પીચ સેટિંગ્સમાં તે ઉમેરો.',
+  'speech.unavailable.unsupported':
+    'આ બ્રાઉઝર લખાણ વાંચીને સંભળાવી શકતું નથી. Chrome અથવા ફોનનું ડિફોલ્ટ બ્રાઉઝર અજમાવો.',
+
+  'report.title': 'છોડ આરોગ્ય અહેવાલ',
+  'report.date': 'તારીખ: {date}',
+  'report.id': 'અહેવાલ આઈડી: {id}',
+  'report.page': 'પૃષ્ઠ {page} / {total}',
+  'report.photos': 'ફોટા',
+  'report.severity': 'તીવ્રતા: {value}',
+  'report.spreadRate': 'ફેલાવાનો દર: {value}',
+  'report.crop': 'પાક: {name} ({confidence}%)',
+  'report.affectedArea': 'અસરગ્રસ્ત વિસ્તાર: {percent}% (ગ્રેડ {grade} / {max})',
+
+  'severity.low': 'ઓછી',
+  'severity.moderate': 'મધ્યમ',
+  'severity.high': 'વધુ',
+  'severity.critical': 'ગંભીર',
+
+  'severityScale.description': 'દેખાતા પાન અથવા પેશીનો લક્ષણવાળો ભાગ',
+  'severityScale.grade': 'ગ્રેડ {grade} / {max}',
+  'severityScale.none': 'કોઈ નહીં',
+  'severityScale.range': '{min}–{max}%',
+  'severityScale.notEstimated': 'આ નિદાન માટે અસરગ્રસ્ત વિસ્તારનો અંદાજ લગાવાયો નથી.',
+
+  'spreadRate.low': 'ધીમો',
+  'spreadRate.moderate': 'મધ્યમ',
+  'spreadRate.high': 'ઝડપી',
+
+  'growthStage.seedling': 'ધરુ',
+  'growthStage.vegetative': 'વાનસ્પતિક વૃદ્ધિ',
+  'growthStage.flowering': 'ફૂલ અવસ્થા',
+  'growthStage.fruiting': 'ફળ કે દાણા ભરાવા',
+  'growthStage.maturity': 'પાકેલો, લણણી નજીક',
+  'weather.dry': 'સૂકું',
+  'weather.hot': 'ગરમ',
+  'weather.rainy': 'વરસાદી',
+  'weather.humid': 'ભેજવાળું',
+  'weather.cold': 'ઠંડું',
+  'weather.foggy': 'ધુમ્મસ',
+  'irrigation.rainfed': 'વરસાદ આધારિત',
+  'irrigation.flood': 'રેલાવીને',
+  'irrigation.furrow': 'ચાસ પદ્ધતિ',
+  'irrigation.drip': 'ટપક',
+  'irrigation.sprinkler': 'ફુવારા',
+
+  'kind.diseased': 'રોગગ્રસ્ત',
+  'kind.healthy': 'તંદુરસ્ત છોડ',
+  'kind.not_a_plant': 'છોડ નથી',
+  'kind.unclear_image': 'અસ્પષ્ટ ફોટો',
+
+  'differential.title': 'વિભેદક નિદાન',
+  'differential.description': 'સૌથી સંભવિત રોગો, સંભાવના મુજબ ક્રમમાં',
+  'differential.tellApart': 'કેવી રીતે અલગ ઓળખવું:',
+
+  'outcome.healthy.title': 'તમારો છોડ તંદુરસ્ત લાગે છે',
+  'outcome.healthy.description': 'રોગના કોઈ દેખીતા લક્ષણો મળ્યા નથી',
+  'outcome.keepHealthy': 'તેને તંદુરસ્ત રાખો',
+  'outcome.notAPlant.title': 'આ છોડ જેવું લાગતું નથી',
+  'outcome.notAPlant.description': 'નિદાન માટે અસરગ્રસ્ત છોડનો ફોટો અપલોડ કરો',
+  'outcome.unclear.title': 'અમે છોડને સ્પષ્ટ જોઈ શક્યા નથી',
+  'outcome.unclear.description': 'વિશ્વસનીય નિદાન માટે ફોટો ખૂબ અસ્પષ્ટ છે',
+  'outcome.retakeTitle': 'ફોટો ફરી કેવી રીતે લેવો',
+  'outcome.guidance.fill': 'એક પાન અથવા અસરગ્રસ્ત ભાગનો ફોટો લો જેથી તે ફ્રેમનો મોટો ભાગ ભરી દે.',
+  'outcome.guidance.light': 'દિવસના પ્રકાશમાં ફોટો લો અને ઘેરા પડછાયા, ફ્લેશની ચમક કે પાછળથી આવતો પ્રકાશ ટાળો.',
+  'outcome.guidance.focus': 'ફોન સ્થિર રાખો અને ફોટો લેતા પહેલા ફોકસ માટે પાન પર ટૅપ કરો.',
+  'outcome.guidance.compare': 'સરખામણી માટે નુકસાનવાળા ભાગ સાથે થોડો તંદુરસ્ત ભાગ પણ સામેલ કરો.',
+
+  'images.title.one': 'વિશ્લેષિત છોડનો ફોટો',
+  'images.title.other': 'વિશ્લેષિત છોડના ફોટા',
+  'images.photoAlt': 'વિશ્લેષિત છોડ, ફોટો {number}',
+  'images.showRegions': 'લક્ષણવાળા ભાગ બતાવો',
+
+  'history.title': 'નિદાન ઇતિહાસ',
+  'history.subtitle': 'તમે વિશ્લેષણ કરેલો દરેક છોડ',
+  'history.newAnalysis': 'નવું વિશ્લેષણ',
+  'history.search': 'શોધો',
+  'history.searchPlaceholder': 'રોગ, પાક અથવા ખેતર',
+  'history.crop': 'પાક',
+  'history.cropPlaceholder': 'દાખલ કરેલ અથવા ઓળખાયેલ પાક',
+  'history.severity': 'તીવ્રતા',
+  'history.allSeverities': 'બધી તીવ્રતા',
+  'history.dateRange': 'તારીખ શ્રેણી',
+  'history.from': 'શરૂઆતની તારીખ',
+  'history.to': 'અંતિમ તારીખ',
+  'history.loadFailed': 'નિદાન ઇતિહાસ લોડ થઈ શક્યો નથી. કૃપા કરીને ફરી પ્રયાસ કરો.',
+  'history.empty': 'તમારા ફિલ્ટર સાથે કોઈ નિદાન મેળ ખાતું નથી.',
+  'history.clearFilters': 'ફિલ્ટર દૂર કરો',
+
+  'share.button': 'શેર કરો',
+  'share.title': 'આ નિદાન શેર કરો',
+  'share.description': 'લિંક ધરાવનાર કોઈપણ વ્યક્તિ આ પરિણામ પોતાની પસંદગીની ભાષામાં ફક્ત જોઈ શકે છે.',
+  'share.expiryLabel': 'લિંકની મુદત',
+  'share.expiry.1': '1 દિવસ પછી',
+  'share.expiry.7': '7 દિવસ પછી',
+  'share.expiry.30': '30 દિવસ પછી',
+  'share.expiry.never': 'ક્યારેય નહીં',
+  'share.create': 'લિંક બનાવો',
+  'share.creating': 'બનાવી રહ્યા છીએ...',
+  'share.activeLinks': 'તમારી સક્રિય લિંક',
+  'share.copy': 'લિંક કૉપિ કરો',
+  'share.copied': 'લિંક કૉપિ થઈ',
+  'share.shareVia': 'આના દ્વારા શેર કરો...',
+  'share.message': 'PlantCare AI તરફથી છોડનું નિદાન',
+  'share.expiresOn': '{date} એ મુદત પૂરી થશે',
+  'share.noExpiry': 'મુદત પૂરી નહીં થાય',
+  'share.revoke': 'રદ કરો',
+  'share.revoked': 'લિંક રદ કરી',
+  'shared.readOnly': 'શેર કરેલું નિદાન · ફક્ત વાંચવા માટે',
+  'shared.tryIt': 'તમારા છોડનું વિશ્લેષણ કરો',
+
+  'detail.back': 'ઇતિહાસ પર પાછા જાઓ',
+  'detail.notFound': 'આ નિદાન મળ્યું નથી.',
+  'detail.analyzedOn': '{date} ના રોજ વિશ્લેષણ કર્યું',
+  'detail.notes': 'ખેડૂતનાં અવલોકનો',
+
+  'notFound.message': 'અરે! પેજ મળ્યું નથી',
+  'notFound.home': 'હોમ પર પાછા જાઓ',
+
+  'error.invalid_request.title': 'વિનંતી સ્વીકારાઈ નથી',
+  'error.invalid_request.description': 'ઍપે અધૂરી વિનંતી મોકલી. પેજ ફરી લોડ કરો અને ફરી પ્રયાસ કરો.',
+  'error.invalid_image.title': 'ફોટો સમર્થિત નથી',
+  'error.invalid_image.description': 'કૃપા કરીને છોડનો JPG, PNG અથવા WEBP ફોટો પસંદ કરો.',
+  'error.image_too_large.title': 'ફોટો ખૂબ મોટો છે',
+  'error.image_too_large.description': 'કૃપા કરીને નાનો ફોટો પસંદ કરો.',
+  'error.image_not_found.title': 'ફોટો મળ્યો નથી',
+  'error.image_not_found.description': 'અપલોડ કરેલો ફોટો મળ્યો નથી. કૃપા કરીને તેને ફરી ઉમેરો.',
+  'error.upload_failed.title': 'અપલોડ નિષ્ફળ',
+  'error.upload_failed.description': 'ફોટો અપલોડ થઈ શક્યો નથી. તમારું કનેક્શન તપાસો અને ફરી પ્રયાસ કરો.',
+  'error.network_error.title': 'કનેક્શન નથી',
+  'error.network_error.description': 'સર્વર સુધી પહોંચી શકાયું નથી. તમારું ઇન્ટરનેટ કનેક્શન તપાસો અને ફરી પ્રયાસ કરો.',
+  'error.rate_limited.title': 'ઘણી બધી વિનંતીઓ',
+  'error.rate_limited.description': 'સેવા વ્યસ્ત છે. કૃપા કરીને એક મિનિટ રાહ જોઈને ફરી પ્રયાસ કરો.',
+  'error.payment_required.title': 'સેવા ઉપલબ્ધ નથી',
+  'error.payment_required.description':
+    'વિશ્લેષણ સેવાના ક્રેડિટ પૂરા થઈ ગયા છે. કૃપા કરીને ઍપ એડમિનિસ્ટ્રેટરનો સંપર્ક કરો.',
+  'error.upstream_unavailable.title': 'સેવા હાલ ઉપલબ્ધ નથી',
+  'error.upstream_unavailable.description': 'AI સેવા અત્યારે જવાબ આપતી નથી. કૃપા કરીને થોડી વાર પછી પ્રયાસ કરો.',
+  'error.upstream_error.title': 'વિશ્લેષણ નિષ્ફળ',
+  'error.upstream_error.description': 'AI સેવા આ વિનંતી પૂરી કરી શકી નથી. કૃપા કરીને ફરી પ્રયાસ કરો.',
+  'error.upstream_timeout.title': 'વિશ્લેષણમાં ખૂબ સમય લાગ્યો',
+  'error.upstream_timeout.description': 'AI સેવાએ સમયસર જવાબ આપ્યો નથી. કૃપા કરીને ફરી પ્રયાસ કરો.',
+  'error.model_output_invalid.title': 'પરિણામ વાંચી શકાયું નથી',
+  'error.model_output_invalid.description': 'AI એ અધૂરું પરિણામ આપ્યું. કૃપા કરીને ફરી પ્રયાસ કરો.',
+  'error.share_not_found.title': 'લિંક મળી નથી',
+  'error.share_not_found.description': 'આ લિંક અસ્તિત્વમાં નથી અથવા શેર કરનાર વ્યક્તિએ તેને રદ કરી છે.',
+  'error.share_expired.title': 'લિંકની મુદત પૂરી',
+  'error.share_expired.description': 'આ લિંકની મુદત પૂરી થઈ ગઈ છે. શેર કરનાર વ્યક્તિ પાસે નવી લિંક માંગો.',
+  'error.unauthorized.title': 'સત્ર જરૂરી',
+  'error.unauthorized.description': 'આ ઉપકરણ સાઇન ઇન થઈ શક્યું નથી. તમારું કનેક્શન તપાસો અને ફરી પ્રયાસ કરો.',
+  'error.forbidden.title': 'મંજૂરી નથી',
+  'error.forbidden.description': 'આ ફક્ત તે જ ઉપકરણ કરી શકે છે જેણે આ નિદાન અને તેના ફોટા સાચવ્યા હતા.',
+  'error.misconfigured.title': 'સેવા સેટ થયેલી નથી',
+  'error.misconfigured.description': 'વિશ્લેષણ સેવા ગોઠવાયેલી નથી. કૃપા કરીને ઍપ એડમિનિસ્ટ્રેટરનો સંપર્ક કરો.',
+  'error.internal.title': 'કંઈક ખોટું થયું',
+  'error.internal.description': 'અણધારી ભૂલ આવી. કૃપા કરીને ફરી પ્રયાસ કરો.',
+  'error.action.retry': 'ફરી પ્રયાસ કરો',
+  'error.action.choose_photo': 'ફોટો પસંદ કરો',
+};
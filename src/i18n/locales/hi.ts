@@ -0,0 +1,305 @@
+import type { Catalogue } from './en';
+
+export const hi: Catalogue = {
+  'app.name': 'PlantCare AI',
+  'app.tagline': 'स्मार्ट रोग पहचान',
+  'app.footer.copyright': '© 2024 PlantCare AI. उन्नत AI तकनीक द्वारा संचालित।',
+  'app.footer.mission': 'किसानों और बागवानों को उनकी फ़सलें बचाने में मदद।',
+  'nav.history': 'इतिहास',
+  'language.placeholder': 'भाषा चुनें',
+
+  'home.badge': 'AI आधारित पौधा स्वास्थ्य विश्लेषण',
+  'home.title': 'पौधों के रोग पहचानें',
+  'home.titleHighlight': 'कुछ ही सेकंड में',
+  'home.subtitle':
+    'अपने पौधे की फ़ोटो अपलोड करें और अपनी पसंदीदा भाषा में उपचार सुझावों के साथ तुरंत AI आधारित रोग पहचान पाएँ।',
+  'home.cropLabel': 'फ़सल (वैकल्पिक)',
+  'home.cropPlaceholder': 'जैसे टमाटर',
+  'home.fieldLabel': 'खेत या प्लॉट (वैकल्पिक)',
+  'home.fieldPlaceholder': 'जैसे उत्तरी खेत',
+  'home.analyze': 'पौधे का विश्लेषण करें',
+  'home.analyzing': 'विश्लेषण हो रहा है...',
+  'home.feature.detection.title': 'AI आधारित पहचान',
+  'home.feature.detection.description': 'उन्नत कंप्यूटर विज़न पौधे के स्वास्थ्य का उच्च सटीकता से विश्लेषण करता है',
+  'home.feature.languages.title': 'कई भाषाओं में सहायता',
+  'home.feature.languages.description': 'बेहतर समझ के लिए 9 भारतीय भाषाओं में परिणाम पाएँ',
+  'home.feature.treatment.title': 'उपचार योजनाएँ',
+  'home.feature.treatment.description': 'उपचार और रोकथाम के विस्तृत सुझाव पाएँ',
+  'home.retakePhoto': '← फ़ोटो दोबारा लें',
+  'home.analyzeAnother': '← दूसरे पौधे का विश्लेषण करें',
+  'home.cachedResult': 'सहेजा गया परिणाम',
+  'home.freshAnalysis': 'नया विश्लेषण चलाएँ',
+  'home.noImage.title': 'कोई फ़ोटो नहीं चुनी गई',
+  'home.noImage.description': 'कृपया पहले पौधे की फ़ोटो अपलोड करें।',
+
+  'analysis.diseased.title': 'विश्लेषण पूरा हुआ',
+  'analysis.diseased.description': 'पौधे के रोग का सफलतापूर्वक विश्लेषण किया गया।',
+  'analysis.healthy.title': 'विश्लेषण पूरा हुआ',
+  'analysis.healthy.description': 'आपके पौधे पर रोग के कोई लक्षण नहीं मिले।',
+  'analysis.not_a_plant.title': 'कोई पौधा नहीं मिला',
+  'analysis.not_a_plant.description': 'कृपया उस पौधे की फ़ोटो अपलोड करें जिसकी जाँच करनी है।',
+  'analysis.unclear_image.title': 'फ़ोटो स्पष्ट नहीं है',
+  'analysis.unclear_image.description': 'कृपया दिखाए गए सुझावों के अनुसार फ़ोटो दोबारा लें।',
+
+  'upload.dropTitle': 'अपने पौधे की फ़ोटो यहाँ छोड़ें',
+  'upload.dropSubtitle': 'या अपने डिवाइस से चुनने के लिए क्लिक करें',
+  'upload.dropHint': 'एक ही पौधे की {max} तक फ़ोटो: पत्ती का ऊपरी और निचला भाग, तना, फल, पूरा पौधा',
+  'upload.formats': 'समर्थित: JPG, PNG, WEBP',
+  'upload.addAnother': 'एक और फ़ोटो जोड़ें',
+  'upload.remaining': '{count} शेष',
+  'upload.photoNumber': 'फ़ोटो {number}',
+  'upload.keepLocation': 'फ़ोटो का GPS स्थान रखें (गोपनीयता के लिए डिफ़ॉल्ट रूप से हटाया जाता है)',
+  'upload.tooMany.title': 'बहुत अधिक फ़ोटो',
+  'upload.tooMany.description': 'आप एक पौधे की अधिकतम {max} फ़ोटो जोड़ सकते हैं।',
+
+  'imageLabel.leaf_top': 'पत्ती (ऊपरी भाग)',
+  'imageLabel.leaf_underside': 'पत्ती (निचला भाग)',
+  'imageLabel.stem': 'तना',
+  'imageLabel.fruit': 'फल',
+  'imageLabel.whole_plant': 'पूरा पौधा',
+  'imageLabel.other': 'अन्य',
+
+  'voiceNote.label': 'आपके अवलोकन (वैकल्पिक)',
+  'voiceNote.placeholder': 'जैसे पिछले हफ़्ते बारिश के बाद शुरू हुआ, पास के पौधों में फैल रहा है',
+  'voiceNote.record': 'आवाज़ नोट रिकॉर्ड करें',
+  'voiceNote.stop': 'रिकॉर्डिंग बंद करें',
+  'voiceNote.listening': 'सुन रहे हैं… अब बोलें',
+  'voiceNote.unsupported': 'इस ब्राउज़र में आवाज़ से लिखने की सुविधा उपलब्ध नहीं है। आप अपने अवलोकन टाइप कर सकते हैं।',
+  'voiceNote.error.denied':
+    'माइक्रोफ़ोन की अनुमति नहीं मिली। नोट रिकॉर्ड करने के लिए ब्राउज़र सेटिंग में इसकी अनुमति दें।',
+  'voiceNote.error.language':
+    'इस डिवाइस पर {language} में आवाज़ से लिखने की सुविधा उपलब्ध नहीं है। आप अपने अवलोकन टाइप कर सकते हैं।',
+  'voiceNote.error.noSpeech': 'कोई आवाज़ सुनाई नहीं दी। माइक्रोफ़ोन के पास आकर फिर से कोशिश करें।',
+  'voiceNote.error.failed': 'आवाज़ इनपुट अचानक रुक गया। फिर से कोशिश करें या अपने अवलोकन टाइप करें।',
+
+  'fieldContext.title': 'खेत का विवरण (वैकल्पिक)',
+  'fieldContext.description': 'इससे उपचार आपकी फ़सल की अवस्था और क्षेत्र के अनुसार बताया जाता है',
+  'fieldContext.variety': 'किस्म',
+  'fieldContext.varietyPlaceholder': 'जैसे अर्का रक्षक',
+  'fieldContext.growthStage': 'बढ़वार की अवस्था',
+  'fieldContext.daysSinceSowing': 'बुवाई या रोपाई के बाद के दिन',
+  'fieldContext.weather': 'हाल का मौसम',
+  'fieldContext.irrigation': 'सिंचाई',
+  'fieldContext.recentSprays': 'हाल में किए गए छिड़काव या खाद',
+  'fieldContext.recentSpraysPlaceholder': 'जैसे 5 दिन पहले मैंकोज़ेब, पिछले हफ़्ते यूरिया',
+  'fieldContext.district': 'ज़िला',
+  'fieldContext.districtPlaceholder': 'जैसे धारवाड़',
+  'fieldContext.state': 'राज्य',
+  'fieldContext.statePlaceholder': 'जैसे कर्नाटक',
+  'fieldContext.select': 'चुनें',
+  'fieldContext.clear': 'विवरण साफ़ करें',
+  'fieldContext.error.tooLong': 'अधिकतम {max} अक्षर लिखें',
+  'fieldContext.error.days': '0 से {max} तक दिनों की पूरी संख्या लिखें',
+
+  'camera.takePhoto': 'फ़ोटो लें',
+  'camera.title': 'फ़ोटो लें',
+  'camera.description': 'प्रभावित पत्ती को फ़्रेम के अंदर रखें और फ़ोन को स्थिर पकड़ें।',
+  'camera.error': 'कैमरा शुरू नहीं हो सका। कैमरे की अनुमति दें या अपने फ़ोन का कैमरा इस्तेमाल करें।',
+  'camera.openPhoneCamera': 'फ़ोन का कैमरा खोलें',
+  'camera.capturedAlt': 'खींची गई पौधे की फ़ोटो',
+  'camera.torchOn': 'टॉर्च चालू करें',
+  'camera.torchOff': 'टॉर्च बंद करें',
+  'camera.retake': 'दोबारा लें',
+  'camera.usePhoto': 'फ़ोटो इस्तेमाल करें',
+  'camera.capture': 'खींचें',
+
+  'results.title': 'विश्लेषण परिणाम',
+  'results.generating': 'बनाई जा रही है...',
+  'results.downloadPdf': 'PDF रिपोर्ट डाउनलोड करें',
+  'results.selectLanguage': 'भाषा चुनें',
+  'results.bilingual': 'द्विभाषी रिपोर्ट',
+  'results.bilingualOption': 'अंग्रेज़ी + {language}',
+  'results.exportData': 'डेटा निर्यात करें',
+  'results.format.json': 'JSON (डेटा)',
+  'results.format.csv': 'CSV (स्प्रेडशीट)',
+  'results.format.markdown': 'Markdown',
+  'results.format.html': 'HTML (वेब पेज)',
+  'results.exported.title': 'निर्यात डाउनलोड हुआ',
+  'results.exported.description': '{format} फ़ाइल सहेजी गई',
+  'results.reportLanguage': 'रिपोर्ट की भाषा:',
+  'results.confidence': 'विश्वास स्तर',
+  'results.severity': 'रोग की गंभीरता',
+  'results.spreadRate': 'फैलने की दर:',
+  'results.symptoms': 'लक्षण',
+  'results.affectedParts': 'प्रभावित भाग',
+  'results.causes': 'कारण',
+  'results.treatment': 'उपचार',
+  'results.prevention': 'रोकथाम',
+  'results.translating.title': 'अनुवाद हो रहा है...',
+  'results.translating.description': '{language} में रिपोर्ट बनाई जा रही है',
+  'results.pdfDownloaded.title': 'PDF डाउनलोड हो गई',
+  'results.pdfDownloaded.description': 'रिपोर्ट {language} में बनाई गई',
+
+  'crop.label': 'फसल',
+  'crop.mismatch.title': 'क्या यह सही फसल है?',
+  'crop.mismatch.description':
+    'आपने {reported} दर्ज किया, लेकिन तस्वीरें {crop} जैसी दिखती हैं। फसल का नाम जाँचें, या अगर तस्वीरों में गलत पौधा है तो दोबारा तस्वीरें लें।',
+
+  'speech.listen': 'सुनें',
+  'speech.pause': 'रोकें',
+  'speech.resume': 'फिर से शुरू करें',
+  'speech.stop': 'बंद करें',
+  'speech.previous': 'पिछला भाग',
+  'speech.next': 'अगला भाग',
+  'speech.speed': 'पढ़ने की गति',
+  'speech.unavailable.title': 'सुनने की सुविधा उपलब्ध नहीं',
+  'speech.unavailable.noVoice':
+    'इस डिवाइस पर {language} आवाज़ इंस्टॉल नहीं है। रिपोर्ट सुनने के लिए फ़ोन की टेक्स्ट-टू-स्पीच सेटिंग में इसे जोड़ें।',
+  'speech.unavailable.unsupported':
+    'यह ब्राउज़र टेक्स्ट पढ़कर नहीं सुना सकता। Chrome या फ़ोन का डिफ़ॉल्ट ब्राउज़र आज़माएँ।',
+
+  'report.title': 'पौधा स्वास्थ्य रिपोर्ट',
+  'report.date': 'दिनांक: {date}',
+  'report.id': 'रिपोर्ट आईडी: {id}',
+  'report.page': 'पृष्ठ {page} / {total}',
+  'report.photos': 'तस्वीरें',
+  'report.severity': 'गंभीरता: {value}',
+  'report.spreadRate': 'फैलाव दर: {value}',
+  'report.crop': 'फसल: {name} ({confidence}%)',
+  'report.affectedArea': 'प्रभावित क्षेत्र: {percent}% (ग्रेड {grade} / {max})',
+
+  'severity.low': 'कम',
+  'severity.moderate': 'मध्यम',
+  'severity.high': 'अधिक',
+  'severity.critical': 'गंभीर',
+
+  'severityScale.description': 'दिखाई देने वाली पत्ती या ऊतक का वह हिस्सा जिसमें लक्षण हैं',
+  'severityScale.grade': 'ग्रेड {grade} / {max}',
+  'severityScale.none': 'कोई नहीं',
+  'severityScale.range': '{min}–{max}%',
+  'severityScale.notEstimated': 'इस निदान के लिए प्रभावित क्षेत्र का अनुमान नहीं लगाया गया।',
+
+  'spreadRate.low': 'धीमी',
+  'spreadRate.moderate': 'मध्यम',
+  'spreadRate.high': 'तेज़',
+
+  'growthStage.seedling': 'अंकुर',
+  'growthStage.vegetative': 'वानस्पतिक बढ़वार',
+  'growthStage.flowering': 'फूल आना',
+  'growthStage.fruiting': 'फल या दाना भरना',
+  'growthStage.maturity': 'पकी हुई, कटाई के पास',
+  'weather.dry': 'सूखा',
+  'weather.hot': 'गर्म',
+  'weather.rainy': 'बारिश',
+  'weather.humid': 'उमस',
+  'weather.cold': 'ठंडा',
+  'weather.foggy': 'कोहरा या धुंध',
+  'irrigation.rainfed': 'वर्षा आधारित',
+  'irrigation.flood': 'बाढ़ सिंचाई',
+  'irrigation.furrow': 'नाली सिंचाई',
+  'irrigation.drip': 'ड्रिप',
+  'irrigation.sprinkler': 'स्प्रिंकलर',
+
+  'kind.diseased': 'रोगग्रस्त',
+  'kind.healthy': 'स्वस्थ पौधा',
+  'kind.not_a_plant': 'पौधा नहीं',
+  'kind.unclear_image': 'अस्पष्ट फ़ोटो',
+
+  'differential.title': 'विभेदक निदान',
+  'differential.description': 'सबसे संभावित रोग, संभावना के क्रम में',
+  'differential.tellApart': 'कैसे पहचानें:',
+
+  'outcome.healthy.title': 'आपका पौधा स्वस्थ दिखता है',
+  'outcome.healthy.description': 'रोग के कोई दिखाई देने वाले लक्षण नहीं मिले',
+  'outcome.keepHealthy': 'इसे स्वस्थ रखें',
+  'outcome.notAPlant.title': 'यह पौधा नहीं लगता',
+  'outcome.notAPlant.description': 'निदान के लिए प्रभावित पौधे की फ़ोटो अपलोड करें',
+  'outcome.unclear.title': 'हम पौधे को साफ़ नहीं देख सके',
+  'outcome.unclear.description': 'भरोसेमंद निदान के लिए फ़ोटो बहुत अस्पष्ट है',
+  'outcome.retakeTitle': 'फ़ोटो दोबारा कैसे लें',
+  'outcome.guidance.fill': 'एक पत्ती या प्रभावित हिस्से की फ़ोटो लें ताकि वह फ़्रेम का अधिकांश भाग भर दे।',
+  'outcome.guidance.light': 'दिन की रोशनी में फ़ोटो लें और तेज़ छाया, फ़्लैश की चमक या पीछे की रोशनी से बचें।',
+  'outcome.guidance.focus': 'फ़ोन को स्थिर रखें और फ़ोटो लेने से पहले फ़ोकस के लिए पत्ती पर टैप करें।',
+  'outcome.guidance.compare': 'तुलना के लिए क्षतिग्रस्त हिस्से के साथ कुछ स्वस्थ भाग भी शामिल करें।',
+
+  'images.title.one': 'विश्लेषित पौधे की फ़ोटो',
+  'images.title.other': 'विश्लेषित पौधे की फ़ोटो',
+  'images.photoAlt': 'विश्लेषित पौधा, फ़ोटो {number}',
+  'images.showRegions': 'लक्षण वाले हिस्से दिखाएँ',
+
+  'history.title': 'निदान इतिहास',
+  'history.subtitle': 'आपके द्वारा विश्लेषित हर पौधा',
+  'history.newAnalysis': 'नया विश्लेषण',
+  'history.search': 'खोजें',
+  'history.searchPlaceholder': 'रोग, फ़सल या खेत',
+  'history.crop': 'फसल',
+  'history.cropPlaceholder': 'दर्ज की गई या पहचानी गई फसल',
+  'history.severity': 'गंभीरता',
+  'history.allSeverities': 'सभी गंभीरता स्तर',
+  'history.dateRange': 'तारीख सीमा',
+  'history.from': 'शुरुआती तारीख',
+  'history.to': 'अंतिम तारीख',
+  'history.loadFailed': 'निदान इतिहास लोड नहीं हो सका। कृपया दोबारा कोशिश करें।',
+  'history.empty': 'आपके फ़िल्टर से कोई निदान मेल नहीं खाता।',
+  'history.clearFilters': 'फ़िल्टर हटाएँ',
+
+  'share.button': 'साझा करें',
+  'share.title': 'यह निदान साझा करें',
+  'share.description': 'लिंक वाला कोई भी व्यक्ति यह परिणाम अपनी चुनी हुई भाषा में केवल देख सकता है।',
+  'share.expiryLabel': 'लिंक की समाप्ति',
+  'share.expiry.1': '1 दिन बाद',
+  'share.expiry.7': '7 दिन बाद',
+  'share.expiry.30': '30 दिन बाद',
+  'share.expiry.never': 'कभी नहीं',
+  'share.create': 'लिंक बनाएं',
+  'share.creating': 'बना रहे हैं...',
+  'share.activeLinks': 'आपके सक्रिय लिंक',
+  'share.copy': 'लिंक कॉपी करें',
+  'share.copied': 'लिंक कॉपी हो गया',
+  'share.shareVia': 'इसके द्वारा साझा करें...',
+  'share.message': 'PlantCare AI से एक पौधा निदान',
+  'share.expiresOn': '{date} को समाप्त',
+  'share.noExpiry': 'समाप्त नहीं होगा',
+  'share.revoke': 'रद्द करें',
+  'share.revoked': 'लिंक रद्द कर दिया गया',
+  'shared.readOnly': 'साझा निदान · केवल देखने के लिए',
+  'shared.tryIt': 'अपने पौधे का विश्लेषण करें',
+
+  'detail.back': 'इतिहास पर वापस जाएँ',
+  'detail.notFound': 'यह निदान नहीं मिला।',
+  'detail.analyzedOn': '{date} को विश्लेषण किया गया',
+  'detail.notes': 'किसान के अवलोकन',
+
+  'notFound.message': 'क्षमा करें! पेज नहीं मिला',
+  'notFound.home': 'होम पर लौटें',
+
+  'error.invalid_request.title': 'अनुरोध स्वीकार नहीं हुआ',
+  'error.invalid_request.description': 'ऐप ने अधूरा अनुरोध भेजा। पेज को फिर से लोड करें और दोबारा कोशिश करें।',
+  'error.invalid_image.title': 'फ़ोटो समर्थित नहीं है',
+  'error.invalid_image.description': 'कृपया पौधे की JPG, PNG या WEBP फ़ोटो चुनें।',
+  'error.image_too_large.title': 'फ़ोटो बहुत बड़ी है',
+  'error.image_too_large.description': 'कृपया छोटी फ़ोटो चुनें।',
+  'error.image_not_found.title': 'फ़ोटो नहीं मिली',
+  'error.image_not_found.description': 'अपलोड की गई फ़ोटो नहीं मिली। कृपया इसे फिर से जोड़ें।',
+  'error.upload_failed.title': 'अपलोड विफल',
+  'error.upload_failed.description': 'फ़ोटो अपलोड नहीं हो सकी। अपना कनेक्शन जाँचें और दोबारा कोशिश करें।',
+  'error.network_error.title': 'कनेक्शन नहीं है',
+  'error.network_error.description': 'सर्वर से संपर्क नहीं हो सका। अपना इंटरनेट कनेक्शन जाँचें और दोबारा कोशिश करें।',
+  'error.rate_limited.title': 'बहुत अधिक अनुरोध',
+  'error.rate_limited.description': 'सेवा व्यस्त है। कृपया एक मिनट रुककर दोबारा कोशिश करें।',
+  'error.payment_required.title': 'सेवा उपलब्ध नहीं',
+  'error.payment_required.description':
+    'विश्लेषण सेवा के क्रेडिट समाप्त हो गए हैं। कृपया ऐप व्यवस्थापक से संपर्क करें।',
+  'error.upstream_unavailable.title': 'सेवा अस्थायी रूप से उपलब्ध नहीं',
+  'error.upstream_unavailable.description': 'AI सेवा अभी जवाब नहीं दे रही है। कृपया थोड़ी देर बाद कोशिश करें।',
+  'error.upstream_error.title': 'विश्लेषण विफल',
+  'error.upstream_error.description': 'AI सेवा इस अनुरोध को पूरा नहीं कर सकी। कृपया दोबारा कोशिश करें।',
+  'error.upstream_timeout.title': 'विश्लेषण में बहुत समय लगा',
+  'error.upstream_timeout.description': 'AI सेवा ने समय पर जवाब नहीं दिया। कृपया दोबारा कोशिश करें।',
+  'error.model_output_invalid.title': 'परिणाम पढ़ा नहीं जा सका',
+  'error.model_output_invalid.description': 'AI ने अधूरा परिणाम दिया। कृपया दोबारा कोशिश करें।',
+  'error.share_not_found.title': 'लिंक नहीं मिला',
+  'error.share_not_found.description': 'यह लिंक मौजूद नहीं है या साझा करने वाले व्यक्ति ने इसे रद्द कर दिया है।',
+  'error.share_expired.title': 'लिंक की अवधि समाप्त',
+  'error.share_expired.description': 'इस लिंक की अवधि समाप्त हो गई है। साझा करने वाले व्यक्ति से नया लिंक माँगें।',
+  'error.unauthorized.title': 'सत्र आवश्यक',
+  'error.unauthorized.description': 'यह डिवाइस साइन इन नहीं हो सका। अपना कनेक्शन जाँचें और फिर से कोशिश करें।',
+  'error.forbidden.title': 'अनुमति नहीं',
+  'error.forbidden.description': 'यह केवल वही डिवाइस कर सकता है जिसने यह निदान और इसकी तस्वीरें सहेजी थीं।',
+  'error.misconfigured.title': 'सेवा सेट नहीं है',
+  'error.misconfigured.description': 'विश्लेषण सेवा कॉन्फ़िगर नहीं है। कृपया ऐप व्यवस्थापक से संपर्क करें।',
+  'error.internal.title': 'कुछ गलत हो गया',
+  'error.internal.description': 'एक अनपेक्षित त्रुटि हुई। कृपया दोबारा कोशिश करें।',
+  'error.action.retry': 'फिर से कोशिश करें',
+  'error.action.choose_photo': 'फ़ोटो चुनें',
+};
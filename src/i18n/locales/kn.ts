@@ -0,0 +1,308 @@
+import type { Catalogue } from './en';
+
+export const kn: Catalogue = {
+  'app.name': 'PlantCare AI',
+  'app.tagline': 'ಸ್ಮಾರ್ಟ್ ರೋಗ ಪತ್ತೆ',
+  'app.footer.copyright': '© 2024 PlantCare AI. ಸುಧಾರಿತ AI ತಂತ್ರಜ್ಞಾನದಿಂದ ಚಾಲಿತ.',
+  'app.footer.mission': 'ರೈತರು ಮತ್ತು ತೋಟಗಾರರು ತಮ್ಮ ಬೆಳೆಗಳನ್ನು ರಕ್ಷಿಸಲು ನೆರವು.',
+  'nav.history': 'ಇತಿಹಾಸ',
+  'language.placeholder': 'ಭಾಷೆ ಆಯ್ಕೆಮಾಡಿ',
+
+  'home.badge': 'AI ಆಧಾರಿತ ಸಸ್ಯ ಆರೋಗ್ಯ ವಿಶ್ಲೇಷಣೆ',
+  'home.title': 'ಸಸ್ಯ ರೋಗಗಳನ್ನು ಪತ್ತೆಹಚ್ಚಿ',
+  'home.titleHighlight': 'ಕೆಲವೇ ಸೆಕೆಂಡುಗಳಲ್ಲಿ',
+  'home.subtitle':
+    'ನಿಮ್ಮ ಸಸ್ಯದ ಫೋಟೋವನ್ನು ಅಪ್‌ಲೋಡ್ ಮಾಡಿ ಮತ್ತು ನಿಮ್ಮ ಆಯ್ಕೆಯ ಭಾಷೆಯಲ್ಲಿ ಚಿಕಿತ್ಸಾ ಸಲಹೆಗಳೊಂದಿಗೆ ತಕ್ಷಣದ AI ರೋಗ ಪತ್ತೆಯನ್ನು ಪಡೆಯಿರಿ.',
+  'home.cropLabel': 'ಬೆಳೆ (ಐಚ್ಛಿಕ)',
+  'home.cropPlaceholder': 'ಉದಾ. ಟೊಮೆಟೊ',
+  'home.fieldLabel': 'ಹೊಲ ಅಥವಾ ಪ್ಲಾಟ್ (ಐಚ್ಛಿಕ)',
+  'home.fieldPlaceholder': 'ಉದಾ. ಉತ್ತರದ ಹೊಲ',
+  'home.analyze': 'ಸಸ್ಯವನ್ನು ವಿಶ್ಲೇಷಿಸಿ',
+  'home.analyzing': 'ವಿಶ್ಲೇಷಿಸಲಾಗುತ್ತಿದೆ...',
+  'home.feature.detection.title': 'AI ಆಧಾರಿತ ಪತ್ತೆ',
+  'home.feature.detection.description': 'ಸುಧಾರಿತ ಕಂಪ್ಯೂಟರ್ ದೃಷ್ಟಿ ಸಸ್ಯದ ಆರೋಗ್ಯವನ್ನು ಹೆಚ್ಚಿನ ನಿಖರತೆಯಿಂದ ವಿಶ್ಲೇಷಿಸುತ್ತದೆ',
+  'home.feature.languages.title': 'ಬಹುಭಾಷಾ ಬೆಂಬಲ',
+  'home.feature.languages.description': 'ಉತ್ತಮ ತಿಳುವಳಿಕೆಗಾಗಿ 9 ಭಾರತೀಯ ಭಾಷೆಗಳಲ್ಲಿ ಫಲಿತಾಂಶ ಪಡೆಯಿರಿ',
+  'home.feature.treatment.title': 'ಚಿಕಿತ್ಸಾ ಯೋಜನೆಗಳು',
+  'home.feature.treatment.description': 'ವಿವರವಾದ ಚಿಕಿತ್ಸೆ ಮತ್ತು ತಡೆಗಟ್ಟುವಿಕೆ ಸಲಹೆಗಳನ್ನು ಪಡೆಯಿರಿ',
+  'home.retakePhoto': '← ಮತ್ತೆ ಫೋಟೋ ತೆಗೆಯಿರಿ',
+  'home.analyzeAnother': '← ಇನ್ನೊಂದು ಸಸ್ಯವನ್ನು ವಿಶ್ಲೇಷಿಸಿ',
+  'home.cachedResult': 'ಉಳಿಸಿದ ಫಲಿತಾಂಶ',
+  'home.freshAnalysis': 'ಹೊಸ ವಿಶ್ಲೇಷಣೆ ಮಾಡಿ',
+  'home.noImage.title': 'ಯಾವುದೇ ಫೋಟೋ ಆಯ್ಕೆಯಾಗಿಲ್ಲ',
+  'home.noImage.description': 'ದಯವಿಟ್ಟು ಮೊದಲು ಸಸ್ಯದ ಫೋಟೋವನ್ನು ಅಪ್‌ಲೋಡ್ ಮಾಡಿ.',
+
+  'analysis.diseased.title': 'ವಿಶ್ಲೇಷಣೆ ಪೂರ್ಣಗೊಂಡಿದೆ',
+  'analysis.diseased.description': 'ಸಸ್ಯ ರೋಗವನ್ನು ಯಶಸ್ವಿಯಾಗಿ ವಿಶ್ಲೇಷಿಸಲಾಗಿದೆ.',
+  'analysis.healthy.title': 'ವಿಶ್ಲೇಷಣೆ ಪೂರ್ಣಗೊಂಡಿದೆ',
+  'analysis.healthy.description': 'ನಿಮ್ಮ ಸಸ್ಯದಲ್ಲಿ ರೋಗದ ಯಾವುದೇ ಲಕ್ಷಣಗಳು ಕಂಡುಬಂದಿಲ್ಲ.',
+  'analysis.not_a_plant.title': 'ಸಸ್ಯ ಪತ್ತೆಯಾಗಿಲ್ಲ',
+  'analysis.not_a_plant.description': 'ನೀವು ಪರಿಶೀಲಿಸಲು ಬಯಸುವ ಸಸ್ಯದ ಫೋಟೋವನ್ನು ಅಪ್‌ಲೋಡ್ ಮಾಡಿ.',
+  'analysis.unclear_image.title': 'ಫೋಟೋ ಸ್ಪಷ್ಟವಾಗಿಲ್ಲ',
+  'analysis.unclear_image.description': 'ತೋರಿಸಿರುವ ಸಲಹೆಗಳನ್ನು ಅನುಸರಿಸಿ ಮತ್ತೆ ಫೋಟೋ ತೆಗೆಯಿರಿ.',
+
+  'upload.dropTitle': 'ನಿಮ್ಮ ಸಸ್ಯದ ಫೋಟೋಗಳನ್ನು ಇಲ್ಲಿ ಬಿಡಿ',
+  'upload.dropSubtitle': 'ಅಥವಾ ನಿಮ್ಮ ಸಾಧನದಿಂದ ಆಯ್ಕೆಮಾಡಲು ಕ್ಲಿಕ್ ಮಾಡಿ',
+  'upload.dropHint': 'ಒಂದೇ ಸಸ್ಯದ {max} ಫೋಟೋಗಳವರೆಗೆ: ಎಲೆಯ ಮೇಲ್ಭಾಗ ಮತ್ತು ಕೆಳಭಾಗ, ಕಾಂಡ, ಹಣ್ಣು, ಸಂಪೂರ್ಣ ಸಸ್ಯ',
+  'upload.formats': 'ಬೆಂಬಲಿತ: JPG, PNG, WEBP',
+  'upload.addAnother': 'ಇನ್ನೊಂದು ಫೋಟೋ ಸೇರಿಸಿ',
+  'upload.remaining': 'ಇನ್ನೂ {count}',
+  'upload.photoNumber': 'ಫೋಟೋ {number}',
+  'upload.keepLocation': 'ಫೋಟೋದ GPS ಸ್ಥಳವನ್ನು ಉಳಿಸಿ (ಗೌಪ್ಯತೆಗಾಗಿ ಪೂರ್ವನಿಯೋಜಿತವಾಗಿ ತೆಗೆದುಹಾಕಲಾಗುತ್ತದೆ)',
+  'upload.tooMany.title': 'ಹೆಚ್ಚು ಫೋಟೋಗಳು',
+  'upload.tooMany.description': 'ಒಂದು ಸಸ್ಯಕ್ಕೆ ಗರಿಷ್ಠ {max} ಫೋಟೋಗಳನ್ನು ಸೇರಿಸಬಹುದು.',
+
+  'imageLabel.leaf_top': 'ಎಲೆ (ಮೇಲ್ಭಾಗ)',
+  'imageLabel.leaf_underside': 'ಎಲೆ (ಕೆಳಭಾಗ)',
+  'imageLabel.stem': 'ಕಾಂಡ',
+  'imageLabel.fruit': 'ಹಣ್ಣು',
+  'imageLabel.whole_plant': 'ಸಂಪೂರ್ಣ ಸಸ್ಯ',
+  'imageLabel.other': 'ಇತರೆ',
+
+  'voiceNote.label': 'ನಿಮ್ಮ ಅವಲೋಕನಗಳು (ಐಚ್ಛಿಕ)',
+  'voiceNote.placeholder': 'ಉದಾ. ಕಳೆದ ವಾರ ಮಳೆಯ ನಂತರ ಶುರುವಾಯಿತು, ಪಕ್ಕದ ಗಿಡಗಳಿಗೆ ಹರಡುತ್ತಿದೆ',
+  'voiceNote.record': 'ಧ್ವನಿ ಟಿಪ್ಪಣಿ ರೆಕಾರ್ಡ್ ಮಾಡಿ',
+  'voiceNote.stop': 'ರೆಕಾರ್ಡಿಂಗ್ ನಿಲ್ಲಿಸಿ',
+  'voiceNote.listening': 'ಆಲಿಸಲಾಗುತ್ತಿದೆ… ಈಗ ಮಾತನಾಡಿ',
+  'voiceNote.unsupported': 'ಈ ಬ್ರೌಸರ್‌ನಲ್ಲಿ ಧ್ವನಿಯಿಂದ ಬರೆಯುವ ಸೌಲಭ್ಯ ಲಭ್ಯವಿಲ್ಲ. ನಿಮ್ಮ ಅವಲೋಕನಗಳನ್ನು ಟೈಪ್ ಮಾಡಬಹುದು.',
+  'voiceNote.error.denied': 'ಮೈಕ್ರೋಫೋನ್ ಅನುಮತಿ ಸಿಗಲಿಲ್ಲ. ಟಿಪ್ಪಣಿ ರೆಕಾರ್ಡ್ ಮಾಡಲು ಬ್ರೌಸರ್ ಸೆಟ್ಟಿಂಗ್‌ಗಳಲ್ಲಿ ಅನುಮತಿ ನೀಡಿ.',
+  'voiceNote.error.language':
+    'ಈ ಸಾಧನದಲ್ಲಿ {language} ಭಾಷೆಯಲ್ಲಿ ಧ್ವನಿಯಿಂದ ಬರೆಯುವ ಸೌಲಭ್ಯ ಲಭ್ಯವಿಲ್ಲ. ನಿಮ್ಮ ಅವಲೋಕನಗಳನ್ನು ಟೈಪ್ ಮಾಡಬಹುದು.',
+  'voiceNote.error.noSpeech': 'ಯಾವುದೇ ಮಾತು ಕೇಳಿಸಲಿಲ್ಲ. ಮೈಕ್ರೋಫೋನ್ ಹತ್ತಿರ ಬಂದು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'voiceNote.error.failed':
+    'ಧ್ವನಿ ಇನ್‌ಪುಟ್ ಅನಿರೀಕ್ಷಿತವಾಗಿ ನಿಂತಿತು. ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ ಅಥವಾ ನಿಮ್ಮ ಅವಲೋಕನಗಳನ್ನು ಟೈಪ್ ಮಾಡಿ.',
+
+  'fieldContext.title': 'ಹೊಲದ ವಿವರಗಳು (ಐಚ್ಛಿಕ)',
+  'fieldContext.description': 'ಇದರಿಂದ ಚಿಕಿತ್ಸೆಯನ್ನು ನಿಮ್ಮ ಬೆಳೆಯ ಹಂತ ಮತ್ತು ಪ್ರದೇಶಕ್ಕೆ ತಕ್ಕಂತೆ ಸೂಚಿಸಲಾಗುತ್ತದೆ',
+  'fieldContext.variety': 'ತಳಿ',
+  'fieldContext.varietyPlaceholder': 'ಉದಾ. ಅರ್ಕಾ ರಕ್ಷಕ್',
+  'fieldContext.growthStage': 'ಬೆಳವಣಿಗೆಯ ಹಂತ',
+  'fieldContext.daysSinceSowing': 'ಬಿತ್ತನೆ ಅಥವಾ ನಾಟಿಯ ನಂತರದ ದಿನಗಳು',
+  'fieldContext.weather': 'ಇತ್ತೀಚಿನ ಹವಾಮಾನ',
+  'fieldContext.irrigation': 'ನೀರಾವರಿ',
+  'fieldContext.recentSprays': 'ಇತ್ತೀಚಿನ ಸಿಂಪಡಣೆ ಅಥವಾ ಗೊಬ್ಬರ',
+  'fieldContext.recentSpraysPlaceholder': 'ಉದಾ. 5 ದಿನಗಳ ಹಿಂದೆ ಮ್ಯಾಂಕೋಜೆಬ್, ಕಳೆದ ವಾರ ಯೂರಿಯಾ',
+  'fieldContext.district': 'ಜಿಲ್ಲೆ',
+  'fieldContext.districtPlaceholder': 'ಉದಾ. ಧಾರವಾಡ',
+  'fieldContext.state': 'ರಾಜ್ಯ',
+  'fieldContext.statePlaceholder': 'ಉದಾ. ಕರ್ನಾಟಕ',
+  'fieldContext.select': 'ಆಯ್ಕೆಮಾಡಿ',
+  'fieldContext.clear': 'ವಿವರಗಳನ್ನು ತೆರವುಗೊಳಿಸಿ',
+  'fieldContext.error.tooLong': 'ಗರಿಷ್ಠ {max} ಅಕ್ಷರಗಳನ್ನು ಬಳಸಿ',
+  'fieldContext.error.days': '0 ರಿಂದ {max} ವರೆಗಿನ ದಿನಗಳ ಪೂರ್ಣ ಸಂಖ್ಯೆಯನ್ನು ನಮೂದಿಸಿ',
+
+  'camera.takePhoto': 'ಫೋಟೋ ತೆಗೆಯಿರಿ',
+  'camera.title': 'ಫೋಟೋ ತೆಗೆಯಿರಿ',
+  'camera.description': 'ಬಾಧಿತ ಎಲೆಯನ್ನು ಚೌಕಟ್ಟಿನೊಳಗೆ ಇರಿಸಿ ಮತ್ತು ಫೋನ್ ಅನ್ನು ಸ್ಥಿರವಾಗಿ ಹಿಡಿಯಿರಿ.',
+  'camera.error': 'ಕ್ಯಾಮೆರಾ ಪ್ರಾರಂಭಿಸಲಾಗಲಿಲ್ಲ. ಕ್ಯಾಮೆರಾ ಅನುಮತಿ ನೀಡಿ ಅಥವಾ ಫೋನ್ ಕ್ಯಾಮೆರಾ ಬಳಸಿ.',
+  'camera.openPhoneCamera': 'ಫೋನ್ ಕ್ಯಾಮೆರಾ ತೆರೆಯಿರಿ',
+  'camera.capturedAlt': 'ತೆಗೆದ ಸಸ್ಯದ ಫೋಟೋ',
+  'camera.torchOn': 'ಟಾರ್ಚ್ ಆನ್ ಮಾಡಿ',
+  'camera.torchOff': 'ಟಾರ್ಚ್ ಆಫ್ ಮಾಡಿ',
+  'camera.retake': 'ಮತ್ತೆ ತೆಗೆಯಿರಿ',
+  'camera.usePhoto': 'ಫೋಟೋ ಬಳಸಿ',
+  'camera.capture': 'ಸೆರೆಹಿಡಿಯಿರಿ',
+
+  'results.title': 'ವಿಶ್ಲೇಷಣೆಯ ಫಲಿತಾಂಶಗಳು',
+  'results.generating': 'ರಚಿಸಲಾಗುತ್ತಿದೆ...',
+  'results.downloadPdf': 'PDF ವರದಿ ಡೌನ್‌ಲೋಡ್ ಮಾಡಿ',
+  'results.selectLanguage': 'ಭಾಷೆ ಆಯ್ಕೆಮಾಡಿ',
+  'results.bilingual': 'ದ್ವಿಭಾಷಾ ವರದಿ',
+  'results.bilingualOption': 'ಇಂಗ್ಲಿಷ್ + {language}',
+  'results.exportData': 'ಡೇಟಾ ರಫ್ತು ಮಾಡಿ',
+  'results.format.json': 'JSON (ಡೇಟಾ)',
+  'results.format.csv': 'CSV (ಸ್ಪ್ರೆಡ್‌ಶೀಟ್)',
+  'results.format.markdown': 'Markdown',
+  'results.format.html': 'HTML (ವೆಬ್ ಪುಟ)',
+  'results.exported.title': 'ರಫ್ತು ಡೌನ್‌ಲೋಡ್ ಆಗಿದೆ',
+  'results.exported.description': '{format} ಫೈಲ್ ಉಳಿಸಲಾಗಿದೆ',
+  'results.reportLanguage': 'ವರದಿಯ ಭಾಷೆ:',
+  'results.confidence': 'ವಿಶ್ವಾಸದ ಮಟ್ಟ',
+  'results.severity': 'ರೋಗದ ತೀವ್ರತೆ',
+  'results.spreadRate': 'ಹರಡುವ ವೇಗ:',
+  'results.symptoms': 'ಲಕ್ಷಣಗಳು',
+  'results.affectedParts': 'ಬಾಧಿತ ಭಾಗಗಳು',
+  'results.causes': 'ಕಾರಣಗಳು',
+  'results.treatment': 'ಚಿಕಿತ್ಸೆ',
+  'results.prevention': 'ತಡೆಗಟ್ಟುವಿಕೆ',
+  'results.translating.title': 'ಅನುವಾದಿಸಲಾಗುತ್ತಿದೆ...',
+  'results.translating.description': '{language} ಭಾಷೆಯಲ್ಲಿ ವರದಿ ರಚಿಸಲಾಗುತ್ತಿದೆ',
+  'results.pdfDownloaded.title': 'PDF ಡೌನ್‌ಲೋಡ್ ಆಗಿದೆ',
+  'results.pdfDownloaded.description': '{language} ಭಾಷೆಯಲ್ಲಿ ವರದಿ ರಚಿಸಲಾಗಿದೆ',
+
+  'crop.label': 'ಬೆಳೆ',
+  'crop.mismatch.title': 'ಇದು ಸರಿಯಾದ ಬೆಳೆಯೇ?',
+  'crop.mismatch.description':
+    'ನೀವು {reported} ಎಂದು ನಮೂದಿಸಿದ್ದೀರಿ, ಆದರೆ ಫೋಟೋಗಳು {crop} ನಂತೆ ಕಾಣುತ್ತವೆ. ಬೆಳೆಯ ಹೆಸರನ್ನು ಪರಿಶೀಲಿಸಿ, ಅಥವಾ ಫೋಟೋಗಳಲ್ಲಿ ತಪ್ಪು ಗಿಡವಿದ್ದರೆ ಮತ್ತೆ ತೆಗೆಯಿರಿ.',
+
+  'speech.listen': 'ಆಲಿಸಿ',
+  'speech.pause': 'ವಿರಾಮ',
+  'speech.resume': 'ಮುಂದುವರಿಸಿ',
+  'speech.stop': 'ನಿಲ್ಲಿಸಿ',
+  'speech.previous': 'ಹಿಂದಿನ ವಿಭಾಗ',
+  'speech.next': 'ಮುಂದಿನ ವಿಭಾಗ',
+  'speech.speed': 'ಓದುವ ವೇಗ',
+  'speech.unavailable.title': 'ಆಲಿಸುವ ಸೌಲಭ್ಯ ಲಭ್ಯವಿಲ್ಲ',
+  'speech.unavailable.noVoice':
+    'ಈ ಸಾಧನದಲ್ಲಿ {language} ಧ್ವನಿ ಸ್ಥಾಪಿಸಲಾಗಿಲ್ಲ. ವರದಿಯನ್ನು ಆಲಿಸಲು ಫೋನ್‌ನ ಪಠ್ಯದಿಂದ ಧ್ವನಿ ಸೆಟ್ಟಿಂಗ್‌ಗಳಲ್ಲಿ ಅದನ್ನು ಸೇರಿಸಿ.',
+  'speech.unavailable.unsupported':
+    'ಈ ಬ್ರೌಸರ್ ಪಠ್ಯವನ್ನು ಓದಿ ಹೇಳಲು ಸಾಧ್ಯವಿಲ್ಲ. Chrome ಅಥವಾ ಫೋನ್‌ನ ಡೀಫಾಲ್ಟ್ ಬ್ರೌಸರ್ ಬಳಸಿ ನೋಡಿ.',
+
+  'report.title': 'ಸಸ್ಯ ಆರೋಗ್ಯ ವರದಿ',
+  'report.date': 'ದಿನಾಂಕ: {date}',
+  'report.id': 'ವರದಿ ಐಡಿ: {id}',
+  'report.page': 'ಪುಟ {page} / {total}',
+  'report.photos': 'ಫೋಟೋಗಳು',
+  'report.severity': 'ತೀವ್ರತೆ: {value}',
+  'report.spreadRate': 'ಹರಡುವ ದರ: {value}',
+  'report.crop': 'ಬೆಳೆ: {name} ({confidence}%)',
+  'report.affectedArea': 'ಬಾಧಿತ ಪ್ರದೇಶ: {percent}% (ಶ್ರೇಣಿ {grade} / {max})',
+
+  'severity.low': 'ಕಡಿಮೆ',
+  'severity.moderate': 'ಮಧ್ಯಮ',
+  'severity.high': 'ಹೆಚ್ಚು',
+  'severity.critical': 'ಗಂಭೀರ',
+
+  'severityScale.description': 'ಕಾಣುವ ಎಲೆ ಅಥವಾ ಅಂಗಾಂಶದಲ್ಲಿ ರೋಗಲಕ್ಷಣವಿರುವ ಭಾಗ',
+  'severityScale.grade': 'ಶ್ರೇಣಿ {grade} / {max}',
+  'severityScale.none': 'ಯಾವುದೂ ಇಲ್ಲ',
+  'severityScale.range': '{min}–{max}%',
+  'severityScale.notEstimated': 'ಈ ರೋಗನಿರ್ಣಯಕ್ಕೆ ಬಾಧಿತ ಪ್ರದೇಶವನ್ನು ಅಂದಾಜಿಸಲಾಗಿಲ್ಲ.',
+
+  'spreadRate.low': 'ನಿಧಾನ',
+  'spreadRate.moderate': 'ಮಧ್ಯಮ',
+  'spreadRate.high': 'ವೇಗ',
+
+  'growthStage.seedling': 'ಸಸಿ',
+  'growthStage.vegetative': 'ಸಸ್ಯಕ ಬೆಳವಣಿಗೆ',
+  'growthStage.flowering': 'ಹೂಬಿಡುವಿಕೆ',
+  'growthStage.fruiting': 'ಕಾಯಿ ಅಥವಾ ಕಾಳು ತುಂಬುವಿಕೆ',
+  'growthStage.maturity': 'ಬಲಿತದ್ದು, ಕೊಯ್ಲಿನ ಹತ್ತಿರ',
+  'weather.dry': 'ಒಣ',
+  'weather.hot': 'ಬಿಸಿ',
+  'weather.rainy': 'ಮಳೆ',
+  'weather.humid': 'ತೇವಾಂಶ',
+  'weather.cold': 'ಚಳಿ',
+  'weather.foggy': 'ಮಂಜು',
+  'irrigation.rainfed': 'ಮಳೆಯಾಶ್ರಿತ',
+  'irrigation.flood': 'ಹರಿ ನೀರಾವರಿ',
+  'irrigation.furrow': 'ಸಾಲು ನೀರಾವರಿ',
+  'irrigation.drip': 'ಹನಿ',
+  'irrigation.sprinkler': 'ತುಂತುರು',
+
+  'kind.diseased': 'ರೋಗಗ್ರಸ್ತ',
+  'kind.healthy': 'ಆರೋಗ್ಯಕರ ಸಸ್ಯ',
+  'kind.not_a_plant': 'ಸಸ್ಯವಲ್ಲ',
+  'kind.unclear_image': 'ಅಸ್ಪಷ್ಟ ಫೋಟೋ',
+
+  'differential.title': 'ವ್ಯತ್ಯಾಸಾತ್ಮಕ ರೋಗನಿರ್ಣಯ',
+  'differential.description': 'ಸಂಭವನೀಯತೆಯ ಕ್ರಮದಲ್ಲಿ ಹೆಚ್ಚು ಸಂಭವನೀಯ ರೋಗಗಳು',
+  'differential.tellApart': 'ಹೇಗೆ ಪ್ರತ್ಯೇಕಿಸುವುದು:',
+
+  'outcome.healthy.title': 'ನಿಮ್ಮ ಸಸ್ಯ ಆರೋಗ್ಯಕರವಾಗಿ ಕಾಣುತ್ತದೆ',
+  'outcome.healthy.description': 'ರೋಗದ ಯಾವುದೇ ಗೋಚರ ಲಕ್ಷಣಗಳು ಕಂಡುಬಂದಿಲ್ಲ',
+  'outcome.keepHealthy': 'ಆರೋಗ್ಯಕರವಾಗಿ ಇರಿಸಿ',
+  'outcome.notAPlant.title': 'ಇದು ಸಸ್ಯದಂತೆ ಕಾಣುತ್ತಿಲ್ಲ',
+  'outcome.notAPlant.description': 'ರೋಗನಿರ್ಣಯಕ್ಕಾಗಿ ಬಾಧಿತ ಸಸ್ಯದ ಫೋಟೋ ಅಪ್‌ಲೋಡ್ ಮಾಡಿ',
+  'outcome.unclear.title': 'ನಮಗೆ ಸಸ್ಯ ಸ್ಪಷ್ಟವಾಗಿ ಕಾಣಲಿಲ್ಲ',
+  'outcome.unclear.description': 'ವಿಶ್ವಾಸಾರ್ಹ ರೋಗನಿರ್ಣಯಕ್ಕೆ ಫೋಟೋ ತುಂಬಾ ಅಸ್ಪಷ್ಟವಾಗಿದೆ',
+  'outcome.retakeTitle': 'ಮತ್ತೆ ಫೋಟೋ ತೆಗೆಯುವುದು ಹೇಗೆ',
+  'outcome.guidance.fill': 'ಒಂದೇ ಎಲೆ ಅಥವಾ ಬಾಧಿತ ಭಾಗ ಚೌಕಟ್ಟಿನ ಹೆಚ್ಚಿನ ಭಾಗವನ್ನು ತುಂಬುವಂತೆ ಫೋಟೋ ತೆಗೆಯಿರಿ.',
+  'outcome.guidance.light': 'ಹಗಲು ಬೆಳಕನ್ನು ಬಳಸಿ; ಗಾಢ ನೆರಳು, ಫ್ಲ್ಯಾಶ್ ಹೊಳಪು ಅಥವಾ ಹಿಂಬೆಳಕನ್ನು ತಪ್ಪಿಸಿ.',
+  'outcome.guidance.focus': 'ಫೋನ್ ಅನ್ನು ಸ್ಥಿರವಾಗಿ ಹಿಡಿದು, ಫೋಟೋ ತೆಗೆಯುವ ಮೊದಲು ಫೋಕಸ್‌ಗಾಗಿ ಎಲೆಯ ಮೇಲೆ ಟ್ಯಾಪ್ ಮಾಡಿ.',
+  'outcome.guidance.compare': 'ಹೋಲಿಕೆಗಾಗಿ ಹಾನಿಗೊಳಗಾದ ಭಾಗದೊಂದಿಗೆ ಸ್ವಲ್ಪ ಆರೋಗ್ಯಕರ ಭಾಗವನ್ನೂ ಸೇರಿಸಿ.',
+
+  'images.title.one': 'ವಿಶ್ಲೇಷಿಸಿದ ಸಸ್ಯದ ಫೋಟೋ',
+  'images.title.other': 'ವಿಶ್ಲೇಷಿಸಿದ ಸಸ್ಯದ ಫೋಟೋಗಳು',
+  'images.photoAlt': 'ವಿಶ್ಲೇಷಿಸಿದ ಸಸ್ಯ, ಫೋಟೋ {number}',
+  'images.showRegions': 'ರೋಗಲಕ್ಷಣದ ಭಾಗಗಳನ್ನು ತೋರಿಸಿ',
+
+  'history.title': 'ರೋಗನಿರ್ಣಯ ಇತಿಹಾಸ',
+  'history.subtitle': 'ನೀವು ವಿಶ್ಲೇಷಿಸಿದ ಪ್ರತಿಯೊಂದು ಸಸ್ಯ',
+  'history.newAnalysis': 'ಹೊಸ ವಿಶ್ಲೇಷಣೆ',
+  'history.search': 'ಹುಡುಕಿ',
+  'history.searchPlaceholder': 'ರೋಗ, ಬೆಳೆ ಅಥವಾ ಹೊಲ',
+  'history.crop': 'ಬೆಳೆ',
+  'history.cropPlaceholder': 'ನಮೂದಿಸಿದ ಅಥವಾ ಗುರುತಿಸಿದ ಬೆಳೆ',
+  'history.severity': 'ತೀವ್ರತೆ',
+  'history.allSeverities': 'ಎಲ್ಲಾ ತೀವ್ರತೆಗಳು',
+  'history.dateRange': 'ದಿನಾಂಕ ವ್ಯಾಪ್ತಿ',
+  'history.from': 'ಆರಂಭ ದಿನಾಂಕ',
+  'history.to': 'ಅಂತಿಮ ದಿನಾಂಕ',
+  'history.loadFailed': 'ರೋಗನಿರ್ಣಯ ಇತಿಹಾಸವನ್ನು ಲೋಡ್ ಮಾಡಲಾಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'history.empty': 'ನಿಮ್ಮ ಫಿಲ್ಟರ್‌ಗಳಿಗೆ ಹೊಂದುವ ಯಾವುದೇ ರೋಗನಿರ್ಣಯವಿಲ್ಲ.',
+  'history.clearFilters': 'ಫಿಲ್ಟರ್‌ಗಳನ್ನು ತೆರವುಗೊಳಿಸಿ',
+
+  'share.button': 'ಹಂಚಿಕೊಳ್ಳಿ',
+  'share.title': 'ಈ ರೋಗನಿರ್ಣಯವನ್ನು ಹಂಚಿಕೊಳ್ಳಿ',
+  'share.description': 'ಲಿಂಕ್ ಹೊಂದಿರುವ ಯಾರಾದರೂ ಈ ಫಲಿತಾಂಶವನ್ನು ತಾವು ಆಯ್ಕೆ ಮಾಡಿದ ಭಾಷೆಯಲ್ಲಿ ನೋಡಬಹುದು, ಬದಲಾಯಿಸಲಾಗುವುದಿಲ್ಲ.',
+  'share.expiryLabel': 'ಲಿಂಕ್ ಅವಧಿ',
+  'share.expiry.1': '1 ದಿನದ ನಂತರ',
+  'share.expiry.7': '7 ದಿನಗಳ ನಂತರ',
+  'share.expiry.30': '30 ದಿನಗಳ ನಂತರ',
+  'share.expiry.never': 'ಎಂದಿಗೂ ಇಲ್ಲ',
+  'share.create': 'ಲಿಂಕ್ ರಚಿಸಿ',
+  'share.creating': 'ರಚಿಸಲಾಗುತ್ತಿದೆ...',
+  'share.activeLinks': 'ನಿಮ್ಮ ಸಕ್ರಿಯ ಲಿಂಕ್‌ಗಳು',
+  'share.copy': 'ಲಿಂಕ್ ನಕಲಿಸಿ',
+  'share.copied': 'ಲಿಂಕ್ ನಕಲಿಸಲಾಗಿದೆ',
+  'share.shareVia': 'ಇದರ ಮೂಲಕ ಹಂಚಿಕೊಳ್ಳಿ...',
+  'share.message': 'PlantCare AI ನಿಂದ ಸಸ್ಯ ರೋಗನಿರ್ಣಯ',
+  'share.expiresOn': '{date} ರಂದು ಅವಧಿ ಮುಗಿಯುತ್ತದೆ',
+  'share.noExpiry': 'ಅವಧಿ ಮುಗಿಯುವುದಿಲ್ಲ',
+  'share.revoke': 'ರದ್ದುಮಾಡಿ',
+  'share.revoked': 'ಲಿಂಕ್ ರದ್ದುಗೊಳಿಸಲಾಗಿದೆ',
+  'shared.readOnly': 'ಹಂಚಿಕೊಂಡ ರೋಗನಿರ್ಣಯ · ಓದಲು ಮಾತ್ರ',
+  'shared.tryIt': 'ನಿಮ್ಮ ಸಸ್ಯವನ್ನು ವಿಶ್ಲೇಷಿಸಿ',
+
+  'detail.back': 'ಇತಿಹಾಸಕ್ಕೆ ಹಿಂತಿರುಗಿ',
+  'detail.notFound': 'ಈ ರೋಗನಿರ್ಣಯ ಕಂಡುಬಂದಿಲ್ಲ.',
+  'detail.analyzedOn': '{date} ರಂದು ವಿಶ್ಲೇಷಿಸಲಾಗಿದೆ',
+  'detail.notes': 'ರೈತರ ಅವಲೋಕನಗಳು',
+
+  'notFound.message': 'ಕ್ಷಮಿಸಿ! ಪುಟ ಕಂಡುಬಂದಿಲ್ಲ',
+  'notFound.home': 'ಮುಖಪುಟಕ್ಕೆ ಹಿಂತಿರುಗಿ',
+
+  'error.invalid_request.title': 'ವಿನಂತಿ ಸ್ವೀಕರಿಸಲಾಗಿಲ್ಲ',
+  'error.invalid_request.description': 'ಆ್ಯಪ್ ಅಪೂರ್ಣ ವಿನಂತಿಯನ್ನು ಕಳುಹಿಸಿದೆ. ಪುಟವನ್ನು ಮರುಲೋಡ್ ಮಾಡಿ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'error.invalid_image.title': 'ಫೋಟೋ ಬೆಂಬಲಿತವಲ್ಲ',
+  'error.invalid_image.description': 'ದಯವಿಟ್ಟು ಸಸ್ಯದ JPG, PNG ಅಥವಾ WEBP ಫೋಟೋವನ್ನು ಆಯ್ಕೆಮಾಡಿ.',
+  'error.image_too_large.title': 'ಫೋಟೋ ತುಂಬಾ ದೊಡ್ಡದಾಗಿದೆ',
+  'error.image_too_large.description': 'ದಯವಿಟ್ಟು ಚಿಕ್ಕ ಫೋಟೋವನ್ನು ಆಯ್ಕೆಮಾಡಿ.',
+  'error.image_not_found.title': 'ಫೋಟೋ ಕಂಡುಬಂದಿಲ್ಲ',
+  'error.image_not_found.description': 'ಅಪ್‌ಲೋಡ್ ಮಾಡಿದ ಫೋಟೋ ಕಂಡುಬಂದಿಲ್ಲ. ದಯವಿಟ್ಟು ಅದನ್ನು ಮತ್ತೆ ಸೇರಿಸಿ.',
+  'error.upload_failed.title': 'ಅಪ್‌ಲೋಡ್ ವಿಫಲವಾಗಿದೆ',
+  'error.upload_failed.description': 'ಫೋಟೋವನ್ನು ಅಪ್‌ಲೋಡ್ ಮಾಡಲಾಗಲಿಲ್ಲ. ನಿಮ್ಮ ಸಂಪರ್ಕವನ್ನು ಪರಿಶೀಲಿಸಿ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'error.network_error.title': 'ಸಂಪರ್ಕವಿಲ್ಲ',
+  'error.network_error.description': 'ಸರ್ವರ್ ತಲುಪಲಾಗಲಿಲ್ಲ. ನಿಮ್ಮ ಇಂಟರ್ನೆಟ್ ಸಂಪರ್ಕವನ್ನು ಪರಿಶೀಲಿಸಿ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'error.rate_limited.title': 'ಹೆಚ್ಚು ವಿನಂತಿಗಳು',
+  'error.rate_limited.description': 'ಸೇವೆ ಕಾರ್ಯನಿರತವಾಗಿದೆ. ದಯವಿಟ್ಟು ಒಂದು ನಿಮಿಷ ಕಾಯ್ದು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'error.payment_required.title': 'ಸೇವೆ ಲಭ್ಯವಿಲ್ಲ',
+  'error.payment_required.description':
+    'ವಿಶ್ಲೇಷಣಾ ಸೇವೆಯ ಕ್ರೆಡಿಟ್‌ಗಳು ಮುಗಿದಿವೆ. ದಯವಿಟ್ಟು ಆ್ಯಪ್ ನಿರ್ವಾಹಕರನ್ನು ಸಂಪರ್ಕಿಸಿ.',
+  'error.upstream_unavailable.title': 'ಸೇವೆ ತಾತ್ಕಾಲಿಕವಾಗಿ ಲಭ್ಯವಿಲ್ಲ',
+  'error.upstream_unavailable.description':
+    'AI ಸೇವೆ ಈಗ ಪ್ರತಿಕ್ರಿಯಿಸುತ್ತಿಲ್ಲ. ದಯವಿಟ್ಟು ಸ್ವಲ್ಪ ಸಮಯದ ನಂತರ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'error.upstream_error.title': 'ವಿಶ್ಲೇಷಣೆ ವಿಫಲವಾಗಿದೆ',
+  'error.upstream_error.description': 'AI ಸೇವೆಗೆ ಈ ವಿನಂತಿಯನ್ನು ಪೂರ್ಣಗೊಳಿಸಲಾಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'error.upstream_timeout.title': 'ವಿಶ್ಲೇಷಣೆಗೆ ಹೆಚ್ಚು ಸಮಯ ಹಿಡಿಯಿತು',
+  'error.upstream_timeout.description': 'AI ಸೇವೆ ಸಮಯಕ್ಕೆ ಉತ್ತರಿಸಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'error.model_output_invalid.title': 'ಫಲಿತಾಂಶವನ್ನು ಓದಲಾಗಲಿಲ್ಲ',
+  'error.model_output_invalid.description': 'AI ಅಪೂರ್ಣ ಫಲಿತಾಂಶವನ್ನು ನೀಡಿದೆ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'error.share_not_found.title': 'ಲಿಂಕ್ ಕಂಡುಬಂದಿಲ್ಲ',
+  'error.share_not_found.description': 'ಈ ಲಿಂಕ್ ಅಸ್ತಿತ್ವದಲ್ಲಿಲ್ಲ ಅಥವಾ ಹಂಚಿಕೊಂಡವರು ಅದನ್ನು ರದ್ದುಗೊಳಿಸಿದ್ದಾರೆ.',
+  'error.share_expired.title': 'ಲಿಂಕ್ ಅವಧಿ ಮುಗಿದಿದೆ',
+  'error.share_expired.description': 'ಈ ಲಿಂಕ್‌ನ ಅವಧಿ ಮುಗಿದಿದೆ. ಹಂಚಿಕೊಂಡವರಿಂದ ಹೊಸ ಲಿಂಕ್ ಕೇಳಿ.',
+  'error.unauthorized.title': 'ಸೆಷನ್ ಅಗತ್ಯವಿದೆ',
+  'error.unauthorized.description':
+    'ಈ ಸಾಧನವನ್ನು ಸೈನ್ ಇನ್ ಮಾಡಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ. ನಿಮ್ಮ ಸಂಪರ್ಕವನ್ನು ಪರಿಶೀಲಿಸಿ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'error.forbidden.title': 'ಅನುಮತಿ ಇಲ್ಲ',
+  'error.forbidden.description': 'ಈ ರೋಗನಿರ್ಣಯ ಮತ್ತು ಅದರ ಫೋಟೋಗಳನ್ನು ಉಳಿಸಿದ ಸಾಧನ ಮಾತ್ರ ಇದನ್ನು ಮಾಡಬಹುದು.',
+  'error.misconfigured.title': 'ಸೇವೆಯನ್ನು ಹೊಂದಿಸಲಾಗಿಲ್ಲ',
+  'error.misconfigured.description':
+    'ವಿಶ್ಲೇಷಣಾ ಸೇವೆಯನ್ನು ಕಾನ್ಫಿಗರ್ ಮಾಡಲಾಗಿಲ್ಲ. ದಯವಿಟ್ಟು ಆ್ಯಪ್ ನಿರ್ವಾಹಕರನ್ನು ಸಂಪರ್ಕಿಸಿ.',
+  'error.internal.title': 'ಏನೋ ತಪ್ಪಾಗಿದೆ',
+  'error.internal.description': 'ಅನಿರೀಕ್ಷಿತ ದೋಷ ಸಂಭವಿಸಿದೆ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'error.action.retry': 'ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ',
+  'error.action.choose_photo': 'ಫೋಟೋ ಆಯ್ಕೆಮಾಡಿ',
+};
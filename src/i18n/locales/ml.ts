@@ -0,0 +1,309 @@
+import type { Catalogue } from './en';
+
+export const ml: Catalogue = {
+  'app.name': 'PlantCare AI',
+  'app.tagline': 'സ്മാർട്ട് രോഗനിർണ്ണയം',
+  'app.footer.copyright': '© 2024 PlantCare AI. നൂതന AI സാങ്കേതികവിദ്യയാൽ പ്രവർത്തിക്കുന്നു.',
+  'app.footer.mission': 'കർഷകരെയും തോട്ടക്കാരെയും അവരുടെ വിളകൾ സംരക്ഷിക്കാൻ സഹായിക്കുന്നു.',
+  'nav.history': 'ചരിത്രം',
+  'language.placeholder': 'ഭാഷ തിരഞ്ഞെടുക്കുക',
+
+  'home.badge': 'AI അധിഷ്ഠിത സസ്യാരോഗ്യ വിശകലനം',
+  'home.title': 'സസ്യരോഗങ്ങൾ കണ്ടെത്തുക',
+  'home.titleHighlight': 'നിമിഷങ്ങൾക്കുള്ളിൽ',
+  'home.subtitle':
+    'നിങ്ങളുടെ ചെടിയുടെ ഫോട്ടോ അപ്‌ലോഡ് ചെയ്ത്, ഇഷ്ടമുള്ള ഭാഷയിൽ ചികിത്സാ നിർദ്ദേശങ്ങളോടെ ഉടനടി AI രോഗനിർണ്ണയം നേടുക.',
+  'home.cropLabel': 'വിള (ഓപ്ഷണൽ)',
+  'home.cropPlaceholder': 'ഉദാ. തക്കാളി',
+  'home.fieldLabel': 'വയൽ അല്ലെങ്കിൽ പ്ലോട്ട് (ഓപ്ഷണൽ)',
+  'home.fieldPlaceholder': 'ഉദാ. വടക്കേ വയൽ',
+  'home.analyze': 'ചെടി വിശകലനം ചെയ്യുക',
+  'home.analyzing': 'വിശകലനം ചെയ്യുന്നു...',
+  'home.feature.detection.title': 'AI അധിഷ്ഠിത കണ്ടെത്തൽ',
+  'home.feature.detection.description': 'നൂതന കമ്പ്യൂട്ടർ വിഷൻ ചെടിയുടെ ആരോഗ്യം ഉയർന്ന കൃത്യതയോടെ വിശകലനം ചെയ്യുന്നു',
+  'home.feature.languages.title': 'ബഹുഭാഷാ പിന്തുണ',
+  'home.feature.languages.description': 'എളുപ്പത്തിൽ മനസ്സിലാക്കാൻ 9 ഇന്ത്യൻ ഭാഷകളിൽ ഫലങ്ങൾ നേടുക',
+  'home.feature.treatment.title': 'ചികിത്സാ പദ്ധതികൾ',
+  'home.feature.treatment.description': 'വിശദമായ ചികിത്സയും പ്രതിരോധ നിർദ്ദേശങ്ങളും നേടുക',
+  'home.retakePhoto': '← ഫോട്ടോ വീണ്ടും എടുക്കുക',
+  'home.analyzeAnother': '← മറ്റൊരു ചെടി വിശകലനം ചെയ്യുക',
+  'home.cachedResult': 'സംരക്ഷിച്ച ഫലം',
+  'home.freshAnalysis': 'പുതിയ വിശകലനം നടത്തുക',
+  'home.noImage.title': 'ഫോട്ടോ തിരഞ്ഞെടുത്തിട്ടില്ല',
+  'home.noImage.description': 'ദയവായി ആദ്യം ചെടിയുടെ ഫോട്ടോ അപ്‌ലോഡ് ചെയ്യുക.',
+
+  'analysis.diseased.title': 'വിശകലനം പൂർത്തിയായി',
+  'analysis.diseased.description': 'സസ്യരോഗം വിജയകരമായി വിശകലനം ചെയ്തു.',
+  'analysis.healthy.title': 'വിശകലനം പൂർത്തിയായി',
+  'analysis.healthy.description': 'നിങ്ങളുടെ ചെടിയിൽ രോഗലക്ഷണങ്ങളൊന്നും കണ്ടെത്തിയില്ല.',
+  'analysis.not_a_plant.title': 'ചെടി കണ്ടെത്തിയില്ല',
+  'analysis.not_a_plant.description': 'പരിശോധിക്കേണ്ട ചെടിയുടെ ഫോട്ടോ അപ്‌ലോഡ് ചെയ്യുക.',
+  'analysis.unclear_image.title': 'ഫോട്ടോ വ്യക്തമല്ല',
+  'analysis.unclear_image.description': 'കാണിച്ചിരിക്കുന്ന നിർദ്ദേശങ്ങൾ പാലിച്ച് ഫോട്ടോ വീണ്ടും എടുക്കുക.',
+
+  'upload.dropTitle': 'നിങ്ങളുടെ ചെടിയുടെ ഫോട്ടോകൾ ഇവിടെ ഇടുക',
+  'upload.dropSubtitle': 'അല്ലെങ്കിൽ ഉപകരണത്തിൽ നിന്ന് തിരഞ്ഞെടുക്കാൻ ക്ലിക്ക് ചെയ്യുക',
+  'upload.dropHint': 'ഒരേ ചെടിയുടെ {max} ഫോട്ടോകൾ വരെ: ഇലയുടെ മുകൾവശവും അടിവശവും, തണ്ട്, കായ, മുഴുവൻ ചെടി',
+  'upload.formats': 'പിന്തുണയ്ക്കുന്നവ: JPG, PNG, WEBP',
+  'upload.addAnother': 'മറ്റൊരു ഫോട്ടോ ചേർക്കുക',
+  'upload.remaining': 'ഇനി {count}',
+  'upload.photoNumber': 'ഫോട്ടോ {number}',
+  'upload.keepLocation': 'ഫോട്ടോയുടെ GPS സ്ഥാനം നിലനിർത്തുക (സ്വകാര്യതയ്ക്കായി സ്വതവേ നീക്കം ചെയ്യുന്നു)',
+  'upload.tooMany.title': 'ഫോട്ടോകൾ കൂടുതലാണ്',
+  'upload.tooMany.description': 'ഒരു ചെടിയുടെ പരമാവധി {max} ഫോട്ടോകൾ ചേർക്കാം.',
+
+  'imageLabel.leaf_top': 'ഇല (മുകൾവശം)',
+  'imageLabel.leaf_underside': 'ഇല (അടിവശം)',
+  'imageLabel.stem': 'തണ്ട്',
+  'imageLabel.fruit': 'കായ',
+  'imageLabel.whole_plant': 'മുഴുവൻ ചെടി',
+  'imageLabel.other': 'മറ്റുള്ളവ',
+
+  'voiceNote.label': 'നിങ്ങളുടെ നിരീക്ഷണങ്ങൾ (ഐച്ഛികം)',
+  'voiceNote.placeholder': 'ഉദാ. കഴിഞ്ഞ ആഴ്ച മഴയ്ക്കു ശേഷം തുടങ്ങി, അടുത്തുള്ള ചെടികളിലേക്ക് പടരുന്നു',
+  'voiceNote.record': 'വോയ്‌സ് നോട്ട് റെക്കോർഡ് ചെയ്യുക',
+  'voiceNote.stop': 'റെക്കോർഡിംഗ് നിർത്തുക',
+  'voiceNote.listening': 'കേൾക്കുന്നു… ഇപ്പോൾ സംസാരിക്കുക',
+  'voiceNote.unsupported':
+    'ഈ ബ്രൗസറിൽ ശബ്ദത്തിലൂടെ എഴുതാനുള്ള സൗകര്യം ലഭ്യമല്ല. നിങ്ങളുടെ നിരീക്ഷണങ്ങൾ ടൈപ്പ് ചെയ്യാം.',
+  'voiceNote.error.denied': 'മൈക്രോഫോൺ അനുമതി ലഭിച്ചില്ല. നോട്ട് റെക്കോർഡ് ചെയ്യാൻ ബ്രൗസർ ക്രമീകരണങ്ങളിൽ അനുമതി നൽകുക.',
+  'voiceNote.error.language':
+    'ഈ ഉപകരണത്തിൽ {language} ഭാഷയിൽ ശബ്ദത്തിലൂടെ എഴുതാനുള്ള സൗകര്യം ലഭ്യമല്ല. നിങ്ങളുടെ നിരീക്ഷണങ്ങൾ ടൈപ്പ് ചെയ്യാം.',
+  'voiceNote.error.noSpeech': 'സംസാരമൊന്നും കേട്ടില്ല. മൈക്രോഫോണിനടുത്ത് വന്ന് വീണ്ടും ശ്രമിക്കുക.',
+  'voiceNote.error.failed':
+    'ശബ്ദ ഇൻപുട്ട് അപ്രതീക്ഷിതമായി നിന്നു. വീണ്ടും ശ്രമിക്കുക അല്ലെങ്കിൽ നിങ്ങളുടെ നിരീക്ഷണങ്ങൾ ടൈപ്പ് ചെയ്യുക.',
+
+  'fieldContext.title': 'വയലിന്റെ വിവരങ്ങൾ (ഐച്ഛികം)',
+  'fieldContext.description': 'ഇതുവഴി ചികിത്സ നിങ്ങളുടെ വിളയുടെ ഘട്ടത്തിനും പ്രദേശത്തിനും അനുസരിച്ച് നൽകാനാകും',
+  'fieldContext.variety': 'ഇനം',
+  'fieldContext.varietyPlaceholder': 'ഉദാ. അർക്ക രക്ഷക്',
+  'fieldContext.growthStage': 'വളർച്ചാ ഘട്ടം',
+  'fieldContext.daysSinceSowing': 'വിതച്ചതിനോ നട്ടതിനോ ശേഷമുള്ള ദിവസങ്ങൾ',
+  'fieldContext.weather': 'അടുത്തിടെയുള്ള കാലാവസ്ഥ',
+  'fieldContext.irrigation': 'ജലസേചനം',
+  'fieldContext.recentSprays': 'അടുത്തിടെ തളിച്ച മരുന്നുകളോ വളങ്ങളോ',
+  'fieldContext.recentSpraysPlaceholder': 'ഉദാ. 5 ദിവസം മുമ്പ് മാങ്കോസെബ്, കഴിഞ്ഞ ആഴ്ച യൂറിയ',
+  'fieldContext.district': 'ജില്ല',
+  'fieldContext.districtPlaceholder': 'ഉദാ. പാലക്കാട്',
+  'fieldContext.state': 'സംസ്ഥാനം',
+  'fieldContext.statePlaceholder': 'ഉദാ. കേരളം',
+  'fieldContext.select': 'തിരഞ്ഞെടുക്കുക',
+  'fieldContext.clear': 'വിവരങ്ങൾ മായ്ക്കുക',
+  'fieldContext.error.tooLong': 'പരമാവധി {max} അക്ഷരങ്ങൾ ഉപയോഗിക്കുക',
+  'fieldContext.error.days': '0 മുതൽ {max} വരെയുള്ള ദിവസങ്ങളുടെ പൂർണ്ണസംഖ്യ നൽകുക',
+
+  'camera.takePhoto': 'ഫോട്ടോ എടുക്കുക',
+  'camera.title': 'ഒരു ഫോട്ടോ എടുക്കുക',
+  'camera.description': 'ബാധിച്ച ഇല ഫ്രെയിമിനുള്ളിൽ വരുത്തി ഫോൺ അനങ്ങാതെ പിടിക്കുക.',
+  'camera.error': 'ക്യാമറ ആരംഭിക്കാനായില്ല. ക്യാമറ അനുമതി നൽകുക അല്ലെങ്കിൽ ഫോൺ ക്യാമറ ഉപയോഗിക്കുക.',
+  'camera.openPhoneCamera': 'ഫോൺ ക്യാമറ തുറക്കുക',
+  'camera.capturedAlt': 'എടുത്ത ചെടിയുടെ ഫോട്ടോ',
+  'camera.torchOn': 'ടോർച്ച് ഓണാക്കുക',
+  'camera.torchOff': 'ടോർച്ച് ഓഫാക്കുക',
+  'camera.retake': 'വീണ്ടും എടുക്കുക',
+  'camera.usePhoto': 'ഫോട്ടോ ഉപയോഗിക്കുക',
+  'camera.capture': 'പകർത്തുക',
+
+  'results.title': 'വിശകലന ഫലങ്ങൾ',
+  'results.generating': 'തയ്യാറാക്കുന്നു...',
+  'results.downloadPdf': 'PDF റിപ്പോർട്ട് ഡൗൺലോഡ് ചെയ്യുക',
+  'results.selectLanguage': 'ഭാഷ തിരഞ്ഞെടുക്കുക',
+  'results.bilingual': 'ദ്വിഭാഷാ റിപ്പോർട്ട്',
+  'results.bilingualOption': 'ഇംഗ്ലീഷ് + {language}',
+  'results.exportData': 'ഡാറ്റ എക്സ്പോർട്ട് ചെയ്യുക',
+  'results.format.json': 'JSON (ഡാറ്റ)',
+  'results.format.csv': 'CSV (സ്പ്രെഡ്ഷീറ്റ്)',
+  'results.format.markdown': 'Markdown',
+  'results.format.html': 'HTML (വെബ് പേജ്)',
+  'results.exported.title': 'എക്സ്പോർട്ട് ഡൗൺലോഡ് ചെയ്തു',
+  'results.exported.description': '{format} ഫയൽ സേവ് ചെയ്തു',
+  'results.reportLanguage': 'റിപ്പോർട്ടിന്റെ ഭാഷ:',
+  'results.confidence': 'വിശ്വാസ്യതാ നില',
+  'results.severity': 'രോഗത്തിന്റെ തീവ്രത',
+  'results.spreadRate': 'പടരുന്ന വേഗം:',
+  'results.symptoms': 'ലക്ഷണങ്ങൾ',
+  'results.affectedParts': 'ബാധിച്ച ഭാഗങ്ങൾ',
+  'results.causes': 'കാരണങ്ങൾ',
+  'results.treatment': 'ചികിത്സ',
+  'results.prevention': 'പ്രതിരോധം',
+  'results.translating.title': 'വിവർത്തനം ചെയ്യുന്നു...',
+  'results.translating.description': '{language} ഭാഷയിൽ റിപ്പോർട്ട് തയ്യാറാക്കുന്നു',
+  'results.pdfDownloaded.title': 'PDF ഡൗൺലോഡ് ചെയ്തു',
+  'results.pdfDownloaded.description': '{language} ഭാഷയിൽ റിപ്പോർട്ട് തയ്യാറാക്കി',
+
+  'crop.label': 'വിള',
+  'crop.mismatch.title': 'ഇത് ശരിയായ വിളയാണോ?',
+  'crop.mismatch.description':
+    'നിങ്ങൾ {reported} എന്ന് നൽകി, പക്ഷേ ഫോട്ടോകൾ {crop} പോലെയാണ് കാണുന്നത്. വിളയുടെ പേര് പരിശോധിക്കുക, അല്ലെങ്കിൽ തെറ്റായ ചെടിയാണെങ്കിൽ വീണ്ടും ഫോട്ടോ എടുക്കുക.',
+
+  'speech.listen': 'കേൾക്കുക',
+  'speech.pause': 'താൽക്കാലികമായി നിർത്തുക',
+  'speech.resume': 'തുടരുക',
+  'speech.stop': 'നിർത്തുക',
+  'speech.previous': 'മുമ്പത്തെ ഭാഗം',
+  'speech.next': 'അടുത്ത ഭാഗം',
+  'speech.speed': 'വായനാ വേഗം',
+  'speech.unavailable.title': 'കേൾക്കാനുള്ള സൗകര്യം ലഭ്യമല്ല',
+  'speech.unavailable.noVoice':
+    'ഈ ഉപകരണത്തിൽ {language} ശബ്ദം ഇൻസ്റ്റാൾ ചെയ്തിട്ടില്ല. റിപ്പോർട്ട് കേൾക്കാൻ ഫോണിന്റെ ടെക്സ്റ്റ്-ടു-സ്പീച്ച് ക്രമീകരണങ്ങളിൽ അത് ചേർക്കുക.',
+  'speech.unavailable.unsupported':
+    'ഈ ബ്രൗസറിന് വാചകം വായിച്ചുകേൾപ്പിക്കാൻ കഴിയില്ല. Chrome അല്ലെങ്കിൽ ഫോണിന്റെ സ്ഥിര ബ്രൗസർ പരീക്ഷിക്കുക.',
+
+  'report.title': 'സസ്യ ആരോഗ്യ റിപ്പോർട്ട്',
+  'report.date': 'തീയതി: {date}',
+  'report.id': 'റിപ്പോർട്ട് ഐഡി: {id}',
+  'report.page': 'പേജ് {page} / {total}',
+  'report.photos': 'ഫോട്ടോകൾ',
+  'report.severity': 'തീവ്രത: {value}',
+  'report.spreadRate': 'വ്യാപന നിരക്ക്: {value}',
+  'report.crop': 'വിള: {name} ({confidence}%)',
+  'report.affectedArea': 'ബാധിച്ച ഭാഗം: {percent}% (ഗ്രേഡ് {grade} / {max})',
+
+  'severity.low': 'കുറവ്',
+  'severity.moderate': 'മിതം',
+  'severity.high': 'കൂടുതൽ',
+  'severity.critical': 'ഗുരുതരം',
+
+  'severityScale.description': 'കാണുന്ന ഇലയിലോ കലയിലോ ലക്ഷണങ്ങളുള്ള ഭാഗം',
+  'severityScale.grade': 'ഗ്രേഡ് {grade} / {max}',
+  'severityScale.none': 'ഒന്നുമില്ല',
+  'severityScale.range': '{min}–{max}%',
+  'severityScale.notEstimated': 'ഈ രോഗനിർണയത്തിന് ബാധിച്ച ഭാഗം കണക്കാക്കിയിട്ടില്ല.',
+
+  'spreadRate.low': 'മന്ദം',
+  'spreadRate.moderate': 'മിതം',
+  'spreadRate.high': 'വേഗം',
+
+  'growthStage.seedling': 'തൈ',
+  'growthStage.vegetative': 'കായിക വളർച്ച',
+  'growthStage.flowering': 'പൂവിടൽ',
+  'growthStage.fruiting': 'കായ് അല്ലെങ്കിൽ മണി നിറയൽ',
+  'growthStage.maturity': 'മൂപ്പെത്തിയത്, വിളവെടുപ്പിനടുത്ത്',
+  'weather.dry': 'വരണ്ട',
+  'weather.hot': 'ചൂട്',
+  'weather.rainy': 'മഴ',
+  'weather.humid': 'ഈർപ്പം',
+  'weather.cold': 'തണുപ്പ്',
+  'weather.foggy': 'മൂടൽമഞ്ഞ്',
+  'irrigation.rainfed': 'മഴയെ ആശ്രയിച്ച്',
+  'irrigation.flood': 'തടം നനയ്ക്കൽ',
+  'irrigation.furrow': 'ചാൽ നന',
+  'irrigation.drip': 'തുള്ളിനന',
+  'irrigation.sprinkler': 'സ്പ്രിങ്ക്ലർ',
+
+  'kind.diseased': 'രോഗബാധിതം',
+  'kind.healthy': 'ആരോഗ്യമുള്ള ചെടി',
+  'kind.not_a_plant': 'ചെടിയല്ല',
+  'kind.unclear_image': 'അവ്യക്തമായ ഫോട്ടോ',
+
+  'differential.title': 'വ്യത്യാസനിർണ്ണയം',
+  'differential.description': 'സാധ്യതയനുസരിച്ച് ക്രമീകരിച്ച ഏറ്റവും സാധ്യതയുള്ള രോഗങ്ങൾ',
+  'differential.tellApart': 'എങ്ങനെ വേർതിരിച്ചറിയാം:',
+
+  'outcome.healthy.title': 'നിങ്ങളുടെ ചെടി ആരോഗ്യമുള്ളതായി തോന്നുന്നു',
+  'outcome.healthy.description': 'രോഗത്തിന്റെ ദൃശ്യമായ ലക്ഷണങ്ങളൊന്നും കണ്ടെത്തിയില്ല',
+  'outcome.keepHealthy': 'ആരോഗ്യത്തോടെ നിലനിർത്തുക',
+  'outcome.notAPlant.title': 'ഇത് ഒരു ചെടിയായി തോന്നുന്നില്ല',
+  'outcome.notAPlant.description': 'രോഗനിർണ്ണയത്തിനായി ബാധിച്ച ചെടിയുടെ ഫോട്ടോ അപ്‌ലോഡ് ചെയ്യുക',
+  'outcome.unclear.title': 'ചെടി വ്യക്തമായി കാണാനായില്ല',
+  'outcome.unclear.description': 'വിശ്വസനീയമായ രോഗനിർണ്ണയത്തിന് ഫോട്ടോ വളരെ അവ്യക്തമാണ്',
+  'outcome.retakeTitle': 'ഫോട്ടോ വീണ്ടും എങ്ങനെ എടുക്കാം',
+  'outcome.guidance.fill': 'ഒരു ഇലയോ ബാധിച്ച ഭാഗമോ ഫ്രെയിമിന്റെ ഭൂരിഭാഗവും നിറയുന്ന രീതിയിൽ ഫോട്ടോ എടുക്കുക.',
+  'outcome.guidance.light': 'പകൽവെളിച്ചം ഉപയോഗിക്കുക; കടുത്ത നിഴൽ, ഫ്ലാഷിന്റെ തിളക്കം, പിന്നിൽ നിന്നുള്ള വെളിച്ചം എന്നിവ ഒഴിവാക്കുക.',
+  'outcome.guidance.focus': 'ഫോൺ അനങ്ങാതെ പിടിച്ച്, ഫോട്ടോ എടുക്കുന്നതിന് മുമ്പ് ഫോക്കസിനായി ഇലയിൽ ടാപ്പ് ചെയ്യുക.',
+  'outcome.guidance.compare': 'താരതമ്യത്തിനായി കേടായ ഭാഗത്തോടൊപ്പം കുറച്ച് ആരോഗ്യമുള്ള ഭാഗവും ഉൾപ്പെടുത്തുക.',
+
+  'images.title.one': 'വിശകലനം ചെയ്ത ചെടിയുടെ ഫോട്ടോ',
+  'images.title.other': 'വിശകലനം ചെയ്ത ചെടിയുടെ ഫോട്ടോകൾ',
+  'images.photoAlt': 'വിശകലനം ചെയ്ത ചെടി, ഫോട്ടോ {number}',
+  'images.showRegions': 'ലക്ഷണമുള്ള ഭാഗങ്ങൾ കാണിക്കുക',
+
+  'history.title': 'രോഗനിർണ്ണയ ചരിത്രം',
+  'history.subtitle': 'നിങ്ങൾ വിശകലനം ചെയ്ത ഓരോ ചെടിയും',
+  'history.newAnalysis': 'പുതിയ വിശകലനം',
+  'history.search': 'തിരയുക',
+  'history.searchPlaceholder': 'രോഗം, വിള അല്ലെങ്കിൽ വയൽ',
+  'history.crop': 'വിള',
+  'history.cropPlaceholder': 'നൽകിയതോ തിരിച്ചറിഞ്ഞതോ ആയ വിള',
+  'history.severity': 'തീവ്രത',
+  'history.allSeverities': 'എല്ലാ തീവ്രതകളും',
+  'history.dateRange': 'തീയതി പരിധി',
+  'history.from': 'ആരംഭ തീയതി',
+  'history.to': 'അവസാന തീയതി',
+  'history.loadFailed': 'രോഗനിർണ്ണയ ചരിത്രം ലോഡ് ചെയ്യാനായില്ല. ദയവായി വീണ്ടും ശ്രമിക്കുക.',
+  'history.empty': 'നിങ്ങളുടെ ഫിൽട്ടറുകളുമായി പൊരുത്തപ്പെടുന്ന രോഗനിർണ്ണയങ്ങളൊന്നുമില്ല.',
+  'history.clearFilters': 'ഫിൽട്ടറുകൾ മായ്ക്കുക',
+
+  'share.button': 'പങ്കിടുക',
+  'share.title': 'ഈ രോഗനിർണയം പങ്കിടുക',
+  'share.description': 'ലിങ്ക് ഉള്ള ആർക്കും ഈ ഫലം അവർ തിരഞ്ഞെടുക്കുന്ന ഭാഷയിൽ കാണാൻ മാത്രം കഴിയും.',
+  'share.expiryLabel': 'ലിങ്കിന്റെ കാലാവധി',
+  'share.expiry.1': '1 ദിവസത്തിന് ശേഷം',
+  'share.expiry.7': '7 ദിവസത്തിന് ശേഷം',
+  'share.expiry.30': '30 ദിവസത്തിന് ശേഷം',
+  'share.expiry.never': 'ഒരിക്കലുമില്ല',
+  'share.create': 'ലിങ്ക് സൃഷ്ടിക്കുക',
+  'share.creating': 'സൃഷ്ടിക്കുന്നു...',
+  'share.activeLinks': 'നിങ്ങളുടെ സജീവ ലിങ്കുകൾ',
+  'share.copy': 'ലിങ്ക് പകർത്തുക',
+  'share.copied': 'ലിങ്ക് പകർത്തി',
+  'share.shareVia': 'ഇതുവഴി പങ്കിടുക...',
+  'share.message': 'PlantCare AI-യിൽ നിന്നുള്ള സസ്യ രോഗനിർണയം',
+  'share.expiresOn': '{date}-ന് കാലാവധി തീരും',
+  'share.noExpiry': 'കാലാവധി തീരില്ല',
+  'share.revoke': 'റദ്ദാക്കുക',
+  'share.revoked': 'ലിങ്ക് റദ്ദാക്കി',
+  'shared.readOnly': 'പങ്കിട്ട രോഗനിർണയം · വായിക്കാൻ മാത്രം',
+  'shared.tryIt': 'നിങ്ങളുടെ സസ്യം വിശകലനം ചെയ്യുക',
+
+  'detail.back': 'ചരിത്രത്തിലേക്ക് മടങ്ങുക',
+  'detail.notFound': 'ഈ രോഗനിർണ്ണയം കണ്ടെത്താനായില്ല.',
+  'detail.analyzedOn': '{date} ന് വിശകലനം ചെയ്തു',
+  'detail.notes': 'കർഷകന്റെ നിരീക്ഷണങ്ങൾ',
+
+  'notFound.message': 'ക്ഷമിക്കണം! പേജ് കണ്ടെത്തിയില്ല',
+  'notFound.home': 'ഹോമിലേക്ക് മടങ്ങുക',
+
+  'error.invalid_request.title': 'അഭ്യർത്ഥന സ്വീകരിച്ചില്ല',
+  'error.invalid_request.description':
+    'ആപ്പ് അപൂർണ്ണമായ അഭ്യർത്ഥന അയച്ചു. പേജ് വീണ്ടും ലോഡ് ചെയ്ത് വീണ്ടും ശ്രമിക്കുക.',
+  'error.invalid_image.title': 'ഫോട്ടോ പിന്തുണയ്ക്കുന്നില്ല',
+  'error.invalid_image.description': 'ദയവായി ചെടിയുടെ JPG, PNG അല്ലെങ്കിൽ WEBP ഫോട്ടോ തിരഞ്ഞെടുക്കുക.',
+  'error.image_too_large.title': 'ഫോട്ടോ വളരെ വലുതാണ്',
+  'error.image_too_large.description': 'ദയവായി ചെറിയ ഒരു ഫോട്ടോ തിരഞ്ഞെടുക്കുക.',
+  'error.image_not_found.title': 'ഫോട്ടോ കണ്ടെത്തിയില്ല',
+  'error.image_not_found.description': 'അപ്‌ലോഡ് ചെയ്ത ഫോട്ടോ കണ്ടെത്താനായില്ല. ദയവായി അത് വീണ്ടും ചേർക്കുക.',
+  'error.upload_failed.title': 'അപ്‌ലോഡ് പരാജയപ്പെട്ടു',
+  'error.upload_failed.description': 'ഫോട്ടോ അപ്‌ലോഡ് ചെയ്യാനായില്ല. നിങ്ങളുടെ കണക്ഷൻ പരിശോധിച്ച് വീണ്ടും ശ്രമിക്കുക.',
+  'error.network_error.title': 'കണക്ഷൻ ഇല്ല',
+  'error.network_error.description':
+    'സെർവറിലേക്ക് എത്താനായില്ല. നിങ്ങളുടെ ഇന്റർനെറ്റ് കണക്ഷൻ പരിശോധിച്ച് വീണ്ടും ശ്രമിക്കുക.',
+  'error.rate_limited.title': 'അഭ്യർത്ഥനകൾ വളരെ കൂടുതലാണ്',
+  'error.rate_limited.description': 'സേവനം തിരക്കിലാണ്. ദയവായി ഒരു മിനിറ്റ് കാത്തിരുന്ന് വീണ്ടും ശ്രമിക്കുക.',
+  'error.payment_required.title': 'സേവനം ലഭ്യമല്ല',
+  'error.payment_required.description':
+    'വിശകലന സേവനത്തിന്റെ ക്രെഡിറ്റുകൾ തീർന്നു. ദയവായി ആപ്പ് അഡ്മിനിസ്ട്രേറ്ററെ ബന്ധപ്പെടുക.',
+  'error.upstream_unavailable.title': 'സേവനം താൽക്കാലികമായി ലഭ്യമല്ല',
+  'error.upstream_unavailable.description':
+    'AI സേവനം ഇപ്പോൾ പ്രതികരിക്കുന്നില്ല. ദയവായി അൽപ്പസമയത്തിന് ശേഷം വീണ്ടും ശ്രമിക്കുക.',
+  'error.upstream_error.title': 'വിശകലനം പരാജയപ്പെട്ടു',
+  'error.upstream_error.description': 'AI സേവനത്തിന് ഈ അഭ്യർത്ഥന പൂർത്തിയാക്കാനായില്ല. ദയവായി വീണ്ടും ശ്രമിക്കുക.',
+  'error.upstream_timeout.title': 'വിശകലനത്തിന് വളരെയധികം സമയമെടുത്തു',
+  'error.upstream_timeout.description': 'AI സേവനം സമയത്ത് മറുപടി നൽകിയില്ല. ദയവായി വീണ്ടും ശ്രമിക്കുക.',
+  'error.model_output_invalid.title': 'ഫലം വായിക്കാനായില്ല',
+  'error.model_output_invalid.description': 'AI അപൂർണ്ണമായ ഫലം നൽകി. ദയവായി വീണ്ടും ശ്രമിക്കുക.',
+  'error.share_not_found.title': 'ലിങ്ക് കണ്ടെത്തിയില്ല',
+  'error.share_not_found.description': 'ഈ ലിങ്ക് നിലവിലില്ല അല്ലെങ്കിൽ പങ്കിട്ടയാൾ അത് റദ്ദാക്കി.',
+  'error.share_expired.title': 'ലിങ്കിന്റെ കാലാവധി കഴിഞ്ഞു',
+  'error.share_expired.description': 'ഈ ലിങ്കിന്റെ കാലാവധി കഴിഞ്ഞു. പങ്കിട്ടയാളോട് പുതിയ ലിങ്ക് ചോദിക്കുക.',
+  'error.unauthorized.title': 'സെഷൻ ആവശ്യമാണ്',
+  'error.unauthorized.description': 'ഈ ഉപകരണം സൈൻ ഇൻ ചെയ്യാനായില്ല. നിങ്ങളുടെ കണക്ഷൻ പരിശോധിച്ച് വീണ്ടും ശ്രമിക്കുക.',
+  'error.forbidden.title': 'അനുവാദമില്ല',
+  'error.forbidden.description': 'ഈ രോഗനിർണയവും ഫോട്ടോകളും സേവ് ചെയ്ത ഉപകരണത്തിന് മാത്രമേ ഇത് ചെയ്യാനാകൂ.',
+  'error.misconfigured.title': 'സേവനം സജ്ജീകരിച്ചിട്ടില്ല',
+  'error.misconfigured.description': 'വിശകലന സേവനം കോൺഫിഗർ ചെയ്തിട്ടില്ല. ദയവായി ആപ്പ് അഡ്മിനിസ്ട്രേറ്ററെ ബന്ധപ്പെടുക.',
+  'error.internal.title': 'എന്തോ കുഴപ്പം സംഭവിച്ചു',
+  'error.internal.description': 'അപ്രതീക്ഷിതമായ ഒരു പിശക് സംഭവിച്ചു. ദയവായി വീണ്ടും ശ്രമിക്കുക.',
+  'error.action.retry': 'വീണ്ടും ശ്രമിക്കുക',
+  'error.action.choose_photo': 'ഫോട്ടോ തിരഞ്ഞെടുക്കുക',
+};
@@ -0,0 +1,306 @@
+import type { Catalogue } from './en';
+
+export const mr: Catalogue = {
+  'app.name': 'PlantCare AI',
+  'app.tagline': 'स्मार्ट रोग ओळख',
+  'app.footer.copyright': '© 2024 PlantCare AI. प्रगत AI तंत्रज्ञानावर आधारित.',
+  'app.footer.mission': 'शेतकरी आणि बागायतदारांना त्यांची पिके वाचवण्यास मदत.',
+  'nav.history': 'इतिहास',
+  'language.placeholder': 'भाषा निवडा',
+
+  'home.badge': 'AI आधारित वनस्पती आरोग्य विश्लेषण',
+  'home.title': 'वनस्पतींचे रोग ओळखा',
+  'home.titleHighlight': 'काही सेकंदांत',
+  'home.subtitle':
+    'तुमच्या झाडाचा फोटो अपलोड करा आणि तुमच्या आवडत्या भाषेत उपचारांच्या शिफारसींसह त्वरित AI आधारित रोग ओळख मिळवा.',
+  'home.cropLabel': 'पीक (ऐच्छिक)',
+  'home.cropPlaceholder': 'उदा. टोमॅटो',
+  'home.fieldLabel': 'शेत किंवा प्लॉट (ऐच्छिक)',
+  'home.fieldPlaceholder': 'उदा. उत्तरेकडील शेत',
+  'home.analyze': 'झाडाचे विश्लेषण करा',
+  'home.analyzing': 'विश्लेषण सुरू आहे...',
+  'home.feature.detection.title': 'AI आधारित ओळख',
+  'home.feature.detection.description': 'प्रगत कॉम्प्युटर व्हिजन झाडाच्या आरोग्याचे अचूक विश्लेषण करते',
+  'home.feature.languages.title': 'अनेक भाषांमध्ये मदत',
+  'home.feature.languages.description': 'अधिक चांगल्या समजुतीसाठी 9 भारतीय भाषांमध्ये निकाल मिळवा',
+  'home.feature.treatment.title': 'उपचार योजना',
+  'home.feature.treatment.description': 'उपचार आणि प्रतिबंधासाठी सविस्तर शिफारसी मिळवा',
+  'home.retakePhoto': '← फोटो पुन्हा घ्या',
+  'home.analyzeAnother': '← दुसऱ्या झाडाचे विश्लेषण करा',
+  'home.cachedResult': 'जतन केलेला निकाल',
+  'home.freshAnalysis': 'नवीन विश्लेषण करा',
+  'home.noImage.title': 'कोणताही फोटो निवडलेला नाही',
+  'home.noImage.description': 'कृपया आधी झाडाचा फोटो अपलोड करा.',
+
+  'analysis.diseased.title': 'विश्लेषण पूर्ण झाले',
+  'analysis.diseased.description': 'झाडाच्या रोगाचे यशस्वी विश्लेषण झाले.',
+  'analysis.healthy.title': 'विश्लेषण पूर्ण झाले',
+  'analysis.healthy.description': 'तुमच्या झाडावर रोगाची कोणतीही लक्षणे आढळली नाहीत.',
+  'analysis.not_a_plant.title': 'झाड आढळले नाही',
+  'analysis.not_a_plant.description': 'कृपया तपासायच्या झाडाचा फोटो अपलोड करा.',
+  'analysis.unclear_image.title': 'फोटो अस्पष्ट आहे',
+  'analysis.unclear_image.description': 'कृपया दाखवलेल्या सूचनांनुसार फोटो पुन्हा घ्या.',
+
+  'upload.dropTitle': 'तुमच्या झाडाचे फोटो येथे सोडा',
+  'upload.dropSubtitle': 'किंवा तुमच्या डिव्हाइसवरून निवडण्यासाठी क्लिक करा',
+  'upload.dropHint': 'एकाच झाडाचे {max} पर्यंत फोटो: पानाची वरची आणि खालची बाजू, खोड, फळ, संपूर्ण झाड',
+  'upload.formats': 'समर्थित: JPG, PNG, WEBP',
+  'upload.addAnother': 'आणखी एक फोटो जोडा',
+  'upload.remaining': '{count} बाकी',
+  'upload.photoNumber': 'फोटो {number}',
+  'upload.keepLocation': 'फोटोचे GPS स्थान ठेवा (गोपनीयतेसाठी ते आपोआप काढले जाते)',
+  'upload.tooMany.title': 'खूप जास्त फोटो',
+  'upload.tooMany.description': 'तुम्ही एका झाडाचे जास्तीत जास्त {max} फोटो जोडू शकता.',
+
+  'imageLabel.leaf_top': 'पान (वरची बाजू)',
+  'imageLabel.leaf_underside': 'पान (खालची बाजू)',
+  'imageLabel.stem': 'खोड',
+  'imageLabel.fruit': 'फळ',
+  'imageLabel.whole_plant': 'संपूर्ण झाड',
+  'imageLabel.other': 'इतर',
+
+  'voiceNote.label': 'तुमची निरीक्षणे (ऐच्छिक)',
+  'voiceNote.placeholder': 'उदा. मागील आठवड्यात पावसानंतर सुरू झाले, शेजारच्या झाडांवर पसरत आहे',
+  'voiceNote.record': 'व्हॉइस नोट रेकॉर्ड करा',
+  'voiceNote.stop': 'रेकॉर्डिंग थांबवा',
+  'voiceNote.listening': 'ऐकत आहोत… आता बोला',
+  'voiceNote.unsupported':
+    'या ब्राउझरमध्ये आवाजाने लिहिण्याची सुविधा उपलब्ध नाही. तुम्ही तुमची निरीक्षणे टाइप करू शकता.',
+  'voiceNote.error.denied':
+    'मायक्रोफोनची परवानगी मिळाली नाही. नोट रेकॉर्ड करण्यासाठी ब्राउझर सेटिंग्जमध्ये परवानगी द्या.',
+  'voiceNote.error.language':
+    'या डिव्हाइसवर {language} मध्ये आवाजाने लिहिण्याची सुविधा उपलब्ध नाही. तुम्ही तुमची निरीक्षणे टाइप करू शकता.',
+  'voiceNote.error.noSpeech': 'कोणताही आवाज ऐकू आला नाही. मायक्रोफोनजवळ येऊन पुन्हा प्रयत्न करा.',
+  'voiceNote.error.failed': 'आवाज इनपुट अचानक थांबले. पुन्हा प्रयत्न करा किंवा तुमची निरीक्षणे टाइप करा.',
+
+  'fieldContext.title': 'शेताचा तपशील (ऐच्छिक)',
+  'fieldContext.description': 'यामुळे उपचार तुमच्या पिकाच्या अवस्थेनुसार आणि भागानुसार सांगता येतो',
+  'fieldContext.variety': 'वाण',
+  'fieldContext.varietyPlaceholder': 'उदा. अर्का रक्षक',
+  'fieldContext.growthStage': 'वाढीची अवस्था',
+  'fieldContext.daysSinceSowing': 'पेरणी किंवा लावणीनंतरचे दिवस',
+  'fieldContext.weather': 'अलीकडील हवामान',
+  'fieldContext.irrigation': 'सिंचन',
+  'fieldContext.recentSprays': 'अलीकडील फवारणी किंवा खते',
+  'fieldContext.recentSpraysPlaceholder': 'उदा. 5 दिवसांपूर्वी मॅन्कोझेब, मागील आठवड्यात युरिया',
+  'fieldContext.district': 'जिल्हा',
+  'fieldContext.districtPlaceholder': 'उदा. धारवाड',
+  'fieldContext.state': 'राज्य',
+  'fieldContext.statePlaceholder': 'उदा. कर्नाटक',
+  'fieldContext.select': 'निवडा',
+  'fieldContext.clear': 'तपशील पुसा',
+  'fieldContext.error.tooLong': 'जास्तीत जास्त {max} अक्षरे लिहा',
+  'fieldContext.error.days': '0 ते {max} पर्यंत दिवसांची पूर्ण संख्या लिहा',
+
+  'camera.takePhoto': 'फोटो घ्या',
+  'camera.title': 'फोटो घ्या',
+  'camera.description': 'बाधित पान चौकटीत बसवा आणि फोन स्थिर धरा.',
+  'camera.error': 'कॅमेरा सुरू होऊ शकला नाही. कॅमेऱ्याला परवानगी द्या किंवा फोनचा कॅमेरा वापरा.',
+  'camera.openPhoneCamera': 'फोनचा कॅमेरा उघडा',
+  'camera.capturedAlt': 'घेतलेला झाडाचा फोटो',
+  'camera.torchOn': 'टॉर्च चालू करा',
+  'camera.torchOff': 'टॉर्च बंद करा',
+  'camera.retake': 'पुन्हा घ्या',
+  'camera.usePhoto': 'फोटो वापरा',
+  'camera.capture': 'फोटो काढा',
+
+  'results.title': 'विश्लेषणाचे निकाल',
+  'results.generating': 'तयार होत आहे...',
+  'results.downloadPdf': 'PDF अहवाल डाउनलोड करा',
+  'results.selectLanguage': 'भाषा निवडा',
+  'results.bilingual': 'द्विभाषिक अहवाल',
+  'results.bilingualOption': 'इंग्रजी + {language}',
+  'results.exportData': 'डेटा निर्यात करा',
+  'results.format.json': 'JSON (डेटा)',
+  'results.format.csv': 'CSV (स्प्रेडशीट)',
+  'results.format.markdown': 'Markdown',
+  'results.format.html': 'HTML (वेब पृष्ठ)',
+  'results.exported.title': 'निर्यात डाउनलोड झाले',
+  'results.exported.description': '{format} फाइल जतन केली',
+  'results.reportLanguage': 'अहवालाची भाषा:',
+  'results.confidence': 'विश्वास पातळी',
+  'results.severity': 'रोगाची तीव्रता',
+  'results.spreadRate': 'प्रसाराचा वेग:',
+  'results.symptoms': 'लक्षणे',
+  'results.affectedParts': 'बाधित भाग',
+  'results.causes': 'कारणे',
+  'results.treatment': 'उपचार',
+  'results.prevention': 'प्रतिबंध',
+  'results.translating.title': 'भाषांतर सुरू आहे...',
+  'results.translating.description': '{language} मध्ये अहवाल तयार होत आहे',
+  'results.pdfDownloaded.title': 'PDF डाउनलोड झाला',
+  'results.pdfDownloaded.description': 'अहवाल {language} मध्ये तयार झाला',
+
+  'crop.label': 'पीक',
+  'crop.mismatch.title': 'हे योग्य पीक आहे का?',
+  'crop.mismatch.description':
+    'तुम्ही {reported} नोंदवले, पण फोटो {crop} सारखे दिसतात. पिकाचे नाव तपासा, किंवा फोटोत चुकीचे रोप असल्यास पुन्हा फोटो घ्या.',
+
+  'speech.listen': 'ऐका',
+  'speech.pause': 'थांबवा',
+  'speech.resume': 'पुन्हा सुरू करा',
+  'speech.stop': 'बंद करा',
+  'speech.previous': 'मागील भाग',
+  'speech.next': 'पुढील भाग',
+  'speech.speed': 'वाचनाचा वेग',
+  'speech.unavailable.title': 'ऐकण्याची सुविधा उपलब्ध नाही',
+  'speech.unavailable.noVoice':
+    'या डिव्हाइसवर {language} आवाज इंस्टॉल केलेला नाही. अहवाल ऐकण्यासाठी फोनच्या टेक्स्ट-टू-स्पीच सेटिंग्जमध्ये तो जोडा.',
+  'speech.unavailable.unsupported':
+    'हा ब्राउझर मजकूर वाचून दाखवू शकत नाही. Chrome किंवा फोनचा डीफॉल्ट ब्राउझर वापरून पहा.',
+
+  'report.title': 'वनस्पती आरोग्य अहवाल',
+  'report.date': 'दिनांक: {date}',
+  'report.id': 'अहवाल आयडी: {id}',
+  'report.page': 'पृष्ठ {page} / {total}',
+  'report.photos': 'फोटो',
+  'report.severity': 'तीव्रता: {value}',
+  'report.spreadRate': 'प्रसार दर: {value}',
+  'report.crop': 'पीक: {name} ({confidence}%)',
+  'report.affectedArea': 'बाधित क्षेत्र: {percent}% (श्रेणी {grade} / {max})',
+
+  'severity.low': 'कमी',
+  'severity.moderate': 'मध्यम',
+  'severity.high': 'जास्त',
+  'severity.critical': 'गंभीर',
+
+  'severityScale.description': 'दिसणाऱ्या पानाचा किंवा ऊतीचा लक्षणे असलेला भाग',
+  'severityScale.grade': 'श्रेणी {grade} / {max}',
+  'severityScale.none': 'काहीही नाही',
+  'severityScale.range': '{min}–{max}%',
+  'severityScale.notEstimated': 'या निदानासाठी बाधित क्षेत्राचा अंदाज लावलेला नाही.',
+
+  'spreadRate.low': 'मंद',
+  'spreadRate.moderate': 'मध्यम',
+  'spreadRate.high': 'जलद',
+
+  'growthStage.seedling': 'रोप अवस्था',
+  'growthStage.vegetative': 'शाकीय वाढ',
+  'growthStage.flowering': 'फुलोरा',
+  'growthStage.fruiting': 'फळधारणा किंवा दाणे भरणे',
+  'growthStage.maturity': 'पक्व, काढणीजवळ',
+  'weather.dry': 'कोरडे',
+  'weather.hot': 'उष्ण',
+  'weather.rainy': 'पावसाळी',
+  'weather.humid': 'दमट',
+  'weather.cold': 'थंड',
+  'weather.foggy': 'धुके',
+  'irrigation.rainfed': 'पावसावर आधारित',
+  'irrigation.flood': 'पाट पाणी',
+  'irrigation.furrow': 'सरी पद्धत',
+  'irrigation.drip': 'ठिबक',
+  'irrigation.sprinkler': 'तुषार',
+
+  'kind.diseased': 'रोगग्रस्त',
+  'kind.healthy': 'निरोगी झाड',
+  'kind.not_a_plant': 'झाड नाही',
+  'kind.unclear_image': 'अस्पष्ट फोटो',
+
+  'differential.title': 'विभेदक निदान',
+  'differential.description': 'सर्वाधिक संभाव्य रोग, संभाव्यतेनुसार क्रमवार',
+  'differential.tellApart': 'फरक कसा ओळखावा:',
+
+  'outcome.healthy.title': 'तुमचे झाड निरोगी दिसते',
+  'outcome.healthy.description': 'रोगाची कोणतीही दृश्य लक्षणे आढळली नाहीत',
+  'outcome.keepHealthy': 'झाड निरोगी ठेवा',
+  'outcome.notAPlant.title': 'हे झाड दिसत नाही',
+  'outcome.notAPlant.description': 'निदानासाठी बाधित झाडाचा फोटो अपलोड करा',
+  'outcome.unclear.title': 'आम्हाला झाड स्पष्टपणे दिसले नाही',
+  'outcome.unclear.description': 'विश्वसनीय निदानासाठी फोटो खूप अस्पष्ट आहे',
+  'outcome.retakeTitle': 'फोटो पुन्हा कसा घ्यावा',
+  'outcome.guidance.fill': 'एकच पान किंवा बाधित भाग चौकटीचा बहुतेक भाग व्यापेल असा फोटो घ्या.',
+  'outcome.guidance.light': 'दिवसाच्या प्रकाशात फोटो घ्या आणि गडद सावल्या, फ्लॅशची चमक किंवा मागून येणारा प्रकाश टाळा.',
+  'outcome.guidance.focus': 'फोन स्थिर धरा आणि फोटो घेण्यापूर्वी फोकससाठी पानावर टॅप करा.',
+  'outcome.guidance.compare': 'तुलनेसाठी खराब भागासोबत थोडा निरोगी भागही फोटोत घ्या.',
+
+  'images.title.one': 'विश्लेषित झाडाचा फोटो',
+  'images.title.other': 'विश्लेषित झाडाचे फोटो',
+  'images.photoAlt': 'विश्लेषित झाड, फोटो {number}',
+  'images.showRegions': 'लक्षणांचे भाग दाखवा',
+
+  'history.title': 'निदान इतिहास',
+  'history.subtitle': 'तुम्ही विश्लेषण केलेले प्रत्येक झाड',
+  'history.newAnalysis': 'नवीन विश्लेषण',
+  'history.search': 'शोधा',
+  'history.searchPlaceholder': 'रोग, पीक किंवा शेत',
+  'history.crop': 'पीक',
+  'history.cropPlaceholder': 'नोंदवलेले किंवा ओळखलेले पीक',
+  'history.severity': 'तीव्रता',
+  'history.allSeverities': 'सर्व तीव्रता',
+  'history.dateRange': 'तारीख श्रेणी',
+  'history.from': 'सुरुवातीची तारीख',
+  'history.to': 'शेवटची तारीख',
+  'history.loadFailed': 'निदान इतिहास लोड होऊ शकला नाही. कृपया पुन्हा प्रयत्न करा.',
+  'history.empty': 'तुमच्या फिल्टरशी जुळणारे कोणतेही निदान नाही.',
+  'history.clearFilters': 'फिल्टर काढा',
+
+  'share.button': 'शेअर करा',
+  'share.title': 'हे निदान शेअर करा',
+  'share.description': 'लिंक असलेली कोणतीही व्यक्ती हा निकाल तिच्या निवडलेल्या भाषेत फक्त पाहू शकते.',
+  'share.expiryLabel': 'लिंकची मुदत',
+  'share.expiry.1': '1 दिवसानंतर',
+  'share.expiry.7': '7 दिवसांनंतर',
+  'share.expiry.30': '30 दिवसांनंतर',
+  'share.expiry.never': 'कधीही नाही',
+  'share.create': 'लिंक तयार करा',
+  'share.creating': 'तयार करत आहे...',
+  'share.activeLinks': 'तुमच्या सक्रिय लिंक',
+  'share.copy': 'लिंक कॉपी करा',
+  'share.copied': 'लिंक कॉपी झाली',
+  'share.shareVia': 'याद्वारे शेअर करा...',
+  'share.message': 'PlantCare AI कडून वनस्पती निदान',
+  'share.expiresOn': '{date} रोजी मुदत संपेल',
+  'share.noExpiry': 'मुदत संपणार नाही',
+  'share.revoke': 'रद्द करा',
+  'share.revoked': 'लिंक रद्द केली',
+  'shared.readOnly': 'शेअर केलेले निदान · फक्त वाचण्यासाठी',
+  'shared.tryIt': 'तुमच्या वनस्पतीचे विश्लेषण करा',
+
+  'detail.back': 'इतिहासाकडे परत',
+  'detail.notFound': 'हे निदान सापडले नाही.',
+  'detail.analyzedOn': '{date} रोजी विश्लेषण केले',
+  'detail.notes': 'शेतकऱ्याची निरीक्षणे',
+
+  'notFound.message': 'अरेरे! पृष्ठ सापडले नाही',
+  'notFound.home': 'मुख्यपृष्ठावर परत जा',
+
+  'error.invalid_request.title': 'विनंती स्वीकारली नाही',
+  'error.invalid_request.description': 'अॅपने अपूर्ण विनंती पाठवली. पृष्ठ पुन्हा लोड करा आणि पुन्हा प्रयत्न करा.',
+  'error.invalid_image.title': 'फोटो समर्थित नाही',
+  'error.invalid_image.description': 'कृपया झाडाचा JPG, PNG किंवा WEBP फोटो निवडा.',
+  'error.image_too_large.title': 'फोटो खूप मोठा आहे',
+  'error.image_too_large.description': 'कृपया लहान फोटो निवडा.',
+  'error.image_not_found.title': 'फोटो सापडला नाही',
+  'error.image_not_found.description': 'अपलोड केलेला फोटो सापडला नाही. कृपया तो पुन्हा जोडा.',
+  'error.upload_failed.title': 'अपलोड अयशस्वी',
+  'error.upload_failed.description': 'फोटो अपलोड होऊ शकला नाही. तुमचे कनेक्शन तपासा आणि पुन्हा प्रयत्न करा.',
+  'error.network_error.title': 'कनेक्शन नाही',
+  'error.network_error.description':
+    'सर्व्हरशी संपर्क होऊ शकला नाही. तुमचे इंटरनेट कनेक्शन तपासा आणि पुन्हा प्रयत्न करा.',
+  'error.rate_limited.title': 'खूप जास्त विनंत्या',
+  'error.rate_limited.description': 'सेवा व्यस्त आहे. कृपया एक मिनिट थांबून पुन्हा प्रयत्न करा.',
+  'error.payment_required.title': 'सेवा उपलब्ध नाही',
+  'error.payment_required.description': 'विश्लेषण सेवेचे क्रेडिट संपले आहेत. कृपया अॅप प्रशासकाशी संपर्क साधा.',
+  'error.upstream_unavailable.title': 'सेवा तात्पुरती उपलब्ध नाही',
+  'error.upstream_unavailable.description': 'AI सेवा सध्या प्रतिसाद देत नाही. कृपया थोड्या वेळाने पुन्हा प्रयत्न करा.',
+  'error.upstream_error.title': 'विश्लेषण अयशस्वी',
+  'error.upstream_error.description': 'AI सेवा ही विनंती पूर्ण करू शकली नाही. कृपया पुन्हा प्रयत्न करा.',
+  'error.upstream_timeout.title': 'विश्लेषणाला खूप वेळ लागला',
+  'error.upstream_timeout.description': 'AI सेवेने वेळेत उत्तर दिले नाही. कृपया पुन्हा प्रयत्न करा.',
+  'error.model_output_invalid.title': 'निकाल वाचता आला नाही',
+  'error.model_output_invalid.description': 'AI ने अपूर्ण निकाल दिला. कृपया पुन्हा प्रयत्न करा.',
+  'error.share_not_found.title': 'लिंक सापडली नाही',
+  'error.share_not_found.description': 'ही लिंक अस्तित्वात नाही किंवा शेअर करणाऱ्या व्यक्तीने ती रद्द केली आहे.',
+  'error.share_expired.title': 'लिंकची मुदत संपली',
+  'error.share_expired.description': 'या लिंकची मुदत संपली आहे. शेअर करणाऱ्या व्यक्तीकडे नवीन लिंक मागा.',
+  'error.unauthorized.title': 'सत्र आवश्यक',
+  'error.unauthorized.description': 'हे डिव्हाइस साइन इन होऊ शकले नाही. तुमचे कनेक्शन तपासा आणि पुन्हा प्रयत्न करा.',
+  'error.forbidden.title': 'परवानगी नाही',
+  'error.forbidden.description': 'हे फक्त ज्या डिव्हाइसने हे निदान आणि त्याचे फोटो जतन केले तेच करू शकते.',
+  'error.misconfigured.title': 'सेवा सेट केलेली नाही',
+  'error.misconfigured.description': 'विश्लेषण सेवा कॉन्फिगर केलेली नाही. कृपया अॅप प्रशासकाशी संपर्क साधा.',
+  'error.internal.title': 'काहीतरी चुकले',
+  'error.internal.description': 'अनपेक्षित त्रुटी आली. कृपया पुन्हा प्रयत्न करा.',
+  'error.action.retry': 'पुन्हा प्रयत्न करा',
+  'error.action.choose_photo': 'फोटो निवडा',
+};
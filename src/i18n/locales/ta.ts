@@ -0,0 +1,312 @@
+import type { Catalogue } from './en';
+
+export const ta: Catalogue = {
+  'app.name': 'PlantCare AI',
+  'app.tagline': 'ஸ்மார்ட் நோய் கண்டறிதல்',
+  'app.footer.copyright': '© 2024 PlantCare AI. மேம்பட்ட AI தொழில்நுட்பத்தால் இயக்கப்படுகிறது.',
+  'app.footer.mission': 'விவசாயிகளும் தோட்டக்காரர்களும் தங்கள் பயிர்களைப் பாதுகாக்க உதவுகிறது.',
+  'nav.history': 'வரலாறு',
+  'language.placeholder': 'மொழியைத் தேர்ந்தெடுக்கவும்',
+
+  'home.badge': 'AI அடிப்படையிலான தாவர ஆரோக்கிய பகுப்பாய்வு',
+  'home.title': 'தாவர நோய்களைக் கண்டறியுங்கள்',
+  'home.titleHighlight': 'சில நொடிகளில்',
+  'home.subtitle':
+    'உங்கள் தாவரத்தின் புகைப்படத்தைப் பதிவேற்றி, நீங்கள் விரும்பும் மொழியில் சிகிச்சை பரிந்துரைகளுடன் உடனடி AI நோய் கண்டறிதலைப் பெறுங்கள்.',
+  'home.cropLabel': 'பயிர் (விருப்பத்தேர்வு)',
+  'home.cropPlaceholder': 'எ.கா. தக்காளி',
+  'home.fieldLabel': 'வயல் அல்லது நிலம் (விருப்பத்தேர்வு)',
+  'home.fieldPlaceholder': 'எ.கா. வடக்கு வயல்',
+  'home.analyze': 'தாவரத்தைப் பகுப்பாய்வு செய்',
+  'home.analyzing': 'பகுப்பாய்வு செய்யப்படுகிறது...',
+  'home.feature.detection.title': 'AI அடிப்படையிலான கண்டறிதல்',
+  'home.feature.detection.description': 'மேம்பட்ட கணினி பார்வை தாவர ஆரோக்கியத்தை அதிக துல்லியத்துடன் பகுப்பாய்வு செய்கிறது',
+  'home.feature.languages.title': 'பல மொழி ஆதரவு',
+  'home.feature.languages.description': 'எளிதாகப் புரிந்துகொள்ள 9 இந்திய மொழிகளில் முடிவுகளைப் பெறுங்கள்',
+  'home.feature.treatment.title': 'சிகிச்சைத் திட்டங்கள்',
+  'home.feature.treatment.description': 'விரிவான சிகிச்சை மற்றும் தடுப்பு பரிந்துரைகளைப் பெறுங்கள்',
+  'home.retakePhoto': '← மீண்டும் புகைப்படம் எடு',
+  'home.analyzeAnother': '← மற்றொரு தாவரத்தைப் பகுப்பாய்வு செய்',
+  'home.cachedResult': 'சேமிக்கப்பட்ட முடிவு',
+  'home.freshAnalysis': 'புதிய பகுப்பாய்வு செய்',
+  'home.noImage.title': 'புகைப்படம் தேர்ந்தெடுக்கப்படவில்லை',
+  'home.noImage.description': 'முதலில் தாவரப் புகைப்படத்தைப் பதிவேற்றவும்.',
+
+  'analysis.diseased.title': 'பகுப்பாய்வு முடிந்தது',
+  'analysis.diseased.description': 'தாவர நோய் வெற்றிகரமாகப் பகுப்பாய்வு செய்யப்பட்டது.',
+  'analysis.healthy.title': 'பகுப்பாய்வு முடிந்தது',
+  'analysis.healthy.description': 'உங்கள் தாவரத்தில் நோய் அறிகுறிகள் எதுவும் இல்லை.',
+  'analysis.not_a_plant.title': 'தாவரம் கண்டறியப்படவில்லை',
+  'analysis.not_a_plant.description': 'சோதிக்க வேண்டிய தாவரத்தின் புகைப்படத்தைப் பதிவேற்றவும்.',
+  'analysis.unclear_image.title': 'புகைப்படம் தெளிவாக இல்லை',
+  'analysis.unclear_image.description': 'காட்டப்பட்டுள்ள குறிப்புகளைப் பின்பற்றி மீண்டும் புகைப்படம் எடுக்கவும்.',
+
+  'upload.dropTitle': 'உங்கள் தாவரப் புகைப்படங்களை இங்கே விடவும்',
+  'upload.dropSubtitle': 'அல்லது உங்கள் சாதனத்திலிருந்து தேர்ந்தெடுக்கக் கிளிக் செய்யவும்',
+  'upload.dropHint': 'ஒரே தாவரத்தின் {max} புகைப்படங்கள் வரை: இலையின் மேல் மற்றும் அடிப்பகுதி, தண்டு, பழம், முழு தாவரம்',
+  'upload.formats': 'ஆதரிக்கப்படுபவை: JPG, PNG, WEBP',
+  'upload.addAnother': 'மற்றொரு புகைப்படம் சேர்',
+  'upload.remaining': 'இன்னும் {count}',
+  'upload.photoNumber': 'புகைப்படம் {number}',
+  'upload.keepLocation': 'புகைப்படத்தின் GPS இருப்பிடத்தை வைத்திரு (தனியுரிமைக்காக இயல்பாக நீக்கப்படும்)',
+  'upload.tooMany.title': 'அதிகமான புகைப்படங்கள்',
+  'upload.tooMany.description': 'ஒரு தாவரத்திற்கு அதிகபட்சம் {max} புகைப்படங்களைச் சேர்க்கலாம்.',
+
+  'imageLabel.leaf_top': 'இலை (மேல்பகுதி)',
+  'imageLabel.leaf_underside': 'இலை (அடிப்பகுதி)',
+  'imageLabel.stem': 'தண்டு',
+  'imageLabel.fruit': 'பழம்',
+  'imageLabel.whole_plant': 'முழு தாவரம்',
+  'imageLabel.other': 'மற்றவை',
+
+  'voiceNote.label': 'உங்கள் கவனிப்புகள் (விருப்பத்தேர்வு)',
+  'voiceNote.placeholder': 'எ.கா. கடந்த வாரம் மழைக்குப் பிறகு தொடங்கியது, அருகிலுள்ள செடிகளுக்குப் பரவுகிறது',
+  'voiceNote.record': 'குரல் குறிப்பைப் பதிவுசெய்',
+  'voiceNote.stop': 'பதிவை நிறுத்து',
+  'voiceNote.listening': 'கேட்கிறது… இப்போது பேசுங்கள்',
+  'voiceNote.unsupported': 'இந்த உலாவியில் குரல் மூலம் எழுதும் வசதி இல்லை. உங்கள் கவனிப்புகளைத் தட்டச்சு செய்யலாம்.',
+  'voiceNote.error.denied':
+    'மைக்ரோஃபோன் அனுமதி மறுக்கப்பட்டது. குறிப்பைப் பதிவுசெய்ய உலாவி அமைப்புகளில் அனுமதி வழங்கவும்.',
+  'voiceNote.error.language':
+    'இந்தச் சாதனத்தில் {language} மொழியில் குரல் மூலம் எழுதும் வசதி இல்லை. உங்கள் கவனிப்புகளைத் தட்டச்சு செய்யலாம்.',
+  'voiceNote.error.noSpeech': 'எந்தப் பேச்சும் கேட்கவில்லை. மைக்ரோஃபோனுக்கு அருகில் வந்து மீண்டும் முயற்சிக்கவும்.',
+  'voiceNote.error.failed':
+    'குரல் உள்ளீடு எதிர்பாராமல் நின்றது. மீண்டும் முயற்சிக்கவும் அல்லது உங்கள் கவனிப்புகளைத் தட்டச்சு செய்யவும்.',
+
+  'fieldContext.title': 'வயல் விவரங்கள் (விருப்பத்தேர்வு)',
+  'fieldContext.description': 'இதனால் சிகிச்சை உங்கள் பயிரின் நிலை மற்றும் பகுதிக்கு ஏற்ப வழங்கப்படும்',
+  'fieldContext.variety': 'ரகம்',
+  'fieldContext.varietyPlaceholder': 'எ.கா. அர்கா ரக்ஷக்',
+  'fieldContext.growthStage': 'வளர்ச்சி நிலை',
+  'fieldContext.daysSinceSowing': 'விதைப்பு அல்லது நடவுக்குப் பிந்தைய நாட்கள்',
+  'fieldContext.weather': 'சமீபத்திய வானிலை',
+  'fieldContext.irrigation': 'பாசனம்',
+  'fieldContext.recentSprays': 'சமீபத்திய தெளிப்புகள் அல்லது உரங்கள்',
+  'fieldContext.recentSpraysPlaceholder': 'எ.கா. 5 நாட்களுக்கு முன் மேங்கோசெப், கடந்த வாரம் யூரியா',
+  'fieldContext.district': 'மாவட்டம்',
+  'fieldContext.districtPlaceholder': 'எ.கா. தர்மபுரி',
+  'fieldContext.state': 'மாநிலம்',
+  'fieldContext.statePlaceholder': 'எ.கா. தமிழ்நாடு',
+  'fieldContext.select': 'தேர்ந்தெடு',
+  'fieldContext.clear': 'விவரங்களை அழி',
+  'fieldContext.error.tooLong': 'அதிகபட்சம் {max} எழுத்துகளைப் பயன்படுத்தவும்',
+  'fieldContext.error.days': '0 முதல் {max} வரையிலான நாட்களின் முழு எண்ணை உள்ளிடவும்',
+
+  'camera.takePhoto': 'புகைப்படம் எடு',
+  'camera.title': 'புகைப்படம் எடுக்கவும்',
+  'camera.description': 'பாதிக்கப்பட்ட இலையைச் சட்டகத்திற்குள் வைத்து, தொலைபேசியை அசையாமல் பிடிக்கவும்.',
+  'camera.error': 'கேமராவைத் தொடங்க முடியவில்லை. கேமரா அனுமதியை வழங்கவும் அல்லது தொலைபேசி கேமராவைப் பயன்படுத்தவும்.',
+  'camera.openPhoneCamera': 'தொலைபேசி கேமராவைத் திற',
+  'camera.capturedAlt': 'எடுக்கப்பட்ட தாவரப் புகைப்படம்',
+  'camera.torchOn': 'டார்ச்சை இயக்கு',
+  'camera.torchOff': 'டார்ச்சை அணை',
+  'camera.retake': 'மீண்டும் எடு',
+  'camera.usePhoto': 'புகைப்படத்தைப் பயன்படுத்து',
+  'camera.capture': 'படம் பிடி',
+
+  'results.title': 'பகுப்பாய்வு முடிவுகள்',
+  'results.generating': 'உருவாக்கப்படுகிறது...',
+  'results.downloadPdf': 'PDF அறிக்கையைப் பதிவிறக்கு',
+  'results.selectLanguage': 'மொழியைத் தேர்ந்தெடு',
+  'results.bilingual': 'இருமொழி அறிக்கை',
+  'results.bilingualOption': 'ஆங்கிலம் + {language}',
+  'results.exportData': 'தரவை ஏற்றுமதி செய்',
+  'results.format.json': 'JSON (தரவு)',
+  'results.format.csv': 'CSV (விரிதாள்)',
+  'results.format.markdown': 'Markdown',
+  'results.format.html': 'HTML (வலைப்பக்கம்)',
+  'results.exported.title': 'ஏற்றுமதி பதிவிறக்கப்பட்டது',
+  'results.exported.description': '{format} கோப்பு சேமிக்கப்பட்டது',
+  'results.reportLanguage': 'அறிக்கை மொழி:',
+  'results.confidence': 'நம்பக நிலை',
+  'results.severity': 'நோயின் தீவிரம்',
+  'results.spreadRate': 'பரவும் வேகம்:',
+  'results.symptoms': 'அறிகுறிகள்',
+  'results.affectedParts': 'பாதிக்கப்பட்ட பகுதிகள்',
+  'results.causes': 'காரணங்கள்',
+  'results.treatment': 'சிகிச்சை',
+  'results.prevention': 'தடுப்பு',
+  'results.translating.title': 'மொழிபெயர்க்கப்படுகிறது...',
+  'results.translating.description': '{language} மொழியில் அறிக்கை உருவாக்கப்படுகிறது',
+  'results.pdfDownloaded.title': 'PDF பதிவிறக்கப்பட்டது',
+  'results.pdfDownloaded.description': '{language} மொழியில் அறிக்கை உருவாக்கப்பட்டது',
+
+  'crop.label': 'பயிர்',
+  'crop.mismatch.title': 'இது சரியான பயிரா?',
+  'crop.mismatch.description':
+    'நீங்கள் {reported} என்று உள்ளிட்டீர்கள், ஆனால் புகைப்படங்கள் {crop} போல் தெரிகின்றன. பயிரின் பெயரைச் சரிபார்க்கவும், அல்லது தவறான செடி இருந்தால் மீண்டும் புகைப்படம் எடுக்கவும்.',
+
+  'speech.listen': 'கேளுங்கள்',
+  'speech.pause': 'இடைநிறுத்து',
+  'speech.resume': 'தொடரவும்',
+  'speech.stop': 'நிறுத்து',
+  'speech.previous': 'முந்தைய பகுதி',
+  'speech.next': 'அடுத்த பகுதி',
+  'speech.speed': 'வாசிப்பு வேகம்',
+  'speech.unavailable.title': 'கேட்கும் வசதி கிடைக்கவில்லை',
+  'speech.unavailable.noVoice':
+    'இந்தச் சாதனத்தில் {language} குரல் நிறுவப்படவில்லை. அறிக்கையைக் கேட்க தொலைபேசியின் உரையிலிருந்து பேச்சு அமைப்புகளில் அதைச் சேர்க்கவும்.',
+  'speech.unavailable.unsupported':
+    'இந்த உலாவியால் உரையை வாசித்துக் காட்ட முடியாது. Chrome அல்லது தொலைபேசியின் இயல்புநிலை உலாவியை முயற்சிக்கவும்.',
+
+  'report.title': 'தாவர ஆரோக்கிய அறிக்கை',
+  'report.date': 'தேதி: {date}',
+  'report.id': 'அறிக்கை ஐடி: {id}',
+  'report.page': 'பக்கம் {page} / {total}',
+  'report.photos': 'புகைப்படங்கள்',
+  'report.severity': 'தீவிரம்: {value}',
+  'report.spreadRate': 'பரவல் விகிதம்: {value}',
+  'report.crop': 'பயிர்: {name} ({confidence}%)',
+  'report.affectedArea': 'பாதிக்கப்பட்ட பரப்பு: {percent}% (தரம் {grade} / {max})',
+
+  'severity.low': 'குறைவு',
+  'severity.moderate': 'மிதமானது',
+  'severity.high': 'அதிகம்',
+  'severity.critical': 'மிகத் தீவிரம்',
+
+  'severityScale.description': 'தெரியும் இலை அல்லது திசுவில் அறிகுறிகள் உள்ள பகுதி',
+  'severityScale.grade': 'தரம் {grade} / {max}',
+  'severityScale.none': 'இல்லை',
+  'severityScale.range': '{min}–{max}%',
+  'severityScale.notEstimated': 'இந்த நோயறிதலுக்கு பாதிக்கப்பட்ட பரப்பு மதிப்பிடப்படவில்லை.',
+
+  'spreadRate.low': 'மெதுவானது',
+  'spreadRate.moderate': 'மிதமானது',
+  'spreadRate.high': 'வேகமானது',
+
+  'growthStage.seedling': 'நாற்று',
+  'growthStage.vegetative': 'தழை வளர்ச்சி',
+  'growthStage.flowering': 'பூக்கும் நிலை',
+  'growthStage.fruiting': 'காய் அல்லது மணி பிடிக்கும் நிலை',
+  'growthStage.maturity': 'முதிர்ந்தது, அறுவடைக்கு அருகில்',
+  'weather.dry': 'வறண்ட',
+  'weather.hot': 'வெப்பம்',
+  'weather.rainy': 'மழை',
+  'weather.humid': 'ஈரப்பதம்',
+  'weather.cold': 'குளிர்',
+  'weather.foggy': 'பனிமூட்டம்',
+  'irrigation.rainfed': 'மானாவாரி',
+  'irrigation.flood': 'வெள்ளப் பாசனம்',
+  'irrigation.furrow': 'சால் பாசனம்',
+  'irrigation.drip': 'சொட்டு நீர்',
+  'irrigation.sprinkler': 'தெளிப்பு நீர்',
+
+  'kind.diseased': 'நோயுற்றது',
+  'kind.healthy': 'ஆரோக்கியமான தாவரம்',
+  'kind.not_a_plant': 'தாவரம் அல்ல',
+  'kind.unclear_image': 'தெளிவற்ற புகைப்படம்',
+
+  'differential.title': 'வேறுபாட்டு நோயறிதல்',
+  'differential.description': 'நிகழ்தகவின் அடிப்படையில் வரிசைப்படுத்தப்பட்ட சாத்தியமான நோய்கள்',
+  'differential.tellApart': 'எப்படி வேறுபடுத்துவது:',
+
+  'outcome.healthy.title': 'உங்கள் தாவரம் ஆரோக்கியமாகத் தெரிகிறது',
+  'outcome.healthy.description': 'நோயின் அறிகுறிகள் எதுவும் தென்படவில்லை',
+  'outcome.keepHealthy': 'ஆரோக்கியமாக வைத்திருங்கள்',
+  'outcome.notAPlant.title': 'இது தாவரம் போலத் தெரியவில்லை',
+  'outcome.notAPlant.description': 'நோயறிதலுக்குப் பாதிக்கப்பட்ட தாவரத்தின் புகைப்படத்தைப் பதிவேற்றவும்',
+  'outcome.unclear.title': 'தாவரத்தைத் தெளிவாகப் பார்க்க முடியவில்லை',
+  'outcome.unclear.description': 'நம்பகமான நோயறிதலுக்குப் புகைப்படம் மிகவும் தெளிவற்றதாக உள்ளது',
+  'outcome.retakeTitle': 'மீண்டும் புகைப்படம் எடுப்பது எப்படி',
+  'outcome.guidance.fill': 'ஒரு இலை அல்லது பாதிக்கப்பட்ட பகுதி சட்டகத்தின் பெரும்பகுதியை நிரப்பும்படி புகைப்படம் எடுக்கவும்.',
+  'outcome.guidance.light': 'பகல் வெளிச்சத்தைப் பயன்படுத்தவும்; கடும் நிழல், ஃபிளாஷ் பளபளப்பு அல்லது பின்னொளியைத் தவிர்க்கவும்.',
+  'outcome.guidance.focus': 'தொலைபேசியை அசையாமல் பிடித்து, படம் எடுக்கும் முன் ஃபோகஸ் செய்ய இலையைத் தட்டவும்.',
+  'outcome.guidance.compare': 'ஒப்பிட்டுப் பார்க்க, சேதமடைந்த பகுதியுடன் சிறிது ஆரோக்கியமான பகுதியையும் சேர்க்கவும்.',
+
+  'images.title.one': 'பகுப்பாய்வு செய்யப்பட்ட தாவரப் புகைப்படம்',
+  'images.title.other': 'பகுப்பாய்வு செய்யப்பட்ட தாவரப் புகைப்படங்கள்',
+  'images.photoAlt': 'பகுப்பாய்வு செய்யப்பட்ட தாவரம், புகைப்படம் {number}',
+  'images.showRegions': 'அறிகுறி பகுதிகளைக் காட்டு',
+
+  'history.title': 'நோயறிதல் வரலாறு',
+  'history.subtitle': 'நீங்கள் பகுப்பாய்வு செய்த ஒவ்வொரு தாவரமும்',
+  'history.newAnalysis': 'புதிய பகுப்பாய்வு',
+  'history.search': 'தேடு',
+  'history.searchPlaceholder': 'நோய், பயிர் அல்லது வயல்',
+  'history.crop': 'பயிர்',
+  'history.cropPlaceholder': 'உள்ளிட்ட அல்லது கண்டறியப்பட்ட பயிர்',
+  'history.severity': 'தீவிரம்',
+  'history.allSeverities': 'அனைத்து தீவிர நிலைகளும்',
+  'history.dateRange': 'தேதி வரம்பு',
+  'history.from': 'தொடக்கத் தேதி',
+  'history.to': 'இறுதித் தேதி',
+  'history.loadFailed': 'நோயறிதல் வரலாற்றை ஏற்ற முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  'history.empty': 'உங்கள் வடிகட்டிகளுக்குப் பொருந்தும் நோயறிதல் எதுவும் இல்லை.',
+  'history.clearFilters': 'வடிகட்டிகளை அழி',
+
+  'share.button': 'பகிர்',
+  'share.title': 'இந்த நோயறிதலைப் பகிர்',
+  'share.description': 'இணைப்பு உள்ள எவரும் இந்த முடிவை தாங்கள் தேர்ந்தெடுக்கும் மொழியில் பார்க்க மட்டுமே முடியும்.',
+  'share.expiryLabel': 'இணைப்பு காலாவதி',
+  'share.expiry.1': '1 நாளுக்குப் பிறகு',
+  'share.expiry.7': '7 நாட்களுக்குப் பிறகு',
+  'share.expiry.30': '30 நாட்களுக்குப் பிறகு',
+  'share.expiry.never': 'ஒருபோதும் இல்லை',
+  'share.create': 'இணைப்பை உருவாக்கு',
+  'share.creating': 'உருவாக்குகிறது...',
+  'share.activeLinks': 'உங்கள் செயலில் உள்ள இணைப்புகள்',
+  'share.copy': 'இணைப்பை நகலெடு',
+  'share.copied': 'இணைப்பு நகலெடுக்கப்பட்டது',
+  'share.shareVia': 'இதன் மூலம் பகிர்...',
+  'share.message': 'PlantCare AI வழங்கும் தாவர நோயறிதல்',
+  'share.expiresOn': '{date} அன்று காலாவதியாகும்',
+  'share.noExpiry': 'காலாவதியாகாது',
+  'share.revoke': 'ரத்து செய்',
+  'share.revoked': 'இணைப்பு ரத்து செய்யப்பட்டது',
+  'shared.readOnly': 'பகிரப்பட்ட நோயறிதல் · பார்வைக்கு மட்டும்',
+  'shared.tryIt': 'உங்கள் தாவரத்தை பகுப்பாய்வு செய்யுங்கள்',
+
+  'detail.back': 'வரலாற்றுக்குத் திரும்பு',
+  'detail.notFound': 'இந்த நோயறிதல் கிடைக்கவில்லை.',
+  'detail.analyzedOn': '{date} அன்று பகுப்பாய்வு செய்யப்பட்டது',
+  'detail.notes': 'விவசாயியின் கவனிப்புகள்',
+
+  'notFound.message': 'மன்னிக்கவும்! பக்கம் கிடைக்கவில்லை',
+  'notFound.home': 'முகப்புக்குத் திரும்பு',
+
+  'error.invalid_request.title': 'கோரிக்கை ஏற்கப்படவில்லை',
+  'error.invalid_request.description':
+    'செயலி முழுமையற்ற கோரிக்கையை அனுப்பியது. பக்கத்தை மீண்டும் ஏற்றி மீண்டும் முயற்சிக்கவும்.',
+  'error.invalid_image.title': 'புகைப்படம் ஆதரிக்கப்படவில்லை',
+  'error.invalid_image.description': 'தாவரத்தின் JPG, PNG அல்லது WEBP புகைப்படத்தைத் தேர்ந்தெடுக்கவும்.',
+  'error.image_too_large.title': 'புகைப்படம் மிகப் பெரியது',
+  'error.image_too_large.description': 'சிறிய புகைப்படத்தைத் தேர்ந்தெடுக்கவும்.',
+  'error.image_not_found.title': 'புகைப்படம் கிடைக்கவில்லை',
+  'error.image_not_found.description': 'பதிவேற்றிய புகைப்படம் கிடைக்கவில்லை. அதை மீண்டும் சேர்க்கவும்.',
+  'error.upload_failed.title': 'பதிவேற்றம் தோல்வியடைந்தது',
+  'error.upload_failed.description':
+    'புகைப்படத்தைப் பதிவேற்ற முடியவில்லை. இணைப்பைச் சரிபார்த்து மீண்டும் முயற்சிக்கவும்.',
+  'error.network_error.title': 'இணைப்பு இல்லை',
+  'error.network_error.description': 'சேவையகத்தை அணுக முடியவில்லை. இணைய இணைப்பைச் சரிபார்த்து மீண்டும் முயற்சிக்கவும்.',
+  'error.rate_limited.title': 'அதிகமான கோரிக்கைகள்',
+  'error.rate_limited.description': 'சேவை பரபரப்பாக உள்ளது. ஒரு நிமிடம் காத்திருந்து மீண்டும் முயற்சிக்கவும்.',
+  'error.payment_required.title': 'சேவை கிடைக்கவில்லை',
+  'error.payment_required.description':
+    'பகுப்பாய்வு சேவையின் கிரெடிட்கள் தீர்ந்துவிட்டன. செயலி நிர்வாகியைத் தொடர்பு கொள்ளவும்.',
+  'error.upstream_unavailable.title': 'சேவை தற்காலிகமாகக் கிடைக்கவில்லை',
+  'error.upstream_unavailable.description':
+    'AI சேவை இப்போது பதிலளிக்கவில்லை. சிறிது நேரம் கழித்து மீண்டும் முயற்சிக்கவும்.',
+  'error.upstream_error.title': 'பகுப்பாய்வு தோல்வியடைந்தது',
+  'error.upstream_error.description':
+    'AI சேவையால் இந்தக் கோரிக்கையைச் செயல்படுத்த முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  'error.upstream_timeout.title': 'பகுப்பாய்வுக்கு அதிக நேரம் ஆனது',
+  'error.upstream_timeout.description': 'AI சேவை சரியான நேரத்தில் பதிலளிக்கவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  'error.model_output_invalid.title': 'முடிவைப் படிக்க முடியவில்லை',
+  'error.model_output_invalid.description': 'AI முழுமையற்ற முடிவை அளித்தது. மீண்டும் முயற்சிக்கவும்.',
+  'error.share_not_found.title': 'இணைப்பு கிடைக்கவில்லை',
+  'error.share_not_found.description': 'இந்த இணைப்பு இல்லை அல்லது பகிர்ந்தவர் அதை ரத்து செய்துவிட்டார்.',
+  'error.share_expired.title': 'இணைப்பு காலாவதியானது',
+  'error.share_expired.description': 'இந்த இணைப்பு காலாவதியாகிவிட்டது. பகிர்ந்தவரிடம் புதிய இணைப்பைக் கேளுங்கள்.',
+  'error.unauthorized.title': 'அமர்வு தேவை',
+  'error.unauthorized.description':
+    'இந்தச் சாதனத்தில் உள்நுழைய முடியவில்லை. உங்கள் இணைப்பைச் சரிபார்த்து மீண்டும் முயற்சிக்கவும்.',
+  'error.forbidden.title': 'அனுமதி இல்லை',
+  'error.forbidden.description':
+    'இந்த நோயறிதலையும் அதன் புகைப்படங்களையும் சேமித்த சாதனம் மட்டுமே இதைச் செய்ய முடியும்.',
+  'error.misconfigured.title': 'சேவை அமைக்கப்படவில்லை',
+  'error.misconfigured.description': 'பகுப்பாய்வு சேவை உள்ளமைக்கப்படவில்லை. செயலி நிர்வாகியைத் தொடர்பு கொள்ளவும்.',
+  'error.internal.title': 'ஏதோ தவறு நடந்தது',
+  'error.internal.description': 'எதிர்பாராத பிழை ஏற்பட்டது. மீண்டும் முயற்சிக்கவும்.',
+  'error.action.retry': 'மீண்டும் முயற்சி',
+  'error.action.choose_photo': 'புகைப்படத்தைத் தேர்ந்தெடு',
+};
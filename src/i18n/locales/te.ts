@@ -0,0 +1,308 @@
+import type { Catalogue } from './en';
+
+export const te: Catalogue = {
+  'app.name': 'PlantCare AI',
+  'app.tagline': 'స్మార్ట్ వ్యాధి గుర్తింపు',
+  'app.footer.copyright': '© 2024 PlantCare AI. ఆధునిక AI సాంకేతికతతో పనిచేస్తుంది.',
+  'app.footer.mission': 'రైతులు మరియు తోటమాలులు తమ పంటలను కాపాడుకోవడంలో సహాయం.',
+  'nav.history': 'చరిత్ర',
+  'language.placeholder': 'భాషను ఎంచుకోండి',
+
+  'home.badge': 'AI ఆధారిత మొక్కల ఆరోగ్య విశ్లేషణ',
+  'home.title': 'మొక్కల వ్యాధులను గుర్తించండి',
+  'home.titleHighlight': 'కొన్ని సెకన్లలో',
+  'home.subtitle':
+    'మీ మొక్క ఫోటోను అప్‌లోడ్ చేసి, మీకు నచ్చిన భాషలో చికిత్స సూచనలతో తక్షణ AI వ్యాధి గుర్తింపును పొందండి.',
+  'home.cropLabel': 'పంట (ఐచ్ఛికం)',
+  'home.cropPlaceholder': 'ఉదా. టమాటా',
+  'home.fieldLabel': 'పొలం లేదా ప్లాట్ (ఐచ్ఛికం)',
+  'home.fieldPlaceholder': 'ఉదా. ఉత్తర పొలం',
+  'home.analyze': 'మొక్కను విశ్లేషించండి',
+  'home.analyzing': 'విశ్లేషిస్తోంది...',
+  'home.feature.detection.title': 'AI ఆధారిత గుర్తింపు',
+  'home.feature.detection.description': 'ఆధునిక కంప్యూటర్ విజన్ మొక్క ఆరోగ్యాన్ని అధిక ఖచ్చితత్వంతో విశ్లేషిస్తుంది',
+  'home.feature.languages.title': 'బహుభాషా మద్దతు',
+  'home.feature.languages.description': 'సులభంగా అర్థం చేసుకోవడానికి 9 భారతీయ భాషల్లో ఫలితాలు పొందండి',
+  'home.feature.treatment.title': 'చికిత్స ప్రణాళికలు',
+  'home.feature.treatment.description': 'వివరమైన చికిత్స మరియు నివారణ సూచనలు పొందండి',
+  'home.retakePhoto': '← మళ్లీ ఫోటో తీయండి',
+  'home.analyzeAnother': '← మరో మొక్కను విశ్లేషించండి',
+  'home.cachedResult': 'సేవ్ చేసిన ఫలితం',
+  'home.freshAnalysis': 'కొత్త విశ్లేషణ చేయండి',
+  'home.noImage.title': 'ఫోటో ఎంచుకోలేదు',
+  'home.noImage.description': 'దయచేసి ముందుగా మొక్క ఫోటోను అప్‌లోడ్ చేయండి.',
+
+  'analysis.diseased.title': 'విశ్లేషణ పూర్తయింది',
+  'analysis.diseased.description': 'మొక్క వ్యాధి విజయవంతంగా విశ్లేషించబడింది.',
+  'analysis.healthy.title': 'విశ్లేషణ పూర్తయింది',
+  'analysis.healthy.description': 'మీ మొక్కపై వ్యాధి లక్షణాలు ఏవీ కనిపించలేదు.',
+  'analysis.not_a_plant.title': 'మొక్క కనబడలేదు',
+  'analysis.not_a_plant.description': 'మీరు పరీక్షించాలనుకుంటున్న మొక్క ఫోటోను అప్‌లోడ్ చేయండి.',
+  'analysis.unclear_image.title': 'ఫోటో స్పష్టంగా లేదు',
+  'analysis.unclear_image.description': 'చూపిన సూచనలను అనుసరించి మళ్లీ ఫోటో తీయండి.',
+
+  'upload.dropTitle': 'మీ మొక్క ఫోటోలను ఇక్కడ వదలండి',
+  'upload.dropSubtitle': 'లేదా మీ పరికరం నుండి ఎంచుకోవడానికి క్లిక్ చేయండి',
+  'upload.dropHint': 'ఒకే మొక్క యొక్క {max} ఫోటోల వరకు: ఆకు పైభాగం మరియు అడుగుభాగం, కాండం, పండు, మొత్తం మొక్క',
+  'upload.formats': 'మద్దతు ఉన్నవి: JPG, PNG, WEBP',
+  'upload.addAnother': 'మరో ఫోటో జోడించండి',
+  'upload.remaining': 'ఇంకా {count}',
+  'upload.photoNumber': 'ఫోటో {number}',
+  'upload.keepLocation': 'ఫోటో GPS స్థానాన్ని ఉంచండి (గోప్యత కోసం డిఫాల్ట్‌గా తొలగించబడుతుంది)',
+  'upload.tooMany.title': 'చాలా ఎక్కువ ఫోటోలు',
+  'upload.tooMany.description': 'ఒక మొక్కకు గరిష్టంగా {max} ఫోటోలు జోడించవచ్చు.',
+
+  'imageLabel.leaf_top': 'ఆకు (పైభాగం)',
+  'imageLabel.leaf_underside': 'ఆకు (అడుగుభాగం)',
+  'imageLabel.stem': 'కాండం',
+  'imageLabel.fruit': 'పండు',
+  'imageLabel.whole_plant': 'మొత్తం మొక్క',
+  'imageLabel.other': 'ఇతరం',
+
+  'voiceNote.label': 'మీ పరిశీలనలు (ఐచ్ఛికం)',
+  'voiceNote.placeholder': 'ఉదా. గత వారం వర్షం తర్వాత మొదలైంది, పక్క మొక్కలకు వ్యాపిస్తోంది',
+  'voiceNote.record': 'వాయిస్ నోట్ రికార్డ్ చేయండి',
+  'voiceNote.stop': 'రికార్డింగ్ ఆపండి',
+  'voiceNote.listening': 'వింటోంది… ఇప్పుడు మాట్లాడండి',
+  'voiceNote.unsupported': 'ఈ బ్రౌజర్‌లో వాయిస్‌తో రాసే సౌకర్యం అందుబాటులో లేదు. మీ పరిశీలనలను టైప్ చేయవచ్చు.',
+  'voiceNote.error.denied':
+    'మైక్రోఫోన్ అనుమతి లభించలేదు. నోట్ రికార్డ్ చేయడానికి బ్రౌజర్ సెట్టింగ్‌లలో అనుమతి ఇవ్వండి.',
+  'voiceNote.error.language':
+    'ఈ పరికరంలో {language} భాషలో వాయిస్‌తో రాసే సౌకర్యం అందుబాటులో లేదు. మీ పరిశీలనలను టైప్ చేయవచ్చు.',
+  'voiceNote.error.noSpeech': 'ఏ మాటా వినిపించలేదు. మైక్రోఫోన్‌కు దగ్గరగా వచ్చి మళ్లీ ప్రయత్నించండి.',
+  'voiceNote.error.failed':
+    'వాయిస్ ఇన్‌పుట్ అనుకోకుండా ఆగిపోయింది. మళ్లీ ప్రయత్నించండి లేదా మీ పరిశీలనలను టైప్ చేయండి.',
+
+  'fieldContext.title': 'పొలం వివరాలు (ఐచ్ఛికం)',
+  'fieldContext.description': 'దీనివల్ల చికిత్స మీ పంట దశకు, ప్రాంతానికి తగినట్లు సూచించబడుతుంది',
+  'fieldContext.variety': 'రకం',
+  'fieldContext.varietyPlaceholder': 'ఉదా. అర్కా రక్షక్',
+  'fieldContext.growthStage': 'పెరుగుదల దశ',
+  'fieldContext.daysSinceSowing': 'విత్తిన లేదా నాటిన తర్వాత రోజులు',
+  'fieldContext.weather': 'ఇటీవలి వాతావరణం',
+  'fieldContext.irrigation': 'నీటిపారుదల',
+  'fieldContext.recentSprays': 'ఇటీవలి పిచికారీలు లేదా ఎరువులు',
+  'fieldContext.recentSpraysPlaceholder': 'ఉదా. 5 రోజుల క్రితం మాంకోజెబ్, గత వారం యూరియా',
+  'fieldContext.district': 'జిల్లా',
+  'fieldContext.districtPlaceholder': 'ఉదా. గుంటూరు',
+  'fieldContext.state': 'రాష్ట్రం',
+  'fieldContext.statePlaceholder': 'ఉదా. ఆంధ్రప్రదేశ్',
+  'fieldContext.select': 'ఎంచుకోండి',
+  'fieldContext.clear': 'వివరాలను తొలగించండి',
+  'fieldContext.error.tooLong': 'గరిష్ఠంగా {max} అక్షరాలు ఉపయోగించండి',
+  'fieldContext.error.days': '0 నుండి {max} వరకు రోజుల పూర్ణ సంఖ్యను నమోదు చేయండి',
+
+  'camera.takePhoto': 'ఫోటో తీయండి',
+  'camera.title': 'ఫోటో తీయండి',
+  'camera.description': 'ప్రభావిత ఆకును ఫ్రేమ్‌లో ఉంచి ఫోన్‌ను కదలకుండా పట్టుకోండి.',
+  'camera.error': 'కెమెరా ప్రారంభం కాలేదు. కెమెరా అనుమతి ఇవ్వండి లేదా ఫోన్ కెమెరాను ఉపయోగించండి.',
+  'camera.openPhoneCamera': 'ఫోన్ కెమెరా తెరవండి',
+  'camera.capturedAlt': 'తీసిన మొక్క ఫోటో',
+  'camera.torchOn': 'టార్చ్ ఆన్ చేయండి',
+  'camera.torchOff': 'టార్చ్ ఆఫ్ చేయండి',
+  'camera.retake': 'మళ్లీ తీయండి',
+  'camera.usePhoto': 'ఫోటో ఉపయోగించండి',
+  'camera.capture': 'క్యాప్చర్',
+
+  'results.title': 'విశ్లేషణ ఫలితాలు',
+  'results.generating': 'రూపొందిస్తోంది...',
+  'results.downloadPdf': 'PDF నివేదిక డౌన్‌లోడ్ చేయండి',
+  'results.selectLanguage': 'భాషను ఎంచుకోండి',
+  'results.bilingual': 'ద్విభాషా నివేదిక',
+  'results.bilingualOption': 'ఇంగ్లీష్ + {language}',
+  'results.exportData': 'డేటాను ఎగుమతి చేయండి',
+  'results.format.json': 'JSON (డేటా)',
+  'results.format.csv': 'CSV (స్ప్రెడ్‌షీట్)',
+  'results.format.markdown': 'Markdown',
+  'results.format.html': 'HTML (వెబ్ పేజీ)',
+  'results.exported.title': 'ఎగుమతి డౌన్‌లోడ్ అయింది',
+  'results.exported.description': '{format} ఫైల్ సేవ్ అయింది',
+  'results.reportLanguage': 'నివేదిక భాష:',
+  'results.confidence': 'విశ్వాస స్థాయి',
+  'results.severity': 'వ్యాధి తీవ్రత',
+  'results.spreadRate': 'వ్యాప్తి వేగం:',
+  'results.symptoms': 'లక్షణాలు',
+  'results.affectedParts': 'ప్రభావిత భాగాలు',
+  'results.causes': 'కారణాలు',
+  'results.treatment': 'చికిత్స',
+  'results.prevention': 'నివారణ',
+  'results.translating.title': 'అనువదిస్తోంది...',
+  'results.translating.description': '{language} భాషలో నివేదిక రూపొందిస్తోంది',
+  'results.pdfDownloaded.title': 'PDF డౌన్‌లోడ్ అయింది',
+  'results.pdfDownloaded.description': '{language} భాషలో నివేదిక రూపొందించబడింది',
+
+  'crop.label': 'పంట',
+  'crop.mismatch.title': 'ఇది సరైన పంటేనా?',
+  'crop.mismatch.description':
+    'మీరు {reported} అని నమోదు చేశారు, కానీ ఫోటోలు {crop} లా కనిపిస్తున్నాయి. పంట పేరును తనిఖీ చేయండి, లేదా ఫోటోల్లో తప్పు మొక్క ఉంటే మళ్లీ తీయండి.',
+
+  'speech.listen': 'వినండి',
+  'speech.pause': 'పాజ్ చేయండి',
+  'speech.resume': 'కొనసాగించండి',
+  'speech.stop': 'ఆపండి',
+  'speech.previous': 'మునుపటి విభాగం',
+  'speech.next': 'తదుపరి విభాగం',
+  'speech.speed': 'చదివే వేగం',
+  'speech.unavailable.title': 'వినే సౌకర్యం అందుబాటులో లేదు',
+  'speech.unavailable.noVoice':
+    'ఈ పరికరంలో {language} స్వరం ఇన్‌స్టాల్ చేయబడలేదు. నివేదికను వినడానికి ఫోన్ టెక్స్ట్-టు-స్పీచ్ సెట్టింగ్‌లలో దాన్ని జోడించండి.',
+  'speech.unavailable.unsupported':
+    'ఈ బ్రౌజర్ వచనాన్ని చదివి వినిపించలేదు. Chrome లేదా ఫోన్ డిఫాల్ట్ బ్రౌజర్‌ను ప్రయత్నించండి.',
+
+  'report.title': 'మొక్క ఆరోగ్య నివేదిక',
+  'report.date': 'తేదీ: {date}',
+  'report.id': 'నివేదిక ఐడి: {id}',
+  'report.page': 'పేజీ {page} / {total}',
+  'report.photos': 'ఫోటోలు',
+  'report.severity': 'తీవ్రత: {value}',
+  'report.spreadRate': 'వ్యాప్తి రేటు: {value}',
+  'report.crop': 'పంట: {name} ({confidence}%)',
+  'report.affectedArea': 'ప్రభావిత ప్రాంతం: {percent}% (గ్రేడ్ {grade} / {max})',
+
+  'severity.low': 'తక్కువ',
+  'severity.moderate': 'మధ్యస్థం',
+  'severity.high': 'ఎక్కువ',
+  'severity.critical': 'తీవ్రం',
+
+  'severityScale.description': 'కనిపించే ఆకు లేదా కణజాలంలో లక్షణాలు ఉన్న భాగం',
+  'severityScale.grade': 'గ్రేడ్ {grade} / {max}',
+  'severityScale.none': 'ఏదీ లేదు',
+  'severityScale.range': '{min}–{max}%',
+  'severityScale.notEstimated': 'ఈ నిర్ధారణకు ప్రభావిత ప్రాంతం అంచనా వేయలేదు.',
+
+  'spreadRate.low': 'నెమ్మది',
+  'spreadRate.moderate': 'మధ్యస్థం',
+  'spreadRate.high': 'వేగం',
+
+  'growthStage.seedling': 'మొలక',
+  'growthStage.vegetative': 'శాఖీయ పెరుగుదల',
+  'growthStage.flowering': 'పూత',
+  'growthStage.fruiting': 'కాయ లేదా గింజ నిండే దశ',
+  'growthStage.maturity': 'పక్వానికి వచ్చింది, కోతకు దగ్గర',
+  'weather.dry': 'పొడి',
+  'weather.hot': 'వేడి',
+  'weather.rainy': 'వర్షం',
+  'weather.humid': 'తేమ',
+  'weather.cold': 'చలి',
+  'weather.foggy': 'పొగమంచు',
+  'irrigation.rainfed': 'వర్షాధారం',
+  'irrigation.flood': 'వరద పారుదల',
+  'irrigation.furrow': 'బోదె పారుదల',
+  'irrigation.drip': 'బిందు సేద్యం',
+  'irrigation.sprinkler': 'తుంపర సేద్యం',
+
+  'kind.diseased': 'వ్యాధిగ్రస్తం',
+  'kind.healthy': 'ఆరోగ్యకరమైన మొక్క',
+  'kind.not_a_plant': 'మొక్క కాదు',
+  'kind.unclear_image': 'అస్పష్టమైన ఫోటో',
+
+  'differential.title': 'భేదాత్మక నిర్ధారణ',
+  'differential.description': 'సంభావ్యత ప్రకారం క్రమబద్ధీకరించిన అత్యంత సంభావ్య వ్యాధులు',
+  'differential.tellApart': 'ఎలా వేరుగా గుర్తించాలి:',
+
+  'outcome.healthy.title': 'మీ మొక్క ఆరోగ్యంగా కనిపిస్తోంది',
+  'outcome.healthy.description': 'వ్యాధి యొక్క కనిపించే లక్షణాలు ఏవీ లేవు',
+  'outcome.keepHealthy': 'ఆరోగ్యంగా ఉంచండి',
+  'outcome.notAPlant.title': 'ఇది మొక్కలా కనిపించడం లేదు',
+  'outcome.notAPlant.description': 'నిర్ధారణ కోసం ప్రభావిత మొక్క ఫోటోను అప్‌లోడ్ చేయండి',
+  'outcome.unclear.title': 'మొక్క స్పష్టంగా కనిపించలేదు',
+  'outcome.unclear.description': 'నమ్మదగిన నిర్ధారణకు ఫోటో చాలా అస్పష్టంగా ఉంది',
+  'outcome.retakeTitle': 'మళ్లీ ఫోటో ఎలా తీయాలి',
+  'outcome.guidance.fill': 'ఒకే ఆకు లేదా ప్రభావిత భాగం ఫ్రేమ్‌లో ఎక్కువ భాగం నిండేలా ఫోటో తీయండి.',
+  'outcome.guidance.light': 'పగటి వెలుతురు ఉపయోగించండి; గాఢమైన నీడలు, ఫ్లాష్ మెరుపు లేదా వెనుక వెలుతురును నివారించండి.',
+  'outcome.guidance.focus': 'ఫోన్‌ను కదలకుండా పట్టుకుని, ఫోటో తీసే ముందు ఫోకస్ కోసం ఆకుపై నొక్కండి.',
+  'outcome.guidance.compare': 'పోల్చడానికి దెబ్బతిన్న భాగంతో పాటు కొంత ఆరోగ్యకరమైన భాగాన్ని కూడా చేర్చండి.',
+
+  'images.title.one': 'విశ్లేషించిన మొక్క ఫోటో',
+  'images.title.other': 'విశ్లేషించిన మొక్క ఫోటోలు',
+  'images.photoAlt': 'విశ్లేషించిన మొక్క, ఫోటో {number}',
+  'images.showRegions': 'లక్షణ ప్రాంతాలను చూపించు',
+
+  'history.title': 'నిర్ధారణ చరిత్ర',
+  'history.subtitle': 'మీరు విశ్లేషించిన ప్రతి మొక్క',
+  'history.newAnalysis': 'కొత్త విశ్లేషణ',
+  'history.search': 'వెతకండి',
+  'history.searchPlaceholder': 'వ్యాధి, పంట లేదా పొలం',
+  'history.crop': 'పంట',
+  'history.cropPlaceholder': 'నమోదు చేసిన లేదా గుర్తించిన పంట',
+  'history.severity': 'తీవ్రత',
+  'history.allSeverities': 'అన్ని తీవ్రతలు',
+  'history.dateRange': 'తేదీ పరిధి',
+  'history.from': 'ప్రారంభ తేదీ',
+  'history.to': 'ముగింపు తేదీ',
+  'history.loadFailed': 'నిర్ధారణ చరిత్రను లోడ్ చేయలేకపోయాం. దయచేసి మళ్లీ ప్రయత్నించండి.',
+  'history.empty': 'మీ ఫిల్టర్‌లకు సరిపోయే నిర్ధారణలు ఏవీ లేవు.',
+  'history.clearFilters': 'ఫిల్టర్‌లను తొలగించండి',
+
+  'share.button': 'పంచుకోండి',
+  'share.title': 'ఈ నిర్ధారణను పంచుకోండి',
+  'share.description': 'లింక్ ఉన్న ఎవరైనా ఈ ఫలితాన్ని తాము ఎంచుకున్న భాషలో చూడగలరు, మార్చలేరు.',
+  'share.expiryLabel': 'లింక్ గడువు',
+  'share.expiry.1': '1 రోజు తర్వాత',
+  'share.expiry.7': '7 రోజుల తర్వాత',
+  'share.expiry.30': '30 రోజుల తర్వాత',
+  'share.expiry.never': 'ఎప్పటికీ కాదు',
+  'share.create': 'లింక్ సృష్టించండి',
+  'share.creating': 'సృష్టిస్తోంది...',
+  'share.activeLinks': 'మీ సక్రియ లింక్‌లు',
+  'share.copy': 'లింక్ కాపీ చేయండి',
+  'share.copied': 'లింక్ కాపీ అయింది',
+  'share.shareVia': 'దీని ద్వారా పంచుకోండి...',
+  'share.message': 'PlantCare AI నుండి మొక్క నిర్ధారణ',
+  'share.expiresOn': '{date}న గడువు ముగుస్తుంది',
+  'share.noExpiry': 'గడువు ముగియదు',
+  'share.revoke': 'రద్దు చేయండి',
+  'share.revoked': 'లింక్ రద్దు చేయబడింది',
+  'shared.readOnly': 'పంచుకున్న నిర్ధారణ · చదవడానికి మాత్రమే',
+  'shared.tryIt': 'మీ మొక్కను విశ్లేషించండి',
+
+  'detail.back': 'చరిత్రకు తిరిగి వెళ్లండి',
+  'detail.notFound': 'ఈ నిర్ధారణ కనబడలేదు.',
+  'detail.analyzedOn': '{date} న విశ్లేషించబడింది',
+  'detail.notes': 'రైతు పరిశీలనలు',
+
+  'notFound.message': 'క్షమించండి! పేజీ కనబడలేదు',
+  'notFound.home': 'హోమ్‌కు తిరిగి వెళ్లండి',
+
+  'error.invalid_request.title': 'అభ్యర్థన అంగీకరించబడలేదు',
+  'error.invalid_request.description': 'యాప్ అసంపూర్ణ అభ్యర్థనను పంపింది. పేజీని మళ్లీ లోడ్ చేసి మళ్లీ ప్రయత్నించండి.',
+  'error.invalid_image.title': 'ఫోటోకు మద్దతు లేదు',
+  'error.invalid_image.description': 'దయచేసి మొక్క యొక్క JPG, PNG లేదా WEBP ఫోటోను ఎంచుకోండి.',
+  'error.image_too_large.title': 'ఫోటో చాలా పెద్దది',
+  'error.image_too_large.description': 'దయచేసి చిన్న ఫోటోను ఎంచుకోండి.',
+  'error.image_not_found.title': 'ఫోటో కనబడలేదు',
+  'error.image_not_found.description': 'అప్‌లోడ్ చేసిన ఫోటో కనబడలేదు. దయచేసి దాన్ని మళ్లీ జోడించండి.',
+  'error.upload_failed.title': 'అప్‌లోడ్ విఫలమైంది',
+  'error.upload_failed.description': 'ఫోటోను అప్‌లోడ్ చేయలేకపోయాం. మీ కనెక్షన్‌ను తనిఖీ చేసి మళ్లీ ప్రయత్నించండి.',
+  'error.network_error.title': 'కనెక్షన్ లేదు',
+  'error.network_error.description':
+    'సర్వర్‌ను చేరుకోలేకపోయాం. మీ ఇంటర్నెట్ కనెక్షన్‌ను తనిఖీ చేసి మళ్లీ ప్రయత్నించండి.',
+  'error.rate_limited.title': 'చాలా ఎక్కువ అభ్యర్థనలు',
+  'error.rate_limited.description': 'సేవ బిజీగా ఉంది. దయచేసి ఒక నిమిషం ఆగి మళ్లీ ప్రయత్నించండి.',
+  'error.payment_required.title': 'సేవ అందుబాటులో లేదు',
+  'error.payment_required.description': 'విశ్లేషణ సేవ క్రెడిట్‌లు అయిపోయాయి. దయచేసి యాప్ నిర్వాహకుడిని సంప్రదించండి.',
+  'error.upstream_unavailable.title': 'సేవ తాత్కాలికంగా అందుబాటులో లేదు',
+  'error.upstream_unavailable.description':
+    'AI సేవ ప్రస్తుతం స్పందించడం లేదు. దయచేసి కాసేపటి తర్వాత మళ్లీ ప్రయత్నించండి.',
+  'error.upstream_error.title': 'విశ్లేషణ విఫలమైంది',
+  'error.upstream_error.description': 'AI సేవ ఈ అభ్యర్థనను పూర్తి చేయలేకపోయింది. దయచేసి మళ్లీ ప్రయత్నించండి.',
+  'error.upstream_timeout.title': 'విశ్లేషణకు చాలా సమయం పట్టింది',
+  'error.upstream_timeout.description': 'AI సేవ సమయానికి సమాధానం ఇవ్వలేదు. దయచేసి మళ్లీ ప్రయత్నించండి.',
+  'error.model_output_invalid.title': 'ఫలితాన్ని చదవలేకపోయాం',
+  'error.model_output_invalid.description': 'AI అసంపూర్ణ ఫలితాన్ని ఇచ్చింది. దయచేసి మళ్లీ ప్రయత్నించండి.',
+  'error.share_not_found.title': 'లింక్ కనుగొనబడలేదు',
+  'error.share_not_found.description': 'ఈ లింక్ లేదు లేదా పంచుకున్న వ్యక్తి దీన్ని రద్దు చేశారు.',
+  'error.share_expired.title': 'లింక్ గడువు ముగిసింది',
+  'error.share_expired.description': 'ఈ లింక్ గడువు ముగిసింది. పంచుకున్న వ్యక్తిని కొత్త లింక్ అడగండి.',
+  'error.unauthorized.title': 'సెషన్ అవసరం',
+  'error.unauthorized.description':
+    'ఈ పరికరాన్ని సైన్ ఇన్ చేయలేకపోయాము. మీ కనెక్షన్‌ను తనిఖీ చేసి మళ్లీ ప్రయత్నించండి.',
+  'error.forbidden.title': 'అనుమతి లేదు',
+  'error.forbidden.description': 'ఈ నిర్ధారణను మరియు దాని ఫోటోలను సేవ్ చేసిన పరికరం మాత్రమే ఇది చేయగలదు.',
+  'error.misconfigured.title': 'సేవ సెటప్ చేయబడలేదు',
+  'error.misconfigured.description': 'విశ్లేషణ సేవ కాన్ఫిగర్ చేయబడలేదు. దయచేసి యాప్ నిర్వాహకుడిని సంప్రదించండి.',
+  'error.internal.title': 'ఏదో పొరపాటు జరిగింది',
+  'error.internal.description': 'ఊహించని లోపం సంభవించింది. దయచేసి మళ్లీ ప్రయత్నించండి.',
+  'error.action.retry': 'మళ్లీ ప్రయత్నించండి',
+  'error.action.choose_photo': 'ఫోటో ఎంచుకోండి',
+};
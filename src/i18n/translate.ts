@@ -0,0 +1,65 @@
+import { DEFAULT_LANGUAGE, getLanguage, languages, type LanguageCode } from './languages';
+import { en, type Catalogue, type MessageKey } from './locales/en';
+import { hi } from './locales/hi';
+import { kn } from './locales/kn';
+import { ta } from './locales/ta';
+import { ml } from './locales/ml';
+import { te } from './locales/te';
+import { bn } from './locales/bn';
+import { mr } from './locales/mr';
+import { gu } from './locales/gu';
+
+export type { MessageKey } from './locales/en';
+
+export type TranslationParams = Record<string, string | number>;
+
+export type Translator = (key: MessageKey, params?: TranslationParams) => string;
+
+const catalogues: Record<LanguageCode, Catalogue> = { en, kn, ta, ml, te, hi, bn, mr, gu };
+
+const reportedMissing = new Set<string>();
+
+const warnMissing = (language: string, key: MessageKey) => {
+  const id = `${language}:${key}`;
+  if (!import.meta.env.DEV || reportedMissing.has(id)) return;
+  reportedMissing.add(id);
+  console.warn(`[i18n] Missing "${key}" in "${language}", using English.`);
+};
+
+const interpolate = (message: string, params?: TranslationParams) =>
+  params ? message.replace(/\{(\w+)\}/g, (match, name: string) => String(params[name] ?? match)) : message;
+
+// Looks a key up in the given language, falling back to English (and to the
+// English catalogue entirely for unknown language codes).
+export const translate = (language: string, key: MessageKey, params?: TranslationParams): string => {
+  const catalogue = catalogues[language as LanguageCode];
+  const message = catalogue?.[key];
+  if (message === undefined && catalogue && language !== DEFAULT_LANGUAGE) warnMissing(language, key);
+  return interpolate(message ?? en[key], params);
+};
+
+export const createTranslator =
+  (language: string): Translator =>
+  (key, params) =>
+    translate(language, key, params);
+
+export const getMissingKeys = (language: LanguageCode): MessageKey[] => {
+  const catalogue = catalogues[language];
+  return (Object.keys(en) as MessageKey[]).filter((key) => catalogue[key] === undefined);
+};
+
+// Logs one line per catalogue that lags behind English. Called once at start-up
+// in development so untranslated strings show up before users see them.
+export const reportMissingKeys = () => {
+  for (const { code, name } of languages) {
+    const missing = getMissingKeys(code);
+    if (missing.length > 0) {
+      console.warn(`[i18n] ${name} (${code}) is missing ${missing.length} key(s):`, missing);
+    }
+  }
+};
+
+export const formatDateTime = (date: string | number | Date, language: string) =>
+  new Intl.DateTimeFormat(getLanguage(language)?.locale ?? language, { dateStyle: 'medium', timeStyle: 'short' }).format(
+    new Date(date)
+  );
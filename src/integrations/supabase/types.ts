@@ -14,7 +14,131 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      diagnosis_cache: {
+        Row: {
+          created_at: string
+          expires_at: string
+          id: string
+          image_hash: string
+          language: string
+          prompt_version: number
+          result: Json
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          id?: string
+          image_hash: string
+          language: string
+          prompt_version: number
+          result: Json
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          image_hash?: string
+          language?: string
+          prompt_version?: number
+          result?: Json
+        }
+        Relationships: []
+      }
+      diagnosis_shares: {
+        Row: {
+          created_at: string
+          diagnosis_id: string
+          expires_at: string | null
+          id: string
+          revoke_token_hash: string
+          revoked_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          diagnosis_id: string
+          expires_at?: string | null
+          id: string
+          revoke_token_hash: string
+          revoked_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          diagnosis_id?: string
+          expires_at?: string | null
+          id?: string
+          revoke_token_hash?: string
+          revoked_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "diagnosis_shares_diagnosis_id_fkey"
+            columns: ["diagnosis_id"]
+            isOneToOne: false
+            referencedRelation: "diagnoses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      diagnoses: {
+        Row: {
+          created_at: string
+          crop: string | null
+          disease_name: string | null
+          field_name: string | null
+          id: string
+          identified_crop: string | null
+          identified_crop_scientific: string | null
+          image_path: string
+          images: Json
+          kind: string
+          language: string
+          notes: string | null
+          owner_id: string | null
+          result: Json
+          schema_version: number
+          severity: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          crop?: string | null
+          disease_name?: string | null
+          field_name?: string | null
+          id?: string
+          identified_crop?: string | null
+          identified_crop_scientific?: string | null
+          image_path: string
+          images?: Json
+          kind: string
+          language: string
+          notes?: string | null
+          owner_id?: string | null
+          result: Json
+          schema_version: number
+          severity?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          crop?: string | null
+          disease_name?: string | null
+          field_name?: string | null
+          id?: string
+          identified_crop?: string | null
+          identified_crop_scientific?: string | null
+          image_path?: string
+          images?: Json
+          kind?: string
+          language?: string
+          notes?: string | null
+          owner_id?: string | null
+          result?: Json
+          schema_version?: number
+          severity?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
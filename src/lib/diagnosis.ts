@@ -0,0 +1,55 @@
+import { supabase } from '@/integrations/supabase/client';
+import { AppError, toFunctionError } from '@/lib/errors';
+import { ensureDeviceUser } from '@/lib/session';
+import {
+  diagnosisResponseSchema,
+  type Diagnosis,
+  type DiagnosisResponse,
+} from '../../supabase/functions/_shared/diagnosis.ts';
+import type { AnalysisImage } from '../../supabase/functions/_shared/images.ts';
+import type { FieldContext } from '../../supabase/functions/_shared/field-context.ts';
+
+export * from '../../supabase/functions/_shared/diagnosis.ts';
+export { MAX_NOTES_LENGTH } from '../../supabase/functions/_shared/notes.ts';
+
+export const parseDiagnosisResponse = (data: unknown): DiagnosisResponse => {
+  const parsed = diagnosisResponseSchema.safeParse(data);
+  if (!parsed.success) {
+    console.error('Unexpected diagnosis response:', parsed.error.issues);
+    throw new AppError('internal', 'Received an unexpected response from the analysis service.');
+  }
+  return parsed.data;
+};
+
+const invokeDiagnosisFunction = async (name: string, body: Record<string, unknown>): Promise<DiagnosisResponse> => {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error) {
+    throw await toFunctionError(error, 'Failed to analyze the plant image.');
+  }
+
+  return parseDiagnosisResponse(data);
+};
+
+export interface AnalyzeOptions {
+  // What the farmer said or typed about the plant
+  notes?: string;
+  fieldContext?: FieldContext;
+  forceRefresh?: boolean;
+}
+
+// Identical photos, notes and field details in the same language are answered
+// from the server-side cache; forceRefresh skips it and always asks the model.
+export const analyzePlantImages = (
+  images: AnalysisImage[],
+  language: string,
+  { notes, fieldContext, forceRefresh = false }: AnalyzeOptions = {}
+) => invokeDiagnosisFunction('analyze-plant-disease', { images, language, notes, fieldContext, forceRefresh });
+
+// Translates the text of an existing diagnosis without re-running the image
+// analysis, so confidence, severity and spread rate stay identical.
+// Someone opening a share link may not have a session yet, so one is started.
+export const translateDiagnosis = async (diagnosis: Diagnosis, language: string) => {
+  await ensureDeviceUser();
+  return (await invokeDiagnosisFunction('translate-diagnosis', { diagnosis, language })).diagnosis;
+};
@@ -0,0 +1,42 @@
+import { translate } from '@/i18n/translate';
+import { getErrorCode, type ErrorCode } from '@/lib/errors';
+
+// What the user can do about an error, offered as a button on the toast
+export type RecoveryAction = 'retry' | 'choose_photo';
+
+const recoveryActions: Partial<Record<ErrorCode, RecoveryAction>> = {
+  invalid_image: 'choose_photo',
+  image_too_large: 'choose_photo',
+  image_not_found: 'choose_photo',
+  upload_failed: 'retry',
+  network_error: 'retry',
+  rate_limited: 'retry',
+  upstream_unavailable: 'retry',
+  upstream_error: 'retry',
+  upstream_timeout: 'retry',
+  model_output_invalid: 'retry',
+  unauthorized: 'retry',
+  internal: 'retry',
+};
+
+export interface DescribedError {
+  code: ErrorCode;
+  title: string;
+  description: string;
+  action?: RecoveryAction;
+  actionLabel?: string;
+}
+
+// Turns anything thrown into a message in the user's language, falling back to
+// English for languages without translations.
+export const describeError = (error: unknown, language: string, fallback?: ErrorCode): DescribedError => {
+  const code = getErrorCode(error, fallback);
+  const action = recoveryActions[code];
+  return {
+    code,
+    title: translate(language, `error.${code}.title`),
+    description: translate(language, `error.${code}.description`),
+    action,
+    actionLabel: action && translate(language, `error.action.${action}`),
+  };
+};
@@ -0,0 +1,27 @@
+import { FunctionsFetchError, FunctionsHttpError, FunctionsRelayError } from '@supabase/supabase-js';
+import { AppError, errorBodySchema, type ErrorCode } from '../../supabase/functions/_shared/errors.ts';
+
+export * from '../../supabase/functions/_shared/errors.ts';
+
+// Reduces anything thrown to a code the UI can describe. Errors without a code
+// fall back to the caller's best guess, e.g. invalid_image while decoding a photo.
+export const getErrorCode = (error: unknown, fallback: ErrorCode = 'internal'): ErrorCode => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return 'network_error';
+  if (error instanceof AppError) return error.code;
+  if (error instanceof FunctionsFetchError || error instanceof FunctionsRelayError) return 'network_error';
+  return fallback;
+};
+
+// Edge function errors arrive as a non-2xx Response; turn the JSON error
+// envelope into an AppError so the UI can show a message for its code.
+export const toFunctionError = async (error: unknown, fallbackMessage: string): Promise<Error> => {
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const body = errorBodySchema.safeParse(await error.context.json());
+      if (body.success) return new AppError(body.data.code, body.data.error);
+    } catch {
+      // Fall through to the original error
+    }
+  }
+  return error instanceof Error ? error : new Error(fallbackMessage);
+};
@@ -0,0 +1,163 @@
+// Minimal EXIF support for the upload pipeline: read the GPS position from a
+// JPEG and write it back into a re-encoded JPEG when the user opts in. Every
+// other tag is deliberately dropped.
+
+export interface GpsPosition {
+  latitude: number;
+  longitude: number;
+}
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+const GPS_IFD_POINTER = 0x8825;
+
+const readRational = (view: DataView, offset: number, little: boolean) => {
+  const denominator = view.getUint32(offset + 4, little);
+  return denominator === 0 ? 0 : view.getUint32(offset, little) / denominator;
+};
+
+const readCoordinate = (view: DataView, offset: number, little: boolean) =>
+  readRational(view, offset, little) +
+  readRational(view, offset + 8, little) / 60 +
+  readRational(view, offset + 16, little) / 3600;
+
+const findExifSegment = (view: DataView): number | null => {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    // Start of scan: image data follows, no more metadata segments
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) return null;
+
+    const length = view.getUint16(offset + 2);
+    const isExif =
+      marker === 0xffe1 &&
+      EXIF_HEADER.every((byte, index) => view.getUint8(offset + 4 + index) === byte);
+    if (isExif) return offset + 4 + EXIF_HEADER.length;
+
+    offset += 2 + length;
+  }
+  return null;
+};
+
+export const readGpsPosition = (buffer: ArrayBuffer): GpsPosition | null => {
+  try {
+    const view = new DataView(buffer);
+    const tiff = findExifSegment(view);
+    if (tiff === null) return null;
+
+    const little = view.getUint16(tiff) === 0x4949;
+    const ifd0 = tiff + view.getUint32(tiff + 4, little);
+
+    let gpsIfd: number | null = null;
+    const ifd0Entries = view.getUint16(ifd0, little);
+    for (let i = 0; i < ifd0Entries; i++) {
+      const entry = ifd0 + 2 + i * 12;
+      if (view.getUint16(entry, little) === GPS_IFD_POINTER) {
+        gpsIfd = tiff + view.getUint32(entry + 8, little);
+      }
+    }
+    if (gpsIfd === null) return null;
+
+    let latitudeRef = 'N';
+    let longitudeRef = 'E';
+    let latitude: number | null = null;
+    let longitude: number | null = null;
+
+    const gpsEntries = view.getUint16(gpsIfd, little);
+    for (let i = 0; i < gpsEntries; i++) {
+      const entry = gpsIfd + 2 + i * 12;
+      const tag = view.getUint16(entry, little);
+      const valueOffset = tiff + view.getUint32(entry + 8, little);
+      if (tag === 0x0001) latitudeRef = String.fromCharCode(view.getUint8(entry + 8));
+      if (tag === 0x0002) latitude = readCoordinate(view, valueOffset, little);
+      if (tag === 0x0003) longitudeRef = String.fromCharCode(view.getUint8(entry + 8));
+      if (tag === 0x0004) longitude = readCoordinate(view, valueOffset, little);
+    }
+    if (latitude === null || longitude === null) return null;
+
+    return {
+      latitude: latitudeRef === 'S' ? -latitude : latitude,
+      longitude: longitudeRef === 'W' ? -longitude : longitude,
+    };
+  } catch {
+    // Corrupt or truncated metadata is treated as having no location
+    return null;
+  }
+};
+
+// Rounds to a thousandth of a second of arc first, so a value that rounds up
+// to a whole minute carries into the minutes and degrees instead of being
+// written as 60 seconds.
+const writeCoordinate = (view: DataView, offset: number, value: number) => {
+  const totalMs = Math.round(Math.abs(value) * 3600 * 1000);
+  const degrees = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const seconds = totalMs % 60000;
+  [degrees, 1, minutes, 1, seconds, 1000].forEach((part, index) => {
+    view.setUint32(offset + index * 4, part);
+  });
+};
+
+// Builds a big-endian APP1 segment holding only a GPS IFD.
+const buildGpsSegment = ({ latitude, longitude }: GpsPosition): Uint8Array => {
+  const tiffLength = 140;
+  const segment = new Uint8Array(4 + EXIF_HEADER.length + tiffLength);
+  const view = new DataView(segment.buffer);
+
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, segment.length - 2);
+  segment.set(EXIF_HEADER, 4);
+
+  const tiff = 4 + EXIF_HEADER.length;
+  view.setUint16(tiff, 0x4d4d); // "MM"
+  view.setUint16(tiff + 2, 0x002a);
+  view.setUint32(tiff + 4, 8);
+
+  // IFD0: a single pointer to the GPS IFD at offset 26
+  view.setUint16(tiff + 8, 1);
+  view.setUint16(tiff + 10, GPS_IFD_POINTER);
+  view.setUint16(tiff + 12, 4); // LONG
+  view.setUint32(tiff + 14, 1);
+  view.setUint32(tiff + 18, 26);
+  view.setUint32(tiff + 22, 0);
+
+  // GPS IFD: version, latitude and longitude with their references
+  const gps = tiff + 26;
+  const entries: [number, number, number, number][] = [
+    [0x0000, 1, 4, 0x02020000],
+    [0x0001, 2, 2, (latitude < 0 ? 0x53 : 0x4e) << 24],
+    [0x0002, 5, 3, 92],
+    [0x0003, 2, 2, (longitude < 0 ? 0x57 : 0x45) << 24],
+    [0x0004, 5, 3, 116],
+  ];
+  view.setUint16(gps, entries.length);
+  entries.forEach(([tag, type, count, value], index) => {
+    const entry = gps + 2 + index * 12;
+    view.setUint16(entry, tag);
+    view.setUint16(entry + 2, type);
+    view.setUint32(entry + 4, count);
+    view.setUint32(entry + 8, value >>> 0);
+  });
+  view.setUint32(gps + 2 + entries.length * 12, 0);
+
+  writeCoordinate(view, tiff + 92, latitude);
+  writeCoordinate(view, tiff + 116, longitude);
+
+  return segment;
+};
+
+export const insertGpsPosition = async (jpeg: Blob, position: GpsPosition): Promise<Blob> => {
+  const bytes = new Uint8Array(await jpeg.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+
+  // Keep a leading JFIF APP0 segment first, as the JFIF spec requires
+  let insertAt = 2;
+  if (view.getUint16(2) === 0xffe0) {
+    insertAt = 4 + view.getUint16(4);
+  }
+
+  return new Blob([bytes.slice(0, insertAt), buildGpsSegment(position), bytes.slice(insertAt)], {
+    type: jpeg.type,
+  });
+};
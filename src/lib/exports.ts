@@ -0,0 +1,312 @@
+import { DEFAULT_LANGUAGE, getLanguage } from '@/i18n/languages';
+import { createTranslator, formatDateTime } from '@/i18n/translate';
+import { DIAGNOSIS_SCHEMA_VERSION, MAX_SEVERITY_GRADE, type Diagnosis } from '@/lib/diagnosis';
+import { loadPhotoData, type DisplayImage } from '@/lib/images';
+import { outcomeDescriptions, outcomeTitles, retakeGuidance } from '@/lib/outcome';
+
+export type ExportFormat = 'json' | 'csv' | 'markdown' | 'html';
+
+export const exportFormats: ExportFormat[] = ['json', 'csv', 'markdown', 'html'];
+
+export interface DiagnosisExportInput {
+  diagnosis: Diagnosis;
+  language: string;
+  images: DisplayImage[];
+  reportId?: string;
+  createdAt?: string;
+}
+
+const fileTypes: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  html: { extension: 'html', mimeType: 'text/html' },
+};
+
+// Everything a data pipeline needs to tell exports apart and re-validate them
+export const toJsonExport = ({ diagnosis, language, images, reportId, createdAt }: DiagnosisExportInput) =>
+  JSON.stringify(
+    {
+      schemaVersion: DIAGNOSIS_SCHEMA_VERSION,
+      reportId: reportId ?? null,
+      createdAt: createdAt ?? null,
+      exportedAt: new Date().toISOString(),
+      language,
+      images: images.map((image, index) => ({ photo: index + 1, label: image.label })),
+      diagnosis,
+    },
+    null,
+    2
+  );
+
+const LIST_SEPARATOR = '; ';
+
+const csvColumns: [string, (input: DiagnosisExportInput) => string | number][] = [
+  ['report_id', ({ reportId }) => reportId ?? ''],
+  ['created_at', ({ createdAt }) => createdAt ?? ''],
+  ['language', ({ language }) => language],
+  ['schema_version', () => DIAGNOSIS_SCHEMA_VERSION],
+  ['kind', ({ diagnosis }) => diagnosis.kind],
+  ['crop', ({ diagnosis }) => diagnosis.crop.commonName],
+  ['crop_scientific_name', ({ diagnosis }) => diagnosis.crop.scientificName],
+  ['crop_confidence', ({ diagnosis }) => diagnosis.crop.confidence],
+  ['disease_name', ({ diagnosis }) => diagnosis.diseaseName],
+  ['scientific_name', ({ diagnosis }) => diagnosis.scientificName],
+  ['confidence', ({ diagnosis }) => diagnosis.confidence],
+  ['severity', ({ diagnosis }) => diagnosis.severity],
+  ['percent_affected', ({ diagnosis }) => diagnosis.severityEstimate?.percentAffected ?? ''],
+  ['severity_grade', ({ diagnosis }) => diagnosis.severityEstimate?.grade ?? ''],
+  ['spread_rate', ({ diagnosis }) => diagnosis.spreadRate],
+  ['description', ({ diagnosis }) => diagnosis.description],
+  ['symptoms', ({ diagnosis }) => diagnosis.symptoms.join(LIST_SEPARATOR)],
+  ['affected_parts', ({ diagnosis }) => diagnosis.affectedParts.join(LIST_SEPARATOR)],
+  ['causes', ({ diagnosis }) => diagnosis.causes.join(LIST_SEPARATOR)],
+  ['treatment', ({ diagnosis }) => diagnosis.treatment.join(LIST_SEPARATOR)],
+  ['prevention', ({ diagnosis }) => diagnosis.prevention.join(LIST_SEPARATOR)],
+  [
+    'alternatives',
+    ({ diagnosis }) =>
+      diagnosis.alternatives
+        .map((alternative) => `${alternative.scientificName || alternative.diseaseName} (${alternative.probability}%)`)
+        .join(LIST_SEPARATOR),
+  ],
+  ['retake_tips', ({ diagnosis }) => diagnosis.retakeTips.join(LIST_SEPARATOR)],
+  ['photo_count', ({ images }) => images.length],
+];
+
+// Quotes per RFC 4180, and defuses values a spreadsheet would run as a
+// formula, including those hidden behind a leading tab or carriage return
+const toCsvCell = (value: string | number) => {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// A header row and one row per diagnosis, so several exports can be appended
+export const toCsvExport = (input: DiagnosisExportInput) =>
+  [csvColumns.map(([header]) => header), csvColumns.map(([, value]) => toCsvCell(value(input)))]
+    .map((row) => row.join(','))
+    .join('\r\n') + '\r\n';
+
+interface ExportSection {
+  heading: string;
+  items: string[];
+  numbered?: boolean;
+}
+
+interface ExportOutline {
+  heading: string;
+  title: string;
+  subtitle: string;
+  meta: string[];
+  facts: string[];
+  description: string;
+  sections: ExportSection[];
+  photos: ExportSection;
+}
+
+// The readable formats share one outline in the diagnosis' language
+const toOutline = ({ diagnosis, language, images, reportId, createdAt }: DiagnosisExportInput): ExportOutline => {
+  const report = createTranslator(getLanguage(language)?.code ?? DEFAULT_LANGUAGE);
+  const heading = `${report('app.name')} · ${report('report.title')}`;
+  const meta = [
+    report('report.date', { date: formatDateTime(createdAt ?? Date.now(), language) }),
+    ...(reportId ? [report('report.id', { id: reportId })] : []),
+  ];
+  const crop = diagnosis.crop.commonName
+    ? [
+        report('report.crop', {
+          name: [diagnosis.crop.commonName, diagnosis.crop.scientificName].filter(Boolean).join(' · '),
+          confidence: diagnosis.crop.confidence,
+        }),
+      ]
+    : [];
+  const photos: ExportSection = {
+    heading: report('report.photos'),
+    items: images.map((image, index) => {
+      const caption = [
+        report('upload.photoNumber', { number: index + 1 }),
+        report(`imageLabel.${image.label}`),
+      ].join(' · ');
+      const findings = diagnosis.photoFindings.find((finding) => finding.photo === index + 1)?.symptoms ?? [];
+      return findings.length > 0 ? `${caption}: ${findings.join(', ')}` : caption;
+    }),
+  };
+
+  if (diagnosis.kind === 'diseased') {
+    return {
+      heading,
+      title: diagnosis.diseaseName,
+      subtitle: diagnosis.scientificName,
+      meta,
+      facts: [
+        ...crop,
+        `${report('results.confidence')}: ${diagnosis.confidence}%`,
+        report('report.severity', { value: report(`severity.${diagnosis.severity}`) }),
+        ...(diagnosis.severityEstimate
+          ? [
+              report('report.affectedArea', {
+                percent: diagnosis.severityEstimate.percentAffected,
+                grade: diagnosis.severityEstimate.grade,
+                max: MAX_SEVERITY_GRADE,
+              }),
+            ]
+          : []),
+        report('report.spreadRate', { value: report(`spreadRate.${diagnosis.spreadRate}`) }),
+      ],
+      description: diagnosis.description,
+      sections: [
+        { heading: report('results.symptoms'), items: diagnosis.symptoms },
+        { heading: report('results.affectedParts'), items: diagnosis.affectedParts },
+        { heading: report('results.causes'), items: diagnosis.causes },
+        { heading: report('results.treatment'), items: diagnosis.treatment, numbered: true },
+        { heading: report('results.prevention'), items: diagnosis.prevention },
+        {
+          heading: report('differential.title'),
+          items: diagnosis.alternatives.map((alternative) => {
+            const name = alternative.scientificName
+              ? `${alternative.diseaseName} (${alternative.scientificName})`
+              : alternative.diseaseName;
+            const tellApart = `${report('differential.tellApart')} ${alternative.distinguishingSymptom}`;
+            return `${name} · ${alternative.probability}% · ${tellApart}`;
+          }),
+        },
+      ],
+      photos,
+    };
+  }
+
+  return {
+    heading,
+    title: report(outcomeTitles[diagnosis.kind]),
+    subtitle: report(outcomeDescriptions[diagnosis.kind]),
+    meta,
+    facts: [...crop, ...(diagnosis.kind === 'healthy' ? [`${report('results.confidence')}: ${diagnosis.confidence}%`] : [])],
+    description: diagnosis.description,
+    sections: [
+      diagnosis.kind === 'healthy'
+        ? { heading: report('outcome.keepHealthy'), items: diagnosis.prevention }
+        : {
+            heading: report('outcome.retakeTitle'),
+            items: [...diagnosis.retakeTips, ...retakeGuidance.map((key) => report(key))],
+          },
+    ],
+    photos,
+  };
+};
+
+export const toMarkdownExport = (input: DiagnosisExportInput) => {
+  const outline = toOutline(input);
+  const blocks = [
+    `# ${outline.heading}`,
+    outline.meta.join('  \n'),
+    [`## ${outline.title}`, ...(outline.subtitle ? [`*${outline.subtitle}*`] : [])].join('\n\n'),
+    outline.facts.map((fact) => `- ${fact}`).join('\n'),
+    outline.description,
+    ...[...outline.sections, outline.photos]
+      .filter((section) => section.items.length > 0)
+      .map((section) =>
+        [
+          `### ${section.heading}`,
+          section.items.map((item, index) => `${section.numbered ? `${index + 1}.` : '-'} ${item}`).join('\n'),
+        ].join('\n\n')
+      ),
+  ];
+  return `${blocks.filter(Boolean).join('\n\n')}\n`;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+// A single file that opens offline: styles inline, photos as data URLs
+export const toHtmlExport = async (input: DiagnosisExportInput) => {
+  const outline = toOutline(input);
+  const language = getLanguage(input.language) ?? getLanguage(DEFAULT_LANGUAGE)!;
+  const report = createTranslator(language.code);
+  const photos = await Promise.all(
+    input.images.map((image) =>
+      loadPhotoData(image.url).catch((error) => {
+        console.warn('Leaving photo out of the export:', error);
+        return null;
+      })
+    )
+  );
+  const sections = outline.sections
+    .filter((section) => section.items.length > 0)
+    .map((section) => {
+      const tag = section.numbered ? 'ol' : 'ul';
+      const items = section.items.map((item) => `<li>${escapeHtml(item)}</li>`).join('');
+      return `<section><h3>${escapeHtml(section.heading)}</h3><${tag}>${items}</${tag}></section>`;
+    });
+  const figures = photos.flatMap((photo, index) => {
+    if (!photo) return [];
+    const alt = escapeHtml(report('images.photoAlt', { number: index + 1 }));
+    const image = `<img src="${photo.dataUrl}" width="${photo.width}" height="${photo.height}" alt="${alt}">`;
+    return [`<figure>${image}<figcaption>${escapeHtml(outline.photos.items[index])}</figcaption></figure>`];
+  });
+  if (figures.length > 0) {
+    sections.push(
+      `<section><h3>${escapeHtml(outline.photos.heading)}</h3><div class="photos">${figures.join('')}</div></section>`
+    );
+  }
+
+  return `<!DOCTYPE html>
+<html lang="${language.code}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(`${outline.heading} · ${outline.title}`)}</title>
+<style>
+body { font-family: system-ui, sans-serif; color: #122118; line-height: 1.5; }
+body { max-width: 48rem; margin: 2rem auto; padding: 0 1rem; }
+header { border-bottom: 1px solid #d6e5dc; margin-bottom: 1.5rem; }
+h1 { font-size: 1.1rem; color: #28be65; margin: 0; }
+h2 { font-size: 1.75rem; margin-bottom: 0; }
+h3 { color: #28be65; }
+.muted { color: #527a62; }
+.facts { font-weight: 600; }
+.photos { display: grid; grid-template-columns: repeat(auto-fill, minmax(14rem, 1fr)); gap: 1rem; }
+figure { margin: 0; }
+img { width: 100%; height: auto; border-radius: 0.5rem; }
+figcaption { font-size: 0.85rem; }
+</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(outline.heading)}</h1>
+<p class="muted">${outline.meta.map(escapeHtml).join('<br>')}</p>
+</header>
+<main>
+<h2>${escapeHtml(outline.title)}</h2>
+${outline.subtitle ? `<p class="muted"><em>${escapeHtml(outline.subtitle)}</em></p>` : ''}
+${outline.facts.length > 0 ? `<p class="facts">${outline.facts.map(escapeHtml).join(' · ')}</p>` : ''}
+${outline.description ? `<p>${escapeHtml(outline.description)}</p>` : ''}
+${sections.join('\n')}
+</main>
+</body>
+</html>
+`;
+};
+
+const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers start the download after click returns; revoking at once
+  // can cancel it
+  setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+};
+
+export const exportDiagnosis = async (format: ExportFormat, input: DiagnosisExportInput) => {
+  const content = {
+    json: () => toJsonExport(input),
+    // A byte order mark so spreadsheet apps read Indic text as UTF-8
+    csv: () => `\uFEFF${toCsvExport(input)}`,
+    markdown: () => toMarkdownExport(input),
+    html: () => toHtmlExport(input),
+  }[format];
+  const { extension, mimeType } = fileTypes[format];
+  const name = input.reportId?.slice(0, 8) ?? Date.now();
+  downloadFile(await content(), `plant-diagnosis-${input.language}-${name}.${extension}`, mimeType);
+};
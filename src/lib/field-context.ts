@@ -0,0 +1,18 @@
+import type { FieldContext } from '../../supabase/functions/_shared/field-context.ts';
+
+export * from '../../supabase/functions/_shared/field-context.ts';
+
+// The form holds every field as text, including the ones picked from a list
+export type FieldContextFormValues = Record<keyof FieldContext, string>;
+
+export const emptyFieldContext: FieldContextFormValues = {
+  crop: '',
+  variety: '',
+  growthStage: '',
+  daysSinceSowing: '',
+  weather: '',
+  irrigation: '',
+  recentSprays: '',
+  district: '',
+  state: '',
+};
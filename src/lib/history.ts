@@ -0,0 +1,122 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { DIAGNOSIS_SCHEMA_VERSION, diagnosisSchema, type Diagnosis, type Severity } from '@/lib/diagnosis';
+import { analysisImagesSchema, type AnalysisImage } from '@/lib/images';
+import { ensureDeviceUser } from '@/lib/session';
+
+export type DiagnosisRecord = Tables<'diagnoses'>;
+
+export interface SaveDiagnosisInput {
+  images: AnalysisImage[];
+  language: string;
+  diagnosis: Diagnosis;
+  crop?: string;
+  fieldName?: string;
+  notes?: string;
+}
+
+export interface HistoryFilters {
+  search: string;
+  crop: string;
+  severity: Severity | 'all';
+  from: string;
+  to: string;
+}
+
+export const emptyHistoryFilters: HistoryFilters = {
+  search: '',
+  crop: '',
+  severity: 'all',
+  from: '',
+  to: '',
+};
+
+export const hasHistoryFilters = (filters: HistoryFilters) =>
+  (Object.keys(emptyHistoryFilters) as (keyof HistoryFilters)[]).some(
+    (key) => filters[key] !== emptyHistoryFilters[key]
+  );
+
+export const saveDiagnosis = async ({
+  images,
+  language,
+  diagnosis,
+  crop,
+  fieldName,
+  notes,
+}: SaveDiagnosisInput) => {
+  const isDiseased = diagnosis.kind === 'diseased';
+  const ownerId = await ensureDeviceUser();
+  const { data, error } = await supabase
+    .from('diagnoses')
+    .insert({
+      owner_id: ownerId,
+      image_path: images[0].path,
+      images,
+      language,
+      result: diagnosis,
+      schema_version: DIAGNOSIS_SCHEMA_VERSION,
+      kind: diagnosis.kind,
+      disease_name: isDiseased ? diagnosis.diseaseName : null,
+      severity: isDiseased ? diagnosis.severity : null,
+      crop: crop?.trim() || null,
+      field_name: fieldName?.trim() || null,
+      notes: notes?.trim() || null,
+      identified_crop: diagnosis.crop.commonName || null,
+      identified_crop_scientific: diagnosis.crop.scientificName || null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const fetchDiagnoses = async (filters: HistoryFilters) => {
+  let query = supabase
+    .from('diagnoses')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  // Commas and parentheses would break out of the PostgREST or() filter
+  const toPattern = (text: string) => text.replace(/[,()]/g, ' ').trim();
+  const search = toPattern(filters.search);
+  if (search) {
+    query = query.or(`disease_name.ilike.%${search}%,crop.ilike.%${search}%,field_name.ilike.%${search}%`);
+  }
+  // Matches the crop the farmer entered as well as the one identified in the photos
+  const crop = toPattern(filters.crop);
+  if (crop) {
+    query = query.or(
+      `crop.ilike.%${crop}%,identified_crop.ilike.%${crop}%,identified_crop_scientific.ilike.%${crop}%`
+    );
+  }
+  if (filters.severity !== 'all') {
+    query = query.eq('severity', filters.severity);
+  }
+  if (filters.from) {
+    query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+  }
+  if (filters.to) {
+    query = query.lte('created_at', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data;
+};
+
+export const fetchDiagnosis = async (id: string) => {
+  const { data, error } = await supabase.from('diagnoses').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data;
+};
+
+// Older records may predate fields added to the schema since; parsing fills
+// them with the same defaults the edge function would.
+export const readStoredDiagnosis = (record: DiagnosisRecord): Diagnosis => diagnosisSchema.parse(record.result);
+
+export const readStoredImages = (record: DiagnosisRecord): AnalysisImage[] => {
+  const images = analysisImagesSchema.safeParse(record.images);
+  return images.success ? images.data : [{ path: record.image_path, label: 'other' }];
+};
@@ -0,0 +1,119 @@
+import { insertGpsPosition, readGpsPosition } from '@/lib/exif';
+
+export interface PreprocessOptions {
+  maxDimension: number;
+  quality: number;
+  format: 'image/jpeg' | 'image/webp';
+  keepLocation: boolean;
+}
+
+export interface PreprocessedImage {
+  file: File;
+  preview: string;
+  originalBytes: number;
+  processedBytes: number;
+  width: number;
+  height: number;
+}
+
+// Sized for rural 2G/3G links: large enough for the model to see lesions,
+// small enough to upload in a few seconds.
+export const defaultPreprocessOptions: PreprocessOptions = {
+  maxDimension: 1600,
+  quality: 0.8,
+  format: 'image/webp',
+  keepLocation: false,
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Browsers honour the EXIF orientation when decoding, so the pixels drawn to
+// the canvas are already upright.
+const decodeImage = async (file: File): Promise<ImageBitmap | HTMLImageElement> => {
+  if ('createImageBitmap' in window) {
+    try {
+      return await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch {
+      // Fall back to an <img> element below
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const encodeCanvas = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+
+const readAsDataURL = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const preprocessImage = async (
+  file: File,
+  options: Partial<PreprocessOptions> = {}
+): Promise<PreprocessedImage> => {
+  const { maxDimension, quality, format, keepLocation } = { ...defaultPreprocessOptions, ...options };
+
+  const image = await decodeImage(file);
+  const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+  const width = Math.round(image.width * scale);
+  const height = Math.round(image.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Image processing is not supported in this browser.');
+  }
+  context.drawImage(image, 0, 0, width, height);
+  if ('close' in image) image.close();
+
+  // Re-encoding through a canvas drops all EXIF metadata. The GPS position can
+  // only be written back into a JPEG, so opting in forces that format.
+  const targetType = keepLocation ? 'image/jpeg' : format;
+  let blob = await encodeCanvas(canvas, targetType, quality);
+  if (!blob || blob.type !== targetType) {
+    // Some browsers silently fall back to PNG for formats they cannot encode
+    blob = await encodeCanvas(canvas, 'image/jpeg', quality);
+  }
+  if (!blob) {
+    throw new Error('Failed to process the image. Please try another photo.');
+  }
+
+  if (keepLocation && blob.type === 'image/jpeg') {
+    const position = readGpsPosition(await file.arrayBuffer());
+    if (position) {
+      blob = await insertGpsPosition(blob, position);
+    }
+  }
+
+  const extension = blob.type === 'image/webp' ? 'webp' : 'jpg';
+  const name = `${file.name.replace(/\.[^.]+$/, '') || 'plant'}.${extension}`;
+  const processed = new File([blob], name, { type: blob.type, lastModified: Date.now() });
+
+  return {
+    file: processed,
+    preview: await readAsDataURL(processed),
+    originalBytes: file.size,
+    processedBytes: processed.size,
+    width,
+    height,
+  };
+};
@@ -0,0 +1,129 @@
+import { supabase } from '@/integrations/supabase/client';
+import { AppError } from '@/lib/errors';
+import { ensureDeviceUser } from '@/lib/session';
+import {
+  ALLOWED_IMAGE_TYPES,
+  MAX_IMAGE_BYTES,
+  PLANT_IMAGES_BUCKET,
+  toOwnedImagePath,
+  type ImageLabel,
+} from '../../supabase/functions/_shared/images.ts';
+
+export * from '../../supabase/functions/_shared/images.ts';
+
+// A photo picked in the upload gallery, processed and ready to upload
+export interface SelectedImage {
+  id: string;
+  file: File;
+  originalFile: File;
+  preview: string;
+  label: ImageLabel;
+  originalBytes: number;
+  path?: string;
+}
+
+// A photo shown next to a diagnosis, whether fresh or loaded from history
+export interface DisplayImage {
+  url: string;
+  label: ImageLabel;
+}
+
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+const MAX_PHOTO_DATA_PIXELS = 1600;
+
+const extensions: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+// Returns the reason the file cannot be uploaded, or null if it can.
+export const validateImageFile = (file: File): AppError | null => {
+  if (!ALLOWED_IMAGE_TYPES.includes(file.type)) {
+    return new AppError('invalid_image', 'Please choose a JPG, PNG or WEBP image.');
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    return new AppError('image_too_large', `Please choose an image smaller than ${MAX_IMAGE_BYTES / (1024 * 1024)} MB.`);
+  }
+  return null;
+};
+
+export const uploadPlantImage = async (file: File): Promise<string> => {
+  const validationError = validateImageFile(file);
+  if (validationError) {
+    throw validationError;
+  }
+
+  const path = toOwnedImagePath(await ensureDeviceUser(), `${crypto.randomUUID()}.${extensions[file.type]}`);
+  const { error } = await supabase.storage.from(PLANT_IMAGES_BUCKET).upload(path, file, {
+    contentType: file.type,
+    cacheControl: '3600',
+    upsert: false,
+  });
+
+  if (error) {
+    console.error('Error uploading image:', error);
+    throw new AppError('upload_failed', 'The photo could not be uploaded.');
+  }
+  return path;
+};
+
+// Best effort: a photo that can't be removed is only wasted space, so failures
+// are logged rather than reported
+export const removePlantImages = async (paths: string[]) => {
+  if (paths.length === 0) return;
+  const { error } = await supabase.storage.from(PLANT_IMAGES_BUCKET).remove(paths);
+  if (error) console.error('Error removing images:', error);
+};
+
+// Diagnoses saved before images moved to storage hold an inline data URL.
+const isInlineImage = (path: string) => path.startsWith('data:');
+
+export const getImageUrls = async (paths: string[]): Promise<Record<string, string>> => {
+  const urls: Record<string, string> = {};
+  const storedPaths = paths.filter((path) => {
+    if (isInlineImage(path)) urls[path] = path;
+    return !isInlineImage(path);
+  });
+
+  if (storedPaths.length > 0) {
+    const { data, error } = await supabase.storage
+      .from(PLANT_IMAGES_BUCKET)
+      .createSignedUrls(storedPaths, SIGNED_URL_TTL_SECONDS);
+
+    if (error) throw error;
+    for (const { path, signedUrl } of data) {
+      if (path && signedUrl) urls[path] = signedUrl;
+    }
+  }
+  return urls;
+};
+
+export interface PhotoData {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+// Re-encodes a photo as a JPEG data URL, whatever format it was uploaded in,
+// and caps its size so reports and exports stay small.
+export const loadPhotoData = (url: string) =>
+  new Promise<PhotoData>((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => {
+      const scale = Math.min(1, MAX_PHOTO_DATA_PIXELS / Math.max(image.naturalWidth, image.naturalHeight));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.naturalWidth * scale);
+      canvas.height = Math.round(image.naturalHeight * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not supported'));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve({ dataUrl: canvas.toDataURL('image/jpeg', 0.85), width: canvas.width, height: canvas.height });
+    };
+    image.onerror = () => reject(new Error(`Could not load photo: ${url}`));
+    image.src = url;
+  });
@@ -0,0 +1,24 @@
+import type { MessageKey } from '@/i18n/translate';
+import type { Diagnosis } from '@/lib/diagnosis';
+
+export type OutcomeKind = Exclude<Diagnosis['kind'], 'diseased'>;
+
+export const outcomeTitles: Record<OutcomeKind, MessageKey> = {
+  healthy: 'outcome.healthy.title',
+  not_a_plant: 'outcome.notAPlant.title',
+  unclear_image: 'outcome.unclear.title',
+};
+
+export const outcomeDescriptions: Record<OutcomeKind, MessageKey> = {
+  healthy: 'outcome.healthy.description',
+  not_a_plant: 'outcome.notAPlant.description',
+  unclear_image: 'outcome.unclear.description',
+};
+
+// General advice shown alongside whatever tips the model gave for the photo.
+export const retakeGuidance: MessageKey[] = [
+  'outcome.guidance.fill',
+  'outcome.guidance.light',
+  'outcome.guidance.focus',
+  'outcome.guidance.compare',
+];
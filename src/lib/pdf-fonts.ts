@@ -0,0 +1,140 @@
+import type jsPDF from 'jspdf';
+import notoSansRegular from '@expo-google-fonts/noto-sans/400Regular/NotoSans_400Regular.ttf?url';
+import notoSansBold from '@expo-google-fonts/noto-sans/700Bold/NotoSans_700Bold.ttf?url';
+import notoSansKannadaRegular from '@expo-google-fonts/noto-sans-kannada/400Regular/NotoSansKannada_400Regular.ttf?url';
+import notoSansKannadaBold from '@expo-google-fonts/noto-sans-kannada/700Bold/NotoSansKannada_700Bold.ttf?url';
+import notoSansTamilRegular from '@expo-google-fonts/noto-sans-tamil/400Regular/NotoSansTamil_400Regular.ttf?url';
+import notoSansTamilBold from '@expo-google-fonts/noto-sans-tamil/700Bold/NotoSansTamil_700Bold.ttf?url';
+import notoSansMalayalamRegular from '@expo-google-fonts/noto-sans-malayalam/400Regular/NotoSansMalayalam_400Regular.ttf?url';
+import notoSansMalayalamBold from '@expo-google-fonts/noto-sans-malayalam/700Bold/NotoSansMalayalam_700Bold.ttf?url';
+import notoSansTeluguRegular from '@expo-google-fonts/noto-sans-telugu/400Regular/NotoSansTelugu_400Regular.ttf?url';
+import notoSansTeluguBold from '@expo-google-fonts/noto-sans-telugu/700Bold/NotoSansTelugu_700Bold.ttf?url';
+import notoSansDevanagariRegular from '@expo-google-fonts/noto-sans-devanagari/400Regular/NotoSansDevanagari_400Regular.ttf?url';
+import notoSansDevanagariBold from '@expo-google-fonts/noto-sans-devanagari/700Bold/NotoSansDevanagari_700Bold.ttf?url';
+import notoSansBengaliRegular from '@expo-google-fonts/noto-sans-bengali/400Regular/NotoSansBengali_400Regular.ttf?url';
+import notoSansBengaliBold from '@expo-google-fonts/noto-sans-bengali/700Bold/NotoSansBengali_700Bold.ttf?url';
+import notoSansGujaratiRegular from '@expo-google-fonts/noto-sans-gujarati/400Regular/NotoSansGujarati_400Regular.ttf?url';
+import notoSansGujaratiBold from '@expo-google-fonts/noto-sans-gujarati/700Bold/NotoSansGujarati_700Bold.ttf?url';
+import { AppError } from '@/lib/errors';
+import { scriptPatterns, type Script } from '@/i18n/languages';
+
+export type FontStyle = 'normal' | 'bold';
+
+interface FontFamily {
+  name: string;
+  files: Record<FontStyle, string>;
+}
+
+// Noto Sans families, bundled with the app so reports work offline. Each only
+// covers its own script, so Latin text in a report (scientific names, product
+// names, numbers) is set in Noto Sans.
+const fontFamilies: Record<Script, FontFamily> = {
+  Latin: { name: 'NotoSans', files: { normal: notoSansRegular, bold: notoSansBold } },
+  Kannada: { name: 'NotoSansKannada', files: { normal: notoSansKannadaRegular, bold: notoSansKannadaBold } },
+  Tamil: { name: 'NotoSansTamil', files: { normal: notoSansTamilRegular, bold: notoSansTamilBold } },
+  Malayalam: { name: 'NotoSansMalayalam', files: { normal: notoSansMalayalamRegular, bold: notoSansMalayalamBold } },
+  Telugu: { name: 'NotoSansTelugu', files: { normal: notoSansTeluguRegular, bold: notoSansTeluguBold } },
+  Devanagari: {
+    name: 'NotoSansDevanagari',
+    files: { normal: notoSansDevanagariRegular, bold: notoSansDevanagariBold },
+  },
+  Bengali: { name: 'NotoSansBengali', files: { normal: notoSansBengaliRegular, bold: notoSansBengaliBold } },
+  Gujarati: { name: 'NotoSansGujarati', files: { normal: notoSansGujaratiRegular, bold: notoSansGujaratiBold } },
+};
+
+const fontWeights: Record<FontStyle, number> = { normal: 400, bold: 700 };
+
+// Loaded once per session and shared by every report
+const fontCache = new Map<string, Promise<ArrayBuffer>>();
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const loadFont = (url: string) => {
+  let font = fontCache.get(url);
+  if (!font) {
+    font = fetch(url)
+      .then((response) => {
+        if (!response.ok) throw new Error(`Font request failed with ${response.status}`);
+        return response.arrayBuffer();
+      })
+      .catch((error) => {
+        fontCache.delete(url);
+        console.error('Error loading report font:', url, error);
+        throw new AppError('network_error', 'The report fonts could not be loaded.');
+      });
+    fontCache.set(url, font);
+  }
+  return font;
+};
+
+export interface ReportFonts {
+  latin: string;
+  script: string;
+}
+
+// Embeds the Latin family plus the family for the report's script and
+// returns the font names to pass to setFont. The same fonts are registered
+// with the page so that text can be shaped on a canvas.
+export const embedFonts = async (doc: jsPDF, script: Script): Promise<ReportFonts> => {
+  const families = [...new Set([fontFamilies.Latin, fontFamilies[script]])];
+  const styles: FontStyle[] = ['normal', 'bold'];
+
+  await Promise.all(
+    families.flatMap((family) =>
+      styles.map(async (style) => {
+        const font = await loadFont(family.files[style]);
+        const fileName = `${family.name}-${style}.ttf`;
+        doc.addFileToVFS(fileName, toBase64(font));
+        doc.addFont(fileName, family.name, style);
+
+        const face = new FontFace(family.name, font.slice(0), { weight: String(fontWeights[style]) });
+        document.fonts.add(await face.load());
+      })
+    )
+  );
+
+  return { latin: fontFamilies.Latin.name, script: fontFamilies[script].name };
+};
+
+// A CSS font shorthand for drawing report text on a canvas, falling back to
+// the Latin family for characters outside the script
+export const canvasFont = (fonts: ReportFonts, style: FontStyle, sizePx: number) =>
+  `${fontWeights[style]} ${sizePx}px "${fonts.script}", "${fonts.latin}"`;
+
+// jsPDF places glyphs one after another without OpenType shaping, which
+// breaks conjuncts and reordered vowel signs; text in an Indic script has to
+// be shaped by the browser instead.
+export const needsShaping = (text: string, script: Script) =>
+  script !== 'Latin' && [...text].some((char) => scriptPatterns[script].test(char));
+
+export interface TextRun {
+  text: string;
+  font: string;
+}
+
+// Dandas are shared punctuation but only the Indic fonts carry them;
+// joiners and combining marks belong with the letter before them.
+const scriptExtras = /[।॥‌‍\p{Script=Inherited}]/u;
+
+// Splits text into runs that can each be drawn with a single font
+export const splitRuns = (text: string, script: Script, fonts: ReportFonts): TextRun[] => {
+  const runs: TextRun[] = [];
+  for (const char of text) {
+    const inScript = script !== 'Latin' && (scriptPatterns[script].test(char) || scriptExtras.test(char));
+    const font = inScript ? fonts.script : fonts.latin;
+    const last = runs[runs.length - 1];
+    if (last?.font === font) {
+      last.text += char;
+    } else {
+      runs.push({ text: char, font });
+    }
+  }
+  return runs;
+};
@@ -0,0 +1,433 @@
+import jsPDF from 'jspdf';
+import { DEFAULT_LANGUAGE, getLanguage, type Language } from '@/i18n/languages';
+import { createTranslator, formatDateTime, type MessageKey, type Translator } from '@/i18n/translate';
+import { MAX_SEVERITY_GRADE, type Diagnosis } from '@/lib/diagnosis';
+import { loadPhotoData, type DisplayImage } from '@/lib/images';
+import { outcomeDescriptions, outcomeTitles, retakeGuidance } from '@/lib/outcome';
+import { canvasFont, embedFonts, needsShaping, splitRuns, type FontStyle } from '@/lib/pdf-fonts';
+import { AppError } from '@/lib/errors';
+
+export interface DiagnosisReportInput {
+  diagnosis: Diagnosis;
+  language: string;
+  images: DisplayImage[];
+  // When given, the English diagnosis is laid out beside the report language
+  // in parallel columns, for a bilingual printout
+  english?: Diagnosis;
+  // Set once the diagnosis is saved to history; a local ID is used until then
+  reportId?: string;
+  createdAt?: string;
+}
+
+type Color = [number, number, number];
+
+// Theme colours from index.css
+const colors = {
+  text: [18, 33, 24] as Color,
+  muted: [82, 122, 98] as Color,
+  primary: [40, 190, 101] as Color,
+  rule: [214, 229, 220] as Color,
+  destructive: [239, 68, 68] as Color,
+};
+
+// A4 in millimetres
+const MARGIN = 18;
+const HEADER_HEIGHT = 16;
+const FOOTER_HEIGHT = 12;
+const PT_TO_MM = 25.4 / 72;
+const LINE_SPACING = 1.5;
+const MAX_PHOTO_HEIGHT = 70;
+// Resolution of shaped text, about 300 dpi
+const SHAPED_PX_PER_MM = 12;
+
+// One language of the report; bilingual reports have two side by side
+interface ReportColumn {
+  diagnosis: Diagnosis;
+  language: Language;
+  report: Translator;
+}
+
+const toColumn = (diagnosis: Diagnosis, language: Language): ReportColumn => ({
+  diagnosis,
+  language,
+  report: createTranslator(language.code),
+});
+
+// Lays the diagnosis out as selectable text over as many A4 pages as it
+// needs and downloads it. The photos are embedded after the findings.
+export const downloadDiagnosisReport = async ({
+  diagnosis,
+  language: languageCode,
+  images,
+  english,
+  reportId = crypto.randomUUID(),
+  createdAt = new Date().toISOString(),
+}: DiagnosisReportInput) => {
+  const language = getLanguage(languageCode) ?? getLanguage(DEFAULT_LANGUAGE)!;
+  const columns = [
+    ...(english && language.code !== 'en' ? [toColumn(english, getLanguage('en')!)] : []),
+    toColumn(diagnosis, language),
+  ];
+  // The report language comes last; its translator labels the shared parts
+  const { report } = columns[columns.length - 1];
+  const doc = new jsPDF({ orientation: 'p', unit: 'mm', format: 'a4' });
+  const fonts = await embedFonts(doc, language.script);
+  const photos = await Promise.all(
+    images.map((image) =>
+      loadPhotoData(image.url).catch((error) => {
+        console.warn('Leaving photo out of the report:', error);
+        return null;
+      })
+    )
+  );
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  const columnGap = 8;
+  const columnWidth = (contentWidth - columnGap * (columns.length - 1)) / columns.length;
+  const columnX = (column: number) => MARGIN + column * (columnWidth + columnGap);
+  const top = MARGIN + HEADER_HEIGHT;
+  const bottom = pageHeight - MARGIN - FOOTER_HEIGHT;
+  let y = top;
+
+  const lineHeight = (size: number) => size * PT_TO_MM * LINE_SPACING;
+
+  // Lines with Indic text are shaped by the browser on a canvas and placed as
+  // an image, with an invisible text layer on top so they stay searchable
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) throw new AppError('internal', 'The report could not be drawn.');
+  const setCanvasFont = (size: number, style: FontStyle) => {
+    context.font = canvasFont(fonts, style, size * PT_TO_MM * SHAPED_PX_PER_MM);
+  };
+
+  // English text splits into Latin runs only, so one script covers both columns
+  const measure = (text: string, size: number, style: FontStyle) => {
+    if (needsShaping(text, language.script)) {
+      setCanvasFont(size, style);
+      return context.measureText(text).width / SHAPED_PX_PER_MM;
+    }
+    doc.setFontSize(size);
+    return splitRuns(text, language.script, fonts).reduce((width, run) => {
+      doc.setFont(run.font, style);
+      return width + doc.getTextWidth(run.text);
+    }, 0);
+  };
+
+  // Breaks at spaces; a single word wider than the line is left to overflow
+  const wrap = (text: string, size: number, style: FontStyle, width: number) => {
+    const lines: string[] = [];
+    let current = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (current && measure(candidate, size, style) > width) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    }
+    if (current) lines.push(current);
+    return lines;
+  };
+
+  const drawRuns = (text: string, x: number, lineTop: number, size: number, style: FontStyle, invisible = false) => {
+    doc.setFontSize(size);
+    let cursor = x;
+    for (const run of splitRuns(text, language.script, fonts)) {
+      doc.setFont(run.font, style);
+      doc.text(run.text, cursor, lineTop, { baseline: 'top', renderingMode: invisible ? 'invisible' : 'fill' });
+      cursor += doc.getTextWidth(run.text);
+    }
+  };
+
+  const drawText = (text: string, x: number, lineTop: number, size: number, style: FontStyle, color: Color) => {
+    if (!needsShaping(text, language.script)) {
+      doc.setTextColor(...color);
+      drawRuns(text, x, lineTop, size, style);
+      return;
+    }
+
+    // Room around the em box for marks that reach above or below it
+    const padding = (lineHeight(size) - size * PT_TO_MM) / 2;
+    const paddingPx = Math.ceil(padding * SHAPED_PX_PER_MM);
+    canvas.width = Math.ceil(measure(text, size, style) * SHAPED_PX_PER_MM) + paddingPx * 2;
+    canvas.height = Math.ceil(size * PT_TO_MM * SHAPED_PX_PER_MM) + paddingPx * 2;
+    // Resizing resets the context, so the font is set again
+    setCanvasFont(size, style);
+    context.fillStyle = `rgb(${color.join(', ')})`;
+    context.textBaseline = 'top';
+    context.fillText(text, paddingPx, paddingPx);
+    doc.addImage(
+      canvas.toDataURL('image/png'),
+      'PNG',
+      x - paddingPx / SHAPED_PX_PER_MM,
+      lineTop - paddingPx / SHAPED_PX_PER_MM,
+      canvas.width / SHAPED_PX_PER_MM,
+      canvas.height / SHAPED_PX_PER_MM
+    );
+    drawRuns(text, x, lineTop, size, style, true);
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) {
+      doc.addPage();
+      y = top;
+    }
+  };
+
+  interface ParagraphOptions {
+    size?: number;
+    style?: FontStyle;
+    color?: Color;
+    indent?: number;
+    marker?: string;
+    after?: number;
+  }
+
+  // Sets one text per column, line by line, so a page break never separates
+  // a passage from its translation.
+  const parallel = (
+    texts: string[],
+    { size = 10, style = 'normal', color = colors.text, indent = 0, marker, after = 2 }: ParagraphOptions = {}
+  ) => {
+    const height = lineHeight(size);
+    const lines = texts.map((text) => wrap(text, size, style, columnWidth - indent));
+    const rows = Math.max(...lines.map((columnLines) => columnLines.length));
+    for (let row = 0; row < rows; row++) {
+      ensureSpace(height);
+      lines.forEach((columnLines, column) => {
+        const x = columnX(column) + indent;
+        if (marker && row === 0 && columnLines.length > 0) drawText(marker, x - 5, y, size, style, colors.primary);
+        if (columnLines[row]) drawText(columnLines[row], x, y, size, style, color);
+      });
+      y += height;
+    }
+    y += after;
+  };
+
+  // Text that is the same in every language (numbers, scientific names)
+  const shared = (
+    text: string,
+    { size = 10, style = 'normal', color = colors.text, after = 2 }: ParagraphOptions = {}
+  ) => {
+    const height = lineHeight(size);
+    for (const line of wrap(text, size, style, contentWidth)) {
+      ensureSpace(height);
+      drawText(line, MARGIN, y, size, style, color);
+      y += height;
+    }
+    y += after;
+  };
+
+  const each = (text: (column: ReportColumn) => string) => columns.map(text);
+
+  const heading = (key: MessageKey) => {
+    // Keep a heading on the same page as the first line below it
+    ensureSpace(lineHeight(13) + lineHeight(10) + 4);
+    y += 4;
+    parallel(
+      each(({ report }) => report(key)),
+      { size: 13, style: 'bold', color: colors.primary, after: 1 }
+    );
+  };
+
+  const list = (key: MessageKey, items: (column: ReportColumn) => string[], numbered = false) => {
+    const count = Math.max(...columns.map((column) => items(column).length));
+    if (count === 0) return;
+    heading(key);
+    for (let index = 0; index < count; index++) {
+      parallel(
+        each((column) => items(column)[index] ?? ''),
+        { indent: 6, marker: numbered ? `${index + 1}.` : '•' }
+      );
+    }
+  };
+
+  const photoSection = () => {
+    const placed = photos.flatMap((photo, index) => (photo ? [{ photo, index }] : []));
+    if (placed.length === 0) return;
+    heading('report.photos');
+
+    const gap = 6;
+    const cellWidth = (contentWidth - gap) / 2;
+    for (let row = 0; row < placed.length; row += 2) {
+      const cells = placed.slice(row, row + 2).map(({ photo, index }) => {
+        const scale = Math.min(cellWidth / photo.width, MAX_PHOTO_HEIGHT / photo.height);
+        // A caption, the findings and the numbered symptom areas for this photo in each language
+        const lines = columns.flatMap(({ diagnosis, report }) => {
+          const findings = diagnosis.photoFindings.find((finding) => finding.photo === index + 1)?.symptoms ?? [];
+          const caption = [
+            report('upload.photoNumber', { number: index + 1 }),
+            report(`imageLabel.${images[index].label}`),
+          ].join(' · ');
+          const regionLabels = diagnosis.regions
+            .filter((region) => region.photo === index + 1)
+            .map((region, regionIndex) => `${regionIndex + 1}. ${region.label}`);
+          return [
+            ...wrap(caption, 9, 'bold', cellWidth).map((text) => ({
+              text,
+              size: 9,
+              style: 'bold' as const,
+              color: colors.text,
+            })),
+            ...wrap(findings.join(', '), 8, 'normal', cellWidth).map((text) => ({
+              text,
+              size: 8,
+              style: 'normal' as const,
+              color: colors.muted,
+            })),
+            ...wrap(regionLabels.join('   '), 8, 'normal', cellWidth).map((text) => ({
+              text,
+              size: 8,
+              style: 'normal' as const,
+              color: colors.destructive,
+            })),
+          ];
+        });
+        const regions = diagnosis.regions.filter((region) => region.photo === index + 1);
+        return { photo, width: photo.width * scale, height: photo.height * scale, lines, regions };
+      });
+      const rowHeight = Math.max(
+        ...cells.map((cell) => cell.height + 2 + cell.lines.reduce((sum, line) => sum + lineHeight(line.size), 0))
+      );
+
+      ensureSpace(rowHeight);
+      cells.forEach((cell, column) => {
+        const x = MARGIN + column * (cellWidth + gap);
+        let cellY = y;
+        doc.addImage(cell.photo.dataUrl, 'JPEG', x, cellY, cell.width, cell.height);
+        // Symptom areas are fractions of the photo, numbered to match the labels below it
+        doc.setDrawColor(...colors.destructive);
+        doc.setLineWidth(0.5);
+        cell.regions.forEach((region, regionIndex) => {
+          const left = x + region.x * cell.width;
+          const regionTop = cellY + region.y * cell.height;
+          doc.rect(left, regionTop, region.width * cell.width, region.height * cell.height, 'S');
+          drawText(`${regionIndex + 1}`, left + 0.8, regionTop + 0.5, 7, 'bold', colors.destructive);
+        });
+        doc.setLineWidth(0.2);
+        cellY += cell.height + 2;
+        for (const line of cell.lines) {
+          drawText(line.text, x, cellY, line.size, line.style, line.color);
+          cellY += lineHeight(line.size);
+        }
+      });
+      y += rowHeight + gap;
+    }
+  };
+
+  const confidence = (value: number) =>
+    shared(`${each(({ report }) => report('results.confidence')).join(' / ')}: ${value}%`, { style: 'bold', after: 2 });
+
+  const identifiedCrop = () => {
+    if (!diagnosis.crop.commonName) return;
+    parallel(
+      each(({ diagnosis, report }) =>
+        report('report.crop', {
+          name: [diagnosis.crop.commonName, diagnosis.crop.scientificName].filter(Boolean).join(' · '),
+          confidence: diagnosis.crop.confidence,
+        })
+      ),
+      { style: 'bold', color: colors.primary, after: 2 }
+    );
+  };
+
+  if (diagnosis.kind === 'diseased') {
+    parallel(
+      each(({ diagnosis }) => diagnosis.diseaseName),
+      { size: 18, style: 'bold', after: 0 }
+    );
+    if (diagnosis.scientificName) shared(diagnosis.scientificName, { size: 11, color: colors.muted });
+    identifiedCrop();
+    confidence(diagnosis.confidence);
+    parallel(
+      each(({ report }) =>
+        [
+          report('report.severity', { value: report(`severity.${diagnosis.severity}`) }),
+          ...(diagnosis.severityEstimate
+            ? [
+                report('report.affectedArea', {
+                  percent: diagnosis.severityEstimate.percentAffected,
+                  grade: diagnosis.severityEstimate.grade,
+                  max: MAX_SEVERITY_GRADE,
+                }),
+              ]
+            : []),
+          report('report.spreadRate', { value: report(`spreadRate.${diagnosis.spreadRate}`) }),
+        ].join('   ·   ')
+      ),
+      { style: 'bold', after: 4 }
+    );
+    parallel(each(({ diagnosis }) => diagnosis.description));
+    list('results.symptoms', ({ diagnosis }) => diagnosis.symptoms);
+    list('results.affectedParts', ({ diagnosis }) => diagnosis.affectedParts);
+    list('results.causes', ({ diagnosis }) => diagnosis.causes);
+    list('results.treatment', ({ diagnosis }) => diagnosis.treatment, true);
+    list('results.prevention', ({ diagnosis }) => diagnosis.prevention);
+
+    if (diagnosis.alternatives.length > 0) {
+      heading('differential.title');
+      diagnosis.alternatives.forEach((alternative, index) => {
+        shared(
+          [`${alternative.probability}%`, alternative.scientificName].filter(Boolean).join(' · '),
+          { style: 'bold', color: colors.muted, after: 0 }
+        );
+        parallel(
+          each(({ diagnosis }) => diagnosis.alternatives[index]?.diseaseName ?? ''),
+          { style: 'bold', after: 0 }
+        );
+        parallel(
+          each(({ diagnosis, report }) =>
+            `${report('differential.tellApart')} ${diagnosis.alternatives[index]?.distinguishingSymptom ?? ''}`
+          )
+        );
+      });
+    }
+  } else {
+    const kind = diagnosis.kind;
+    parallel(
+      each(({ report }) => report(outcomeTitles[kind])),
+      { size: 18, style: 'bold', after: 0 }
+    );
+    parallel(
+      each(({ report }) => report(outcomeDescriptions[kind])),
+      { size: 11, color: colors.muted }
+    );
+    identifiedCrop();
+    if (kind === 'healthy') confidence(diagnosis.confidence);
+    if (diagnosis.description) parallel(each(({ diagnosis }) => diagnosis.description));
+    if (kind === 'healthy') {
+      list('outcome.keepHealthy', ({ diagnosis }) => diagnosis.prevention);
+    } else {
+      list('outcome.retakeTitle', ({ diagnosis, report }) => [
+        ...diagnosis.retakeTips,
+        ...retakeGuidance.map((key) => report(key)),
+      ]);
+    }
+  }
+
+  photoSection();
+
+  // Headers and footers go on last, once the page count is known
+  const title = `${report('app.name')} · ${each(({ report }) => report('report.title')).join(' / ')}`;
+  const date = report('report.date', { date: formatDateTime(createdAt, language.code) });
+  const id = report('report.id', { id: reportId });
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    drawText(title, MARGIN, MARGIN, 10, 'bold', colors.primary);
+    drawText(date, pageWidth - MARGIN - measure(date, 8, 'normal'), MARGIN, 8, 'normal', colors.muted);
+    drawText(id, pageWidth - MARGIN - measure(id, 8, 'normal'), MARGIN + lineHeight(8), 8, 'normal', colors.muted);
+    doc.setDrawColor(...colors.rule);
+    doc.line(MARGIN, MARGIN + HEADER_HEIGHT - 4, pageWidth - MARGIN, MARGIN + HEADER_HEIGHT - 4);
+
+    const pageLabel = report('report.page', { page, total: pageCount });
+    const pageLabelX = (pageWidth - measure(pageLabel, 8, 'normal')) / 2;
+    drawText(pageLabel, pageLabelX, pageHeight - MARGIN, 8, 'normal', colors.muted);
+  }
+
+  const languageNames = columns.map((column) => column.language.name).join('-');
+  doc.save(`plant-disease-report-${languageNames}-${reportId.slice(0, 8)}.pdf`);
+};
@@ -0,0 +1,24 @@
+import { supabase } from '@/integrations/supabase/client';
+import { AppError } from '@/lib/errors';
+
+let deviceUser: Promise<string> | null = null;
+
+// The app has no sign-in screen. Each device is signed in anonymously the
+// first time it saves something, and only that user can read it back.
+export const ensureDeviceUser = () => {
+  deviceUser ??= (async () => {
+    const { data } = await supabase.auth.getSession();
+    if (data.session) return data.session.user.id;
+
+    const { data: signedIn, error } = await supabase.auth.signInAnonymously();
+    if (error || !signedIn.user) {
+      console.error('Error starting anonymous session:', error);
+      throw new AppError('network_error', 'A session could not be started.');
+    }
+    return signedIn.user.id;
+  })().catch((error) => {
+    deviceUser = null;
+    throw error;
+  });
+  return deviceUser;
+};
@@ -0,0 +1,9 @@
+export const getSeverityColor = (severity: string) => {
+  const colors = {
+    low: 'bg-success text-white',
+    moderate: 'bg-warning text-white',
+    high: 'bg-destructive text-white',
+    critical: 'bg-destructive text-white',
+  };
+  return colors[severity as keyof typeof colors] || colors.moderate;
+};
@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { AppError, toFunctionError } from '@/lib/errors';
+import { ensureDeviceUser } from '@/lib/session';
+import {
+  createdShareSchema,
+  sharedDiagnosisSchema,
+  type ShareExpiryDays,
+  type ShareRequest,
+  type SharedDiagnosis,
+} from '../../supabase/functions/_shared/shares.ts';
+
+export * from '../../supabase/functions/_shared/shares.ts';
+
+const STORAGE_KEY = 'plantcare.shares';
+
+// A link created in this browser, kept so its owner can copy or revoke it later
+const ownedShareSchema = z.object({
+  shareId: z.string(),
+  diagnosisId: z.string(),
+  revokeToken: z.string(),
+  expiresAt: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+export type OwnedShare = z.infer<typeof ownedShareSchema>;
+
+const readOwnedShares = (): OwnedShare[] => {
+  try {
+    const stored = z.array(ownedShareSchema).safeParse(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]'));
+    return stored.success ? stored.data : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeOwnedShares = (shares: OwnedShare[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(shares));
+  } catch {
+    // Storage disabled: the link still works but can only be revoked this visit
+  }
+};
+
+const isExpired = (share: OwnedShare) =>
+  share.expiresAt !== null && new Date(share.expiresAt) <= new Date();
+
+// Live links for a diagnosis, newest first; expired ones are forgotten
+export const getOwnedShares = (diagnosisId: string) => {
+  const shares = readOwnedShares();
+  const live = shares.filter((share) => !isExpired(share));
+  if (live.length !== shares.length) writeOwnedShares(live);
+  return live.filter((share) => share.diagnosisId === diagnosisId).reverse();
+};
+
+export const getShareUrl = (shareId: string) => `${window.location.origin}/d/${shareId}`;
+
+const invokeShareFunction = async (body: ShareRequest) => {
+  const { data, error } = await supabase.functions.invoke('share-diagnosis', { body });
+  if (error) {
+    throw await toFunctionError(error, 'The share link request failed.');
+  }
+  return data as unknown;
+};
+
+const parseShareResponse = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, data: unknown): T => {
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    console.error('Unexpected share response:', parsed.error.issues);
+    throw new AppError('internal', 'Received an unexpected response from the share service.');
+  }
+  return parsed.data;
+};
+
+export const createShare = async (diagnosisId: string, expiresInDays: ShareExpiryDays | null) => {
+  // The share function checks that this device saved the diagnosis
+  await ensureDeviceUser();
+  const created = parseShareResponse(
+    createdShareSchema,
+    await invokeShareFunction({ action: 'create', diagnosisId, expiresInDays })
+  );
+  const share: OwnedShare = { ...created, diagnosisId, createdAt: new Date().toISOString() };
+  writeOwnedShares([...readOwnedShares(), share]);
+  return share;
+};
+
+export const revokeShare = async ({ shareId, revokeToken }: OwnedShare) => {
+  try {
+    await invokeShareFunction({ action: 'revoke', shareId, revokeToken });
+  } catch (error) {
+    // Already revoked elsewhere: nothing left to do but forget it
+    if (!(error instanceof AppError && error.code === 'share_not_found')) throw error;
+  }
+  writeOwnedShares(readOwnedShares().filter((share) => share.shareId !== shareId));
+};
+
+export const fetchSharedDiagnosis = async (shareId: string): Promise<SharedDiagnosis> =>
+  parseShareResponse(sharedDiagnosisSchema, await invokeShareFunction({ action: 'get', shareId }));
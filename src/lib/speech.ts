@@ -0,0 +1,74 @@
+import { DEFAULT_LANGUAGE, getLanguage } from '@/i18n/languages';
+import { createTranslator } from '@/i18n/translate';
+import type { Diagnosis } from '@/lib/diagnosis';
+import { outcomeDescriptions, outcomeTitles, retakeGuidance } from '@/lib/outcome';
+
+export const speechRates = [0.75, 1, 1.25, 1.5] as const;
+
+export interface SpeechSection {
+  title: string;
+  // Spoken one after another; short utterances keep Chrome from cutting off
+  // long text and let playback restart mid-section when the speed changes
+  utterances: string[];
+}
+
+export const isSpeechSupported = () =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window && 'SpeechSynthesisUtterance' in window;
+
+// Voice tags vary between platforms (kn-IN, kn_IN, kn), so match the exact
+// locale first and fall back to any voice for the language.
+export const findVoice = (voices: SpeechSynthesisVoice[], language: string) => {
+  const locale = (getLanguage(language)?.locale ?? language).toLowerCase();
+  const [code] = locale.split('-');
+  const tagOf = (voice: SpeechSynthesisVoice) => voice.lang.toLowerCase().replace('_', '-');
+  return (
+    voices.find((voice) => tagOf(voice) === locale) ??
+    voices.find((voice) => tagOf(voice).split('-')[0] === code)
+  );
+};
+
+// What the Listen control reads out, in the diagnosis' language
+export const toSpeechSections = (diagnosis: Diagnosis, language: string): SpeechSection[] => {
+  const report = createTranslator(getLanguage(language)?.code ?? DEFAULT_LANGUAGE);
+  const numbered = (items: string[]) => items.map((item, index) => `${index + 1}. ${item}`);
+  const section = (title: string, utterances: string[]) => ({ title, utterances: [title, ...utterances] });
+  const crop = diagnosis.crop.commonName ? [`${report('crop.label')}: ${diagnosis.crop.commonName}`] : [];
+
+  if (diagnosis.kind === 'diseased') {
+    return [
+      {
+        title: diagnosis.diseaseName,
+        utterances: [
+          diagnosis.diseaseName,
+          ...crop,
+          report('report.severity', { value: report(`severity.${diagnosis.severity}`) }),
+          report('report.spreadRate', { value: report(`spreadRate.${diagnosis.spreadRate}`) }),
+        ],
+      },
+      section(report('results.treatment'), numbered(diagnosis.treatment)),
+      section(report('results.prevention'), diagnosis.prevention),
+    ].filter(({ utterances }) => utterances.length > 1);
+  }
+
+  const summary = {
+    title: report(outcomeTitles[diagnosis.kind]),
+    utterances: [
+      report(outcomeTitles[diagnosis.kind]),
+      report(outcomeDescriptions[diagnosis.kind]),
+      ...crop,
+      ...(diagnosis.description ? [diagnosis.description] : []),
+    ],
+  };
+
+  return diagnosis.kind === 'healthy'
+    ? [summary, section(report('outcome.keepHealthy'), diagnosis.prevention)].filter(
+        ({ utterances }) => utterances.length > 1
+      )
+    : [
+        summary,
+        section(report('outcome.retakeTitle'), [
+          ...diagnosis.retakeTips,
+          ...retakeGuidance.map((key) => report(key)),
+        ]),
+      ];
+};
@@ -0,0 +1,81 @@
+import { Link, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft } from 'lucide-react';
+import { AnalysisResults } from '@/components/AnalysisResults';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useI18n } from '@/hooks/use-i18n';
+import { formatDateTime } from '@/i18n/translate';
+import { fetchDiagnosis, readStoredDiagnosis, readStoredImages } from '@/lib/history';
+import { getImageUrls } from '@/lib/images';
+
+const DiagnosisDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { language, t } = useI18n();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['diagnoses', 'detail', id],
+    queryFn: () => fetchDiagnosis(id!),
+    select: (record) =>
+      record && { record, diagnosis: readStoredDiagnosis(record), images: readStoredImages(record) },
+    enabled: !!id,
+  });
+  const record = data?.record;
+
+  const imagePaths = data?.images.map((image) => image.path) ?? [];
+  const { data: imageUrls } = useQuery({
+    queryKey: ['diagnosis-images', imagePaths],
+    queryFn: () => getImageUrls(imagePaths),
+    enabled: imagePaths.length > 0,
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-background">
+      <main className="container mx-auto px-4 py-12 max-w-6xl">
+        <Button asChild variant="outline" className="mb-6 gap-2">
+          <Link to="/history">
+            <ArrowLeft className="w-4 h-4" />
+            {t('detail.back')}
+          </Link>
+        </Button>
+
+        {isLoading ? (
+          <div className="space-y-6">
+            <Skeleton className="h-40 w-full rounded-lg" />
+            <Skeleton className="h-64 w-full rounded-lg" />
+          </div>
+        ) : error || !record ? (
+          <p className="text-center text-muted-foreground py-12">{t('detail.notFound')}</p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground mb-4">
+              {t('detail.analyzedOn', { date: formatDateTime(record.created_at, language) })}
+              {record.crop && ` · ${record.crop}`}
+              {record.field_name && ` · ${record.field_name}`}
+            </p>
+            {record.notes && (
+              <div className="mb-4 rounded-lg border border-border bg-card p-4">
+                <p className="text-sm font-medium text-foreground mb-1">{t('detail.notes')}</p>
+                <p className="text-sm text-muted-foreground whitespace-pre-line">{record.notes}</p>
+              </div>
+            )}
+            <AnalysisResults
+              data={data.diagnosis}
+              language={record.language}
+              images={
+                imageUrls
+                  ? data.images.map((image) => ({ url: imageUrls[image.path], label: image.label }))
+                  : []
+              }
+              reportedCrop={record.crop}
+              reportId={record.id}
+              createdAt={record.created_at}
+            />
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default DiagnosisDetail;
@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, History as HistoryIcon, Search, Sprout } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useI18n } from '@/hooks/use-i18n';
+import { formatDateTime } from '@/i18n/translate';
+import { resultKinds, severityLevels, type ResultKind, type Severity } from '@/lib/diagnosis';
+import { emptyHistoryFilters, fetchDiagnoses, hasHistoryFilters, type HistoryFilters } from '@/lib/history';
+import { getImageUrls } from '@/lib/images';
+import { getSeverityColor } from '@/lib/severity';
+
+// Stored rows are plain text columns; older rows may hold values we no longer produce
+const isResultKind = (kind: string): kind is ResultKind => (resultKinds as readonly string[]).includes(kind);
+const isSeverity = (severity: string): severity is Severity => (severityLevels as readonly string[]).includes(severity);
+
+const TEXT_FILTER_DELAY_MS = 300;
+
+const History = () => {
+  const [filters, setFilters] = useState<HistoryFilters>(emptyHistoryFilters);
+  const { language, t } = useI18n();
+  // The text boxes only query once the farmer pauses typing
+  const search = useDebouncedValue(filters.search, TEXT_FILTER_DELAY_MS);
+  const crop = useDebouncedValue(filters.crop, TEXT_FILTER_DELAY_MS);
+  const queryFilters = { ...filters, search, crop };
+
+  const { data: records, isLoading, error } = useQuery({
+    queryKey: ['diagnoses', queryFilters],
+    queryFn: () => fetchDiagnoses(queryFilters),
+  });
+
+  const imagePaths = records?.map((record) => record.image_path) ?? [];
+  const { data: imageUrls } = useQuery({
+    queryKey: ['diagnosis-images', imagePaths],
+    queryFn: () => getImageUrls(imagePaths),
+    enabled: imagePaths.length > 0,
+  });
+
+  const updateFilter = <K extends keyof HistoryFilters>(key: K, value: HistoryFilters[K]) =>
+    setFilters((current) => ({ ...current, [key]: value }));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-primary/10">
+              <HistoryIcon className="w-8 h-8 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">{t('history.title')}</h1>
+              <p className="text-sm text-muted-foreground">{t('history.subtitle')}</p>
+            </div>
+          </div>
+          <Button asChild variant="outline" className="gap-2">
+            <Link to="/">
+              <ArrowLeft className="w-4 h-4" />
+              {t('history.newAnalysis')}
+            </Link>
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-12 max-w-5xl space-y-6">
+        {/* Filters */}
+        <Card>
+          <CardContent className="pt-6 grid gap-4 md:grid-cols-4">
+            <div className="space-y-2">
+              <Label htmlFor="history-search">{t('history.search')}</Label>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  id="history-search"
+                  value={filters.search}
+                  onChange={(e) => updateFilter('search', e.target.value)}
+                  placeholder={t('history.searchPlaceholder')}
+                  className="pl-9"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="history-crop">{t('history.crop')}</Label>
+              <div className="relative">
+                <Sprout className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  id="history-crop"
+                  value={filters.crop}
+                  onChange={(e) => updateFilter('crop', e.target.value)}
+                  placeholder={t('history.cropPlaceholder')}
+                  className="pl-9"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>{t('history.severity')}</Label>
+              <Select
+                value={filters.severity}
+                onValueChange={(value) => updateFilter('severity', value as HistoryFilters['severity'])}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t('history.allSeverities')}</SelectItem>
+                  {severityLevels.map((level) => (
+                    <SelectItem key={level} value={level}>
+                      {t(`severity.${level}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t('history.dateRange')}</Label>
+              <div className="flex gap-2">
+                <Input
+                  type="date"
+                  aria-label={t('history.from')}
+                  value={filters.from}
+                  onChange={(e) => updateFilter('from', e.target.value)}
+                />
+                <Input
+                  type="date"
+                  aria-label={t('history.to')}
+                  value={filters.to}
+                  onChange={(e) => updateFilter('to', e.target.value)}
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Results */}
+        {isLoading ? (
+          <div className="space-y-4">
+            {[0, 1, 2].map((index) => (
+              <Skeleton key={index} className="h-24 w-full rounded-lg" />
+            ))}
+          </div>
+        ) : error ? (
+          <p className="text-center text-destructive">{t('history.loadFailed')}</p>
+        ) : !records?.length ? (
+          <div className="text-center space-y-4 py-12">
+            <p className="text-muted-foreground">{t('history.empty')}</p>
+            {hasHistoryFilters(filters) && (
+              <Button variant="outline" onClick={() => setFilters(emptyHistoryFilters)}>
+                {t('history.clearFilters')}
+              </Button>
+            )}
+          </div>
+        ) : (
+          <ul className="space-y-4">
+            {records.map((record) => (
+              <li key={record.id}>
+                <Link to={`/history/${record.id}`} className="block">
+                  <Card className="transition-colors hover:border-primary">
+                    <CardContent className="p-4 flex items-center gap-4">
+                      {imageUrls?.[record.image_path] ? (
+                        <img
+                          src={imageUrls[record.image_path]}
+                          alt=""
+                          className="w-20 h-20 rounded-md object-cover border border-border flex-shrink-0"
+                        />
+                      ) : (
+                        <Skeleton className="w-20 h-20 rounded-md flex-shrink-0" />
+                      )}
+                      <div className="flex-1 min-w-0 space-y-1">
+                        <p className="font-semibold text-foreground truncate">
+                          {record.disease_name || (isResultKind(record.kind) ? t(`kind.${record.kind}`) : record.kind)}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {formatDateTime(record.created_at, language)}
+                          {(record.crop || record.identified_crop) && ` · ${record.crop || record.identified_crop}`}
+                          {record.field_name && ` · ${record.field_name}`}
+                        </p>
+                      </div>
+                      {record.severity && (
+                        <Badge className={getSeverityColor(record.severity)}>
+                          {(isSeverity(record.severity) ? t(`severity.${record.severity}`) : record.severity).toUpperCase()}
+                        </Badge>
+                      )}
+                    </CardContent>
+                  </Card>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default History;
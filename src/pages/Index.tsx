@@ -1,80 +1,113 @@
 import { useState } from 'react';
-import { Leaf, Sparkles, ArrowRight } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { Leaf, Sparkles, ArrowRight, History, RefreshCw } from 'lucide-react';
 import { ImageUpload } from '@/components/ImageUpload';
 import { LanguageSelector } from '@/components/LanguageSelector';
 import { AnalysisResults } from '@/components/AnalysisResults';
+import { VoiceNote } from '@/components/VoiceNote';
+import { FieldContextForm } from '@/components/FieldContextForm';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
-
-interface AnalysisData {
-  diseaseName: string;
-  scientificName: string;
-  confidence: number;
-  severity: 'low' | 'moderate' | 'high' | 'critical';
-  description: string;
-  symptoms: string[];
-  causes: string[];
-  treatment: string[];
-  prevention: string[];
-  affectedParts: string[];
-  spreadRate: string;
-}
+import { useErrorToast } from '@/hooks/use-error-toast';
+import { useFieldContextForm } from '@/hooks/use-field-context-form';
+import { useI18n } from '@/hooks/use-i18n';
+import { analyzePlantImages, type Diagnosis } from '@/lib/diagnosis';
+import { fieldContextSchema } from '@/lib/field-context';
+import { saveDiagnosis, type DiagnosisRecord } from '@/lib/history';
+import { removePlantImages, uploadPlantImage, type SelectedImage } from '@/lib/images';
 
 const Index = () => {
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
-  const [language, setLanguage] = useState('en');
+  const [images, setImages] = useState<SelectedImage[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [analysisData, setAnalysisData] = useState<AnalysisData | null>(null);
+  const [analysisData, setAnalysisData] = useState<Diagnosis | null>(null);
+  const [isCached, setIsCached] = useState(false);
+  const [savedRecord, setSavedRecord] = useState<DiagnosisRecord | null>(null);
+  // The crop as entered for the analysis on screen, not as edited since
+  const [reportedCrop, setReportedCrop] = useState('');
+  // Remounts the results view for every new analysis, not for translations
+  const [analysisRun, setAnalysisRun] = useState(0);
+  const [fieldName, setFieldName] = useState('');
+  const [notes, setNotes] = useState('');
+  const fieldContextForm = useFieldContextForm();
+  const { language, setLanguage, t } = useI18n();
   const { toast } = useToast();
+  const showError = useErrorToast();
+  const queryClient = useQueryClient();
 
-  const handleImageSelect = (file: File, preview: string) => {
-    setImageFile(file);
-    setImagePreview(preview);
+  const handleImagesChange = (update: (current: SelectedImage[]) => SelectedImage[]) => {
+    setImages(update);
     setAnalysisData(null);
   };
 
-  const handleClearImage = () => {
-    setImageFile(null);
-    setImagePreview(null);
+  const handleClearImages = () => {
+    setImages([]);
     setAnalysisData(null);
   };
 
-  const handleAnalyze = async () => {
-    if (!imagePreview) {
+  const handleAnalyze = async (forceRefresh = false) => {
+    if (images.length === 0) {
       toast({
-        title: 'No image selected',
-        description: 'Please upload a plant image first.',
+        title: t('home.noImage.title'),
+        description: t('home.noImage.description'),
         variant: 'destructive',
       });
       return;
     }
 
+    // Invalid field details open the form with their messages instead
+    if (!(await fieldContextForm.trigger())) return;
+    const fieldContext = fieldContextSchema.parse(fieldContextForm.getValues());
+
     setIsAnalyzing(true);
     try {
-      const { data, error } = await supabase.functions.invoke('analyze-plant-disease', {
-        body: {
-          imageData: imagePreview,
-          language: language,
-        },
-      });
-
-      if (error) {
-        throw error;
+      // Upload once per image so re-analysing doesn't send the photos again
+      const results = await Promise.allSettled(
+        images.map(async (image) => image.path ? image : { ...image, path: await uploadPlantImage(image.file) })
+      );
+      const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (failure) {
+        // Photos uploaded in this attempt would otherwise be left in storage with no diagnosis
+        removePlantImages(
+          results.flatMap((result, index) =>
+            result.status === 'fulfilled' && !images[index].path ? [result.value.path!] : []
+          )
+        );
+        throw failure.reason;
       }
+      const uploaded = results.map((result) => (result as PromiseFulfilledResult<SelectedImage>).value);
+      setImages(uploaded);
 
-      setAnalysisData(data);
+      const analysisImages = uploaded.map(({ path, label }) => ({ path: path!, label }));
+      const { diagnosis, cached } = await analyzePlantImages(analysisImages, language, {
+        notes,
+        fieldContext,
+        forceRefresh,
+      });
+      setAnalysisData(diagnosis);
+      setIsCached(cached);
+      setSavedRecord(null);
+      setReportedCrop(fieldContext.crop);
+      setAnalysisRun((run) => run + 1);
       toast({
-        title: 'Analysis Complete',
-        description: 'Plant disease has been successfully analyzed.',
+        title: t(`analysis.${diagnosis.kind}.title`),
+        description: t(`analysis.${diagnosis.kind}.description`),
       });
+
+      saveDiagnosis({ images: analysisImages, language, diagnosis, crop: fieldContext.crop, fieldName, notes })
+        .then((record) => {
+          setSavedRecord(record);
+          return queryClient.invalidateQueries({ queryKey: ['diagnoses'] });
+        })
+        .catch((saveError) => console.error('Error saving diagnosis:', saveError));
     } catch (error) {
       console.error('Error analyzing image:', error);
-      toast({
-        title: 'Analysis Failed',
-        description: error instanceof Error ? error.message : 'Failed to analyze the plant image. Please try again.',
-        variant: 'destructive',
+      showError(error, {
+        onRetry: () => handleAnalyze(forceRefresh),
+        onChoosePhoto: handleClearImages,
       });
     } finally {
       setIsAnalyzing(false);
@@ -92,15 +125,23 @@ const Index = () => {
                 <Leaf className="w-8 h-8 text-primary" />
               </div>
               <div>
-                <h1 className="text-2xl font-bold text-foreground">PlantCare AI</h1>
-                <p className="text-sm text-muted-foreground">Smart Disease Detection</p>
+                <h1 className="text-2xl font-bold text-foreground">{t('app.name')}</h1>
+                <p className="text-sm text-muted-foreground">{t('app.tagline')}</p>
               </div>
             </div>
-            <LanguageSelector 
-              value={language} 
-              onChange={setLanguage} 
-              disabled={isAnalyzing}
-            />
+            <div className="flex items-center gap-3">
+              <Button asChild variant="ghost" className="gap-2">
+                <Link to="/history">
+                  <History className="w-4 h-4" />
+                  <span className="hidden md:inline">{t('nav.history')}</span>
+                </Link>
+              </Button>
+              <LanguageSelector 
+                value={language} 
+                onChange={setLanguage} 
+                disabled={isAnalyzing}
+              />
+            </div>
           </div>
         </div>
       </header>
@@ -113,31 +154,51 @@ const Index = () => {
             <div className="text-center space-y-4 mb-12">
               <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-primary/10 text-primary text-sm font-medium mb-4">
                 <Sparkles className="w-4 h-4" />
-                AI-Powered Plant Health Analysis
+                {t('home.badge')}
               </div>
               <h2 className="text-4xl md:text-5xl font-bold text-foreground">
-                Detect Plant Diseases
+                {t('home.title')}
                 <br />
-                <span className="text-primary">In Seconds</span>
+                <span className="text-primary">{t('home.titleHighlight')}</span>
               </h2>
               <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
-                Upload a photo of your plant and get instant AI-powered disease detection with treatment recommendations in your preferred language.
+                {t('home.subtitle')}
               </p>
             </div>
 
             {/* Upload Section */}
             <div className="bg-card rounded-2xl shadow-lg p-8 border border-border">
               <ImageUpload
-                onImageSelect={handleImageSelect}
-                preview={imagePreview}
-                onClear={handleClearImage}
+                images={images}
+                onImagesChange={handleImagesChange}
                 disabled={isAnalyzing}
               />
 
-              {imagePreview && (
+              {images.length > 0 && (
+                <div className="mt-6 grid md:grid-cols-2 gap-4">
+                  <div className="space-y-2 md:col-span-2">
+                    <Label htmlFor="field-name">{t('home.fieldLabel')}</Label>
+                    <Input
+                      id="field-name"
+                      value={fieldName}
+                      onChange={(e) => setFieldName(e.target.value)}
+                      placeholder={t('home.fieldPlaceholder')}
+                      disabled={isAnalyzing}
+                    />
+                  </div>
+                  <div className="md:col-span-2">
+                    <FieldContextForm form={fieldContextForm} disabled={isAnalyzing} />
+                  </div>
+                  <div className="md:col-span-2">
+                    <VoiceNote value={notes} onChange={setNotes} disabled={isAnalyzing} />
+                  </div>
+                </div>
+              )}
+
+              {images.length > 0 && (
                 <div className="mt-6 flex justify-center">
                   <Button
-                    onClick={handleAnalyze}
+                    onClick={() => handleAnalyze()}
                     disabled={isAnalyzing}
                     size="lg"
                     className="gap-2 text-lg px-8"
@@ -145,11 +206,11 @@ const Index = () => {
                     {isAnalyzing ? (
                       <>
                         <div className="w-5 h-5 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
-                        Analyzing...
+                        {t('home.analyzing')}
                       </>
                     ) : (
                       <>
-                        Analyze Plant
+                        {t('home.analyze')}
                         <ArrowRight className="w-5 h-5" />
                       </>
                     )}
@@ -164,51 +225,70 @@ const Index = () => {
                 <div className="w-12 h-12 rounded-lg bg-primary/10 flex items-center justify-center mb-4">
                   <Sparkles className="w-6 h-6 text-primary" />
                 </div>
-                <h3 className="font-semibold text-foreground mb-2">AI-Powered Detection</h3>
+                <h3 className="font-semibold text-foreground mb-2">{t('home.feature.detection.title')}</h3>
                 <p className="text-sm text-muted-foreground">
-                  Advanced computer vision analyzes plant health with high accuracy
+                  {t('home.feature.detection.description')}
                 </p>
               </div>
               <div className="bg-card rounded-xl p-6 border border-border">
                 <div className="w-12 h-12 rounded-lg bg-primary/10 flex items-center justify-center mb-4">
                   <Leaf className="w-6 h-6 text-primary" />
                 </div>
-                <h3 className="font-semibold text-foreground mb-2">Multi-Language Support</h3>
+                <h3 className="font-semibold text-foreground mb-2">{t('home.feature.languages.title')}</h3>
                 <p className="text-sm text-muted-foreground">
-                  Get results in 9 Indian languages for better understanding
+                  {t('home.feature.languages.description')}
                 </p>
               </div>
               <div className="bg-card rounded-xl p-6 border border-border">
                 <div className="w-12 h-12 rounded-lg bg-primary/10 flex items-center justify-center mb-4">
                   <ArrowRight className="w-6 h-6 text-primary" />
                 </div>
-                <h3 className="font-semibold text-foreground mb-2">Treatment Plans</h3>
+                <h3 className="font-semibold text-foreground mb-2">{t('home.feature.treatment.title')}</h3>
                 <p className="text-sm text-muted-foreground">
-                  Receive detailed treatment and prevention recommendations
+                  {t('home.feature.treatment.description')}
                 </p>
               </div>
             </div>
           </div>
         ) : (
           <div className="max-w-6xl mx-auto">
-            <Button
-              onClick={() => {
-                setAnalysisData(null);
-                handleClearImage();
-              }}
-              variant="outline"
-              className="mb-6"
-            >
-              ← Analyze Another Plant
-            </Button>
+            <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
+              <Button
+                onClick={() => {
+                  setAnalysisData(null);
+                  handleClearImages();
+                }}
+                variant="outline"
+              >
+                {analysisData.kind === 'not_a_plant' || analysisData.kind === 'unclear_image'
+                  ? t('home.retakePhoto')
+                  : t('home.analyzeAnother')}
+              </Button>
+              {isCached && (
+                <div className="flex items-center gap-3">
+                  <Badge variant="secondary">{t('home.cachedResult')}</Badge>
+                  <Button
+                    onClick={() => handleAnalyze(true)}
+                    disabled={isAnalyzing}
+                    variant="ghost"
+                    className="gap-2"
+                  >
+                    <RefreshCw className={isAnalyzing ? 'w-4 h-4 animate-spin' : 'w-4 h-4'} />
+                    {t('home.freshAnalysis')}
+                  </Button>
+                </div>
+              )}
+            </div>
             <AnalysisResults 
+              key={analysisRun}
               data={analysisData} 
               language={language}
-              imagePreview={imagePreview || ''}
-              onLanguageChange={(newLang, newData) => {
-                setLanguage(newLang);
-                setAnalysisData(newData);
-              }}
+              images={images.map(({ preview, label }) => ({ url: preview, label }))}
+              reportedCrop={reportedCrop}
+              reportId={savedRecord?.id}
+              createdAt={savedRecord?.created_at}
+              // Translating the report leaves the interface in the app language
+              onLanguageChange={(_reportLanguage, newData) => setAnalysisData(newData)}
             />
           </div>
         )}
@@ -218,8 +298,8 @@ const Index = () => {
       <footer className="border-t border-border bg-card/50 backdrop-blur-sm mt-20">
         <div className="container mx-auto px-4 py-8">
           <div className="text-center text-muted-foreground text-sm">
-            <p>© 2024 PlantCare AI. Powered by advanced AI technology.</p>
-            <p className="mt-2">Helping farmers and gardeners protect their crops.</p>
+            <p>{t('app.footer.copyright')}</p>
+            <p className="mt-2">{t('app.footer.mission')}</p>
           </div>
         </div>
       </footer>
@@ -1,8 +1,10 @@
 import { useLocation } from "react-router-dom";
 import { useEffect } from "react";
+import { useI18n } from "@/hooks/use-i18n";
 
 const NotFound = () => {
   const location = useLocation();
+  const { t } = useI18n();
 
   useEffect(() => {
     console.error("404 Error: User attempted to access non-existent route:", location.pathname);
@@ -12,9 +14,9 @@ const NotFound = () => {
     <div className="flex min-h-screen items-center justify-center bg-gray-100">
       <div className="text-center">
         <h1 className="mb-4 text-4xl font-bold">404</h1>
-        <p className="mb-4 text-xl text-gray-600">Oops! Page not found</p>
+        <p className="mb-4 text-xl text-gray-600">{t("notFound.message")}</p>
         <a href="/" className="text-blue-500 underline hover:text-blue-700">
-          Return to Home
+          {t("notFound.home")}
         </a>
       </div>
     </div>
@@ -0,0 +1,107 @@
+import { Link, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Leaf, Lock } from 'lucide-react';
+import { AnalysisResults } from '@/components/AnalysisResults';
+import { LanguageSelector } from '@/components/LanguageSelector';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useI18n } from '@/hooks/use-i18n';
+import { formatDateTime } from '@/i18n/translate';
+import { translateDiagnosis } from '@/lib/diagnosis';
+import { describeError } from '@/lib/error-messages';
+import { AppError } from '@/lib/errors';
+import { fetchSharedDiagnosis } from '@/lib/shares';
+
+const SharedDiagnosis = () => {
+  const { shareId } = useParams<{ shareId: string }>();
+  const { language, setLanguage, t } = useI18n();
+
+  const { data: shared, isLoading, error } = useQuery({
+    queryKey: ['shares', shareId],
+    queryFn: () => fetchSharedDiagnosis(shareId!),
+    // Missing, revoked and expired links won't come back by retrying
+    retry: (failureCount, queryError) => !(queryError instanceof AppError) && failureCount < 3,
+    enabled: !!shareId,
+  });
+
+  // Shown in the viewer's language; the original is used if translation fails
+  const needsTranslation = !!shared && shared.language !== language;
+  const { data: translated, isLoading: isTranslating } = useQuery({
+    queryKey: ['shares', shareId, 'translation', language],
+    queryFn: () => translateDiagnosis(shared!.diagnosis, language),
+    enabled: needsTranslation,
+    staleTime: Infinity,
+  });
+  const viewLanguage = needsTranslation && translated ? language : shared?.language;
+  const viewDiagnosis = needsTranslation && translated ? translated : shared?.diagnosis;
+
+  const failure = error && describeError(error, language);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between gap-3">
+            <Link to="/" className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-primary/10">
+                <Leaf className="w-8 h-8 text-primary" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">{t('app.name')}</h1>
+                <p className="text-sm text-muted-foreground">{t('app.tagline')}</p>
+              </div>
+            </Link>
+            <LanguageSelector value={language} onChange={setLanguage} disabled={isTranslating} />
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-12 max-w-6xl">
+        {isLoading || (needsTranslation && isTranslating) ? (
+          <div className="space-y-6">
+            <Skeleton className="h-40 w-full rounded-lg" />
+            <Skeleton className="h-64 w-full rounded-lg" />
+          </div>
+        ) : failure || !shared || !viewDiagnosis || !viewLanguage ? (
+          <div className="text-center space-y-4 py-12">
+            <h2 className="text-2xl font-bold text-foreground">{failure?.title ?? t('error.share_not_found.title')}</h2>
+            <p className="text-muted-foreground">{failure?.description ?? t('error.share_not_found.description')}</p>
+            <Button asChild>
+              <Link to="/">{t('shared.tryIt')}</Link>
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground mb-4">
+              <Badge variant="secondary" className="gap-1">
+                <Lock className="w-3 h-3" />
+                {t('shared.readOnly')}
+              </Badge>
+              <span>{t('detail.analyzedOn', { date: formatDateTime(shared.createdAt, language) })}</span>
+              {shared.expiresAt && (
+                <span>· {t('share.expiresOn', { date: formatDateTime(shared.expiresAt, language) })}</span>
+              )}
+            </div>
+            <AnalysisResults
+              key={viewLanguage}
+              data={viewDiagnosis}
+              language={viewLanguage}
+              images={shared.images.map(({ url, label }) => ({ url, label }))}
+              reportedCrop={shared.reportedCrop}
+              createdAt={shared.createdAt}
+              readOnly
+            />
+            <div className="text-center mt-12">
+              <Button asChild variant="outline">
+                <Link to="/">{t('shared.tryIt')}</Link>
+              </Button>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SharedDiagnosis;
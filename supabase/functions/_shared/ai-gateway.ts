@@ -0,0 +1,70 @@
+import { errorResponse } from './cors.ts';
+import { diagnosisSchema, translatableText } from './diagnosis.ts';
+import { isWrittenIn, type Language } from './languages.ts';
+import { type ChatMessage, getProvider } from './providers/index.ts';
+import { defaultRetryOptions, startDeadline, withRetry } from './retry.ts';
+
+export { type ChatMessage, type ContentPart } from './providers/index.ts';
+
+export const requestCompletion = (
+  messages: ChatMessage[],
+  temperature = 0.3,
+  deadline = startDeadline()
+): Promise<string> => {
+  const provider = getProvider();
+  return withRetry((signal) => provider.complete({ messages, temperature, signal }), defaultRetryOptions(), deadline);
+};
+
+// Pulls the first JSON object out of the model reply, which may be bare JSON,
+// a fenced code block or JSON surrounded by prose.
+export const extractJson = (content: string): unknown => {
+  const candidates = [
+    content,
+    content.match(/```(?:json)?\s*([\s\S]*?)\s*```/)?.[1],
+    content.match(/\{[\s\S]*\}/)?.[0],
+  ];
+
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return null;
+};
+
+export const modelOutputInvalidResponse = (issues: { path: (string | number)[]; message: string }[]) => {
+  console.error('Model output failed validation:', issues);
+  return errorResponse('model_output_invalid', 'The AI returned a diagnosis that could not be read. Please try again.', {
+    issues: issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message })),
+  });
+};
+
+// Requests a diagnosis and checks its prose is in the requested language.
+// Models sometimes fall back to English, so a reply in the wrong script is
+// sent back once with a reminder; if that fails too the caller decides. Both
+// calls share one deadline.
+export const requestDiagnosisIn = async (language: Language, messages: ChatMessage[], temperature?: number) => {
+  const { englishOnly } = getProvider();
+  const isInLanguage = (parsed: ReturnType<typeof diagnosisSchema.safeParse>) =>
+    parsed.success && (englishOnly || isWrittenIn(translatableText(parsed.data), language.script));
+
+  const deadline = startDeadline();
+  const content = await requestCompletion(messages, temperature, deadline);
+  const parsed = diagnosisSchema.safeParse(extractJson(content));
+  if (!parsed.success || isInLanguage(parsed)) {
+    return { parsed, inLanguage: parsed.success };
+  }
+
+  console.warn(`Reply was not written in the ${language.script} script, asking again`);
+  const reminder = `Your answer was not written in ${language.name}. Send the same JSON again with every text value written in ${language.name} (${language.nativeName}) using the ${language.script} script. Keep scientific names in Latin.`;
+  const retryContent = await requestCompletion(
+    [...messages, { role: 'assistant', content }, { role: 'user', content: reminder }],
+    temperature,
+    deadline
+  );
+  const retried = diagnosisSchema.safeParse(extractJson(retryContent));
+  return { parsed: retried, inLanguage: isInLanguage(retried) };
+};
@@ -0,0 +1,65 @@
+import { sha256 } from './hash.ts';
+import type { AnalysisImage } from './images.ts';
+import { downloadImage, supabaseAdmin } from './supabase-admin.ts';
+
+const DEFAULT_TTL_HOURS = 24 * 7;
+
+export interface CacheKey {
+  imageHash: string;
+  language: string;
+  promptVersion: number;
+}
+
+// Hashes the photo bytes rather than their storage paths, so re-uploading the
+// same photo still hits the cache. Labels and the farmer's notes and field
+// details are part of the hash because they are part of the prompt.
+export const hashAnalysisImages = async (images: AnalysisImage[], extras: Record<string, string> = {}) => {
+  const parts: string[] = [];
+  for (const image of images) {
+    parts.push(`${image.label}:${await sha256(await downloadImage(image.path))}`);
+  }
+  // Empty extras are left out so photos analysed without them keep their old hash
+  for (const [name, value] of Object.entries(extras)) {
+    if (value) parts.push(`${name}:${await sha256(value)}`);
+  }
+  return sha256(parts.join('|'));
+};
+
+export const readCachedResult = async ({ imageHash, language, promptVersion }: CacheKey) => {
+  const { data, error } = await supabaseAdmin
+    .from('diagnosis_cache')
+    .select('result')
+    .eq('image_hash', imageHash)
+    .eq('language', language)
+    .eq('prompt_version', promptVersion)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (error) {
+    // A broken cache must never block an analysis
+    console.error('Failed to read diagnosis cache:', error);
+    return null;
+  }
+  return data?.result ?? null;
+};
+
+export const writeCachedResult = async ({ imageHash, language, promptVersion }: CacheKey, result: unknown) => {
+  const ttlHours = Number(Deno.env.get('CACHE_TTL_HOURS')) || DEFAULT_TTL_HOURS;
+  const expiresAt = new Date(Date.now() + ttlHours * 60 * 60 * 1000);
+
+  const { error } = await supabaseAdmin.from('diagnosis_cache').upsert(
+    {
+      image_hash: imageHash,
+      language,
+      prompt_version: promptVersion,
+      result,
+      created_at: new Date().toISOString(),
+      expires_at: expiresAt.toISOString(),
+    },
+    { onConflict: 'image_hash,language,prompt_version' }
+  );
+
+  if (error) {
+    console.error('Failed to write diagnosis cache:', error);
+  }
+};
@@ -0,0 +1,34 @@
+import { AppError, type ErrorBody, type ErrorCode, errorStatus } from './errors.ts';
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+export const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+export const errorResponse = (code: ErrorCode, message: string, extra: Pick<ErrorBody, 'issues'> = {}) =>
+  jsonResponse({ error: message, code, ...extra } satisfies ErrorBody, errorStatus[code]);
+
+// Maps anything thrown inside a handler to the error envelope. Only AppError
+// messages are meant for users; anything else is logged and reported as internal.
+export const toErrorResponse = (error: unknown, context: string) => {
+  if (error instanceof AppError) {
+    console.error(`${context}:`, error.code, error.message);
+    return errorResponse(error.code, error.message);
+  }
+  console.error(`${context}:`, error);
+  return errorResponse('internal', 'Something went wrong. Please try again.');
+};
+
+export const readJsonBody = async (req: Request): Promise<Record<string, unknown>> => {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== 'object') {
+    throw new AppError('invalid_request', 'The request body must be a JSON object.');
+  }
+  return body;
+};
@@ -0,0 +1,315 @@
+import { z } from 'zod';
+
+// Bump whenever the shape of the diagnosis changes so clients can detect
+// responses they do not understand.
+export const DIAGNOSIS_SCHEMA_VERSION = 7;
+
+export const MAX_ALTERNATIVES = 4;
+export const MAX_SYMPTOM_REGIONS = 12;
+
+export const resultKinds = ['diseased', 'healthy', 'not_a_plant', 'unclear_image'] as const;
+export const severityLevels = ['low', 'moderate', 'high', 'critical'] as const;
+export const spreadRates = ['low', 'moderate', 'high'] as const;
+
+// A 0-5 disease severity scale graded by the share of visible tissue with
+// symptoms; each grade covers percentages above the previous grade's maximum.
+export const severityGrades = [
+  { grade: 0, maxPercent: 0 },
+  { grade: 1, maxPercent: 10 },
+  { grade: 2, maxPercent: 25 },
+  { grade: 3, maxPercent: 50 },
+  { grade: 4, maxPercent: 75 },
+  { grade: 5, maxPercent: 100 },
+] as const;
+
+export const MAX_SEVERITY_GRADE = severityGrades[severityGrades.length - 1].grade;
+
+export const gradeForPercent = (percent: number) =>
+  (severityGrades.find((band) => percent <= band.maxPercent) ?? severityGrades[severityGrades.length - 1]).grade;
+
+const resultKindAliases: Record<string, (typeof resultKinds)[number]> = {
+  disease: 'diseased',
+  infected: 'diseased',
+  unhealthy: 'diseased',
+  not_plant: 'not_a_plant',
+  'not a plant': 'not_a_plant',
+  unclear: 'unclear_image',
+  blurry: 'unclear_image',
+};
+
+const severityAliases: Record<string, (typeof severityLevels)[number]> = {
+  mild: 'low',
+  minor: 'low',
+  medium: 'moderate',
+  severe: 'high',
+  'very high': 'critical',
+  extreme: 'critical',
+};
+
+const spreadRateAliases: Record<string, (typeof spreadRates)[number]> = {
+  slow: 'low',
+  medium: 'moderate',
+  fast: 'high',
+  rapid: 'high',
+};
+
+const coerceEnum =
+  <T extends string>(values: readonly T[], aliases: Record<string, T>, fallback: T) =>
+  (value: unknown): T => {
+    if (typeof value !== 'string') return fallback;
+    const normalized = value.trim().toLowerCase();
+    if ((values as readonly string[]).includes(normalized)) return normalized as T;
+    return aliases[normalized] ?? fallback;
+  };
+
+const coerceConfidence = (value: unknown): number => {
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed)) return 0;
+  // Some models answer with a 0-1 probability instead of a percentage. Whole
+  // numbers are percentages, so 1 stays 1%.
+  const percent = parsed > 0 && parsed < 1 ? parsed * 100 : parsed;
+  return Math.round(Math.min(100, Math.max(0, percent)));
+};
+
+// Unlike confidence, a value below 1 is a small affected area rather than a
+// probability, so it is kept as a percentage to one decimal place.
+const coercePercent = (value: unknown): number => {
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed)) return 0;
+  return Math.round(Math.min(100, Math.max(0, parsed)) * 10) / 10;
+};
+
+const coerceStringList = (value: unknown): string[] => {
+  if (typeof value === 'string') return value.trim() ? [value.trim()] : [];
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item) => typeof item === 'string' || typeof item === 'number')
+    .map((item) => String(item).trim())
+    .filter(Boolean);
+};
+
+const coerceString = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+const stringList = z.preprocess(coerceStringList, z.array(z.string()));
+
+export const alternativeDiagnosisSchema = z.object({
+  diseaseName: z.string().trim().min(1),
+  scientificName: z.preprocess(coerceString, z.string()),
+  probability: z.preprocess(coerceConfidence, z.number().min(0).max(100)),
+  distinguishingSymptom: z.preprocess(coerceString, z.string()),
+});
+
+export type AlternativeDiagnosis = z.infer<typeof alternativeDiagnosisSchema>;
+
+// Links symptoms to the photo they were seen in; photo is 1-based, matching
+// how the photos are numbered in the prompt.
+export const photoFindingSchema = z.object({
+  photo: z.preprocess(
+    (value) => (typeof value === 'string' ? parseInt(value, 10) : value),
+    z.number().int().min(1),
+  ),
+  symptoms: stringList,
+});
+
+export type PhotoFinding = z.infer<typeof photoFindingSchema>;
+
+const coercePhotoFindings = (value: unknown): PhotoFinding[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((item) => photoFindingSchema.safeParse(item))
+    .flatMap((result) => (result.success && result.data.symptoms.length > 0 ? [result.data] : []))
+    .sort((a, b) => a.photo - b.photo);
+};
+
+const coerceCoordinate = (value: unknown): number => {
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : 0;
+};
+
+const coordinate = z.preprocess(coerceCoordinate, z.number());
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Coordinates are fractions of the photo's width and height, measured from
+// its top-left corner. Some models answer in percent. The unit is decided for
+// the whole box, as a box in percent can still have a coordinate of 1 or less.
+const toFractionBox = ({ x, y, width, height }: Box): Box => {
+  const scale = [x, y, width, height].some((value) => value > 1) ? 100 : 1;
+  const toFraction = (value: number) => Math.min(1, Math.max(0, value / scale));
+  return { x: toFraction(x), y: toFraction(y), width: toFraction(width), height: toFraction(height) };
+};
+
+// An approximate box around a visible symptom in one photo, so the app can
+// show what the verdict was based on.
+export const symptomRegionSchema = z
+  .object({
+    photo: z.preprocess(
+      (value) => (typeof value === 'string' ? parseInt(value, 10) : value),
+      z.number().int().min(1),
+    ),
+    label: z.string().trim().min(1),
+    x: coordinate,
+    y: coordinate,
+    width: coordinate,
+    height: coordinate,
+  })
+  .transform(({ x, y, width, height, ...region }) => ({ ...region, ...toFractionBox({ x, y, width, height }) }));
+
+export type SymptomRegion = z.infer<typeof symptomRegionSchema>;
+
+// Boxes are clipped to the photo and empty ones dropped
+const coerceSymptomRegions = (value: unknown): SymptomRegion[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((item) => symptomRegionSchema.safeParse(item))
+    .flatMap((result) => (result.success ? [result.data] : []))
+    .map((region) => ({
+      ...region,
+      width: Math.min(region.width, 1 - region.x),
+      height: Math.min(region.height, 1 - region.y),
+    }))
+    .filter((region) => region.width > 0 && region.height > 0)
+    .slice(0, MAX_SYMPTOM_REGIONS);
+};
+
+// Drops candidates the model left unnamed instead of rejecting the whole
+// diagnosis, then keeps the most likely ones in ranked order.
+const coerceAlternatives = (value: unknown): AlternativeDiagnosis[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((item) => alternativeDiagnosisSchema.safeParse(item))
+    .flatMap((result) => (result.success ? [result.data] : []))
+    .sort((a, b) => b.probability - a.probability)
+    .slice(0, MAX_ALTERNATIVES);
+};
+
+// The percentage is the measurement. The model's grade is not trusted; it is
+// derived from the percentage so the two can never disagree.
+export const severityEstimateSchema = z
+  .object({
+    percentAffected: z.preprocess(coercePercent, z.number().min(0).max(100)),
+  })
+  .transform(({ percentAffected }) => ({ percentAffected, grade: gradeForPercent(percentAffected) }));
+
+export type SeverityEstimate = z.infer<typeof severityEstimateSchema>;
+
+// Diagnoses saved before the area was estimated have no estimate
+const coerceSeverityEstimate = (value: unknown) => (typeof value === 'object' && value !== null ? value : null);
+
+// Which plant the photos show. matchesReported compares it with the crop the
+// farmer entered and is null when they entered none.
+export const identifiedCropSchema = z.object({
+  commonName: z.preprocess(coerceString, z.string()),
+  scientificName: z.preprocess(coerceString, z.string()),
+  confidence: z.preprocess(coerceConfidence, z.number().min(0).max(100)),
+  matchesReported: z.preprocess((value) => (typeof value === 'boolean' ? value : null), z.boolean().nullable()),
+});
+
+export type IdentifiedCrop = z.infer<typeof identifiedCropSchema>;
+
+// Diagnoses saved before crops were identified have none
+const coerceIdentifiedCrop = (value: unknown) => (typeof value === 'object' && value !== null ? value : {});
+
+export const diagnosisSchema = z
+  .object({
+    kind: z.preprocess(coerceEnum(resultKinds, resultKindAliases, 'diseased'), z.enum(resultKinds)),
+    crop: z.preprocess(coerceIdentifiedCrop, identifiedCropSchema),
+    diseaseName: z.preprocess(coerceString, z.string()),
+    scientificName: z.preprocess(coerceString, z.string()),
+    confidence: z.preprocess(coerceConfidence, z.number().min(0).max(100)),
+    severity: z.preprocess(
+      coerceEnum(severityLevels, severityAliases, 'moderate'),
+      z.enum(severityLevels),
+    ),
+    severityEstimate: z.preprocess(coerceSeverityEstimate, severityEstimateSchema.nullable()),
+    description: z.preprocess(coerceString, z.string()),
+    symptoms: stringList,
+    causes: stringList,
+    treatment: stringList,
+    prevention: stringList,
+    affectedParts: stringList,
+    spreadRate: z.preprocess(
+      coerceEnum(spreadRates, spreadRateAliases, 'moderate'),
+      z.enum(spreadRates),
+    ),
+    alternatives: z.preprocess(coerceAlternatives, z.array(alternativeDiagnosisSchema)),
+    retakeTips: stringList,
+    photoFindings: z.preprocess(coercePhotoFindings, z.array(photoFindingSchema)),
+    regions: z.preprocess(coerceSymptomRegions, z.array(symptomRegionSchema)),
+  })
+  .refine((diagnosis) => diagnosis.kind !== 'diseased' || diagnosis.diseaseName.length > 0, {
+    message: 'A diseased result must name the disease',
+    path: ['diseaseName'],
+  });
+
+export type Diagnosis = z.infer<typeof diagnosisSchema>;
+export type ResultKind = Diagnosis['kind'];
+export type Severity = Diagnosis['severity'];
+export type SpreadRate = Diagnosis['spreadRate'];
+
+export const diagnosisResponseSchema = z.object({
+  schemaVersion: z.literal(DIAGNOSIS_SCHEMA_VERSION),
+  diagnosis: diagnosisSchema,
+  // True when the result was served from the cache instead of a model call
+  cached: z.boolean().default(false),
+});
+
+export type DiagnosisResponse = z.infer<typeof diagnosisResponseSchema>;
+
+// Fields that describe the measurement itself rather than prose; a translated
+// diagnosis must carry these over unchanged from the original.
+export const untranslatedFields = [
+  'kind',
+  'scientificName',
+  'confidence',
+  'severity',
+  'severityEstimate',
+  'spreadRate',
+] as const;
+
+// Every prose value the model writes in the requested language; scientific
+// names and enum values stay in English and are left out.
+export const translatableText = (diagnosis: Diagnosis): string[] => [
+  diagnosis.crop.commonName,
+  diagnosis.diseaseName,
+  diagnosis.description,
+  ...diagnosis.symptoms,
+  ...diagnosis.causes,
+  ...diagnosis.treatment,
+  ...diagnosis.prevention,
+  ...diagnosis.affectedParts,
+  ...diagnosis.alternatives.flatMap((alternative) => [alternative.diseaseName, alternative.distinguishingSymptom]),
+  ...diagnosis.retakeTips,
+  ...diagnosis.photoFindings.flatMap((finding) => finding.symptoms),
+  ...diagnosis.regions.map((region) => region.label),
+];
+
+export const preserveUntranslatedFields = (original: Diagnosis, translated: Diagnosis): Diagnosis => {
+  const merged = { ...translated };
+  for (const field of untranslatedFields) {
+    Object.assign(merged, { [field]: original[field] });
+  }
+  merged.crop = { ...original.crop, commonName: translated.crop.commonName || original.crop.commonName };
+  merged.alternatives = original.alternatives.map((alternative, index) => ({
+    ...alternative,
+    diseaseName: translated.alternatives[index]?.diseaseName || alternative.diseaseName,
+    distinguishingSymptom:
+      translated.alternatives[index]?.distinguishingSymptom || alternative.distinguishingSymptom,
+  }));
+  merged.photoFindings = original.photoFindings.map((finding, index) => ({
+    ...finding,
+    symptoms: translated.photoFindings[index]?.symptoms.length
+      ? translated.photoFindings[index].symptoms
+      : finding.symptoms,
+  }));
+  merged.regions = original.regions.map((region, index) => ({
+    ...region,
+    label: translated.regions[index]?.label || region.label,
+  }));
+  return merged;
+};
@@ -0,0 +1,69 @@
+import { z } from 'zod';
+
+// Closed set of machine-readable error codes shared by the edge functions and
+// the client, which maps each one to a localised message and recovery action.
+// upload_failed and network_error are only raised in the browser.
+export const errorCodes = [
+  'invalid_request',
+  'invalid_image',
+  'image_too_large',
+  'image_not_found',
+  'upload_failed',
+  'network_error',
+  'rate_limited',
+  'payment_required',
+  'upstream_unavailable',
+  'upstream_error',
+  'upstream_timeout',
+  'model_output_invalid',
+  'share_not_found',
+  'share_expired',
+  'unauthorized',
+  'forbidden',
+  'misconfigured',
+  'internal',
+] as const;
+
+export type ErrorCode = (typeof errorCodes)[number];
+
+export const errorStatus: Record<ErrorCode, number> = {
+  invalid_request: 400,
+  invalid_image: 400,
+  image_too_large: 413,
+  image_not_found: 404,
+  upload_failed: 500,
+  network_error: 503,
+  rate_limited: 429,
+  payment_required: 402,
+  upstream_unavailable: 502,
+  upstream_error: 502,
+  upstream_timeout: 504,
+  model_output_invalid: 422,
+  share_not_found: 404,
+  share_expired: 410,
+  unauthorized: 401,
+  forbidden: 403,
+  misconfigured: 500,
+  internal: 500,
+};
+
+// Every error response has this shape. `error` is an English fallback for
+// logs and older clients; `issues` is only set for model_output_invalid.
+export const errorBodySchema = z.object({
+  error: z.string(),
+  code: z.enum(errorCodes).catch('internal'),
+  issues: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+});
+
+export type ErrorBody = z.infer<typeof errorBodySchema>;
+
+export class AppError extends Error {
+  constructor(public readonly code: ErrorCode, message: string) {
+    super(message);
+    this.name = 'AppError';
+  }
+
+  get status() {
+    return errorStatus[this.code];
+  }
+}
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+
+export const growthStages = ['seedling', 'vegetative', 'flowering', 'fruiting', 'maturity'] as const;
+export const weatherConditions = ['dry', 'hot', 'rainy', 'humid', 'cold', 'foggy'] as const;
+export const irrigationTypes = ['rainfed', 'flood', 'furrow', 'drip', 'sprinkler'] as const;
+
+export type GrowthStage = (typeof growthStages)[number];
+export type WeatherCondition = (typeof weatherConditions)[number];
+export type IrrigationType = (typeof irrigationTypes)[number];
+
+// English names used in the prompt; the app shows its own translations
+export const growthStageNames: Record<GrowthStage, string> = {
+  seedling: 'seedling',
+  vegetative: 'vegetative growth',
+  flowering: 'flowering',
+  fruiting: 'fruiting or grain filling',
+  maturity: 'maturity, close to harvest',
+};
+
+export const weatherNames: Record<WeatherCondition, string> = {
+  dry: 'dry',
+  hot: 'hot',
+  rainy: 'rainy',
+  humid: 'humid',
+  cold: 'cold',
+  foggy: 'foggy or misty',
+};
+
+export const irrigationNames: Record<IrrigationType, string> = {
+  rainfed: 'rainfed',
+  flood: 'flood irrigation',
+  furrow: 'furrow irrigation',
+  drip: 'drip irrigation',
+  sprinkler: 'sprinkler irrigation',
+};
+
+export const MAX_FIELD_TEXT_LENGTH = 80;
+export const MAX_SPRAYS_LENGTH = 300;
+export const MAX_DAYS_SINCE_SOWING = 730;
+
+// Form inputs arrive as strings; a field left blank means "not given"
+const blankToUndefined = (value: unknown) =>
+  value === null || (typeof value === 'string' && value.trim() === '') ? undefined : value;
+
+const optionalText = (max: number) => z.preprocess(blankToUndefined, z.string().trim().max(max).optional());
+
+const optionalEnum = <T extends readonly [string, ...string[]]>(values: T) =>
+  z.preprocess(blankToUndefined, z.enum(values).optional());
+
+export const fieldContextSchema = z.object({
+  crop: optionalText(MAX_FIELD_TEXT_LENGTH),
+  variety: optionalText(MAX_FIELD_TEXT_LENGTH),
+  growthStage: optionalEnum(growthStages),
+  daysSinceSowing: z.preprocess(
+    (value) => {
+      const given = blankToUndefined(value);
+      return typeof given === 'string' ? Number(given) : given;
+    },
+    z.number().int().min(0).max(MAX_DAYS_SINCE_SOWING).optional()
+  ),
+  weather: optionalEnum(weatherConditions),
+  irrigation: optionalEnum(irrigationTypes),
+  recentSprays: optionalText(MAX_SPRAYS_LENGTH),
+  district: optionalText(MAX_FIELD_TEXT_LENGTH),
+  state: optionalText(MAX_FIELD_TEXT_LENGTH),
+});
+
+export type FieldContext = z.infer<typeof fieldContextSchema>;
+
+// One line per detail the farmer gave. Free text is quoted so it reads as
+// data rather than as instructions to the model.
+export const describeFieldContext = (context: FieldContext): string[] => {
+  const quote = (text: string) => JSON.stringify(text);
+  const lines: string[] = [];
+
+  if (context.crop || context.variety) {
+    const variety = context.variety ? `variety ${quote(context.variety)}` : '';
+    lines.push(`Crop: ${context.crop ? `${quote(context.crop)}${variety ? ` (${variety})` : ''}` : variety}`);
+  }
+  if (context.growthStage) lines.push(`Growth stage: ${growthStageNames[context.growthStage]}`);
+  if (context.daysSinceSowing !== undefined) {
+    lines.push(`Days since sowing or transplanting: ${context.daysSinceSowing}`);
+  }
+  if (context.weather) lines.push(`Recent weather: ${weatherNames[context.weather]}`);
+  if (context.irrigation) lines.push(`Irrigation: ${irrigationNames[context.irrigation]}`);
+  if (context.recentSprays) lines.push(`Recent sprays or fertilisers: ${quote(context.recentSprays)}`);
+
+  const region = [context.district, context.state].filter(Boolean).join(', ');
+  if (region) lines.push(`Location: ${quote(region)}, India`);
+
+  return lines;
+};
@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+export const PLANT_IMAGES_BUCKET = 'plant-images';
+
+// Keep in sync with the bucket limits in the storage migration
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+export const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Photos of one plant analysed together in a single model call
+export const MAX_IMAGES = 5;
+
+export const imageLabels = ['leaf_top', 'leaf_underside', 'stem', 'fruit', 'whole_plant', 'other'] as const;
+
+export type ImageLabel = (typeof imageLabels)[number];
+
+export const imageLabelNames: Record<ImageLabel, string> = {
+  leaf_top: 'Leaf (top)',
+  leaf_underside: 'Leaf (underside)',
+  stem: 'Stem',
+  fruit: 'Fruit',
+  whole_plant: 'Whole plant',
+  other: 'Other',
+};
+
+export const analysisImageSchema = z.object({
+  path: z.string().trim().min(1),
+  label: z.enum(imageLabels).catch('other'),
+});
+
+export type AnalysisImage = z.infer<typeof analysisImageSchema>;
+
+export const analysisImagesSchema = z.array(analysisImageSchema).min(1).max(MAX_IMAGES);
+
+// Each device uploads into a folder named after its user ID, which the storage
+// policies and the edge functions use to tell whose photo it is.
+export const toOwnedImagePath = (ownerId: string, fileName: string) => `${ownerId}/${fileName}`;
+
+export const isOwnedImagePath = (path: string, ownerId: string) => path.startsWith(`${ownerId}/`);
@@ -0,0 +1,50 @@
+// Languages the app can diagnose and translate into. Shared with the client so
+// the language picker and the edge functions always agree on the codes.
+export const languages = [
+  { code: 'en', name: 'English', nativeName: 'English', locale: 'en-IN', script: 'Latin' },
+  { code: 'kn', name: 'Kannada', nativeName: 'ಕನ್ನಡ', locale: 'kn-IN', script: 'Kannada' },
+  { code: 'ta', name: 'Tamil', nativeName: 'தமிழ்', locale: 'ta-IN', script: 'Tamil' },
+  { code: 'ml', name: 'Malayalam', nativeName: 'മലയാളം', locale: 'ml-IN', script: 'Malayalam' },
+  { code: 'te', name: 'Telugu', nativeName: 'తెలుగు', locale: 'te-IN', script: 'Telugu' },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी', locale: 'hi-IN', script: 'Devanagari' },
+  { code: 'bn', name: 'Bengali', nativeName: 'বাংলা', locale: 'bn-IN', script: 'Bengali' },
+  { code: 'mr', name: 'Marathi', nativeName: 'मराठी', locale: 'mr-IN', script: 'Devanagari' },
+  { code: 'gu', name: 'Gujarati', nativeName: 'ગુજરાતી', locale: 'gu-IN', script: 'Gujarati' },
+] as const;
+
+export type Language = (typeof languages)[number];
+export type LanguageCode = Language['code'];
+export type Script = Language['script'];
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+export const isLanguageCode = (value: unknown): value is LanguageCode =>
+  languages.some((language) => language.code === value);
+
+export const getLanguage = (code: unknown): Language | undefined =>
+  languages.find((language) => language.code === code);
+
+// Matches a single character written in the script
+export const scriptPatterns: Record<Script, RegExp> = {
+  Latin: /\p{Script=Latin}/u,
+  Kannada: /\p{Script=Kannada}/u,
+  Tamil: /\p{Script=Tamil}/u,
+  Malayalam: /\p{Script=Malayalam}/u,
+  Telugu: /\p{Script=Telugu}/u,
+  Devanagari: /\p{Script=Devanagari}/u,
+  Bengali: /\p{Script=Bengali}/u,
+  Gujarati: /\p{Script=Gujarati}/u,
+};
+
+// Share of letters that must be in the expected script. Replies legitimately
+// mix in Latin product names and abbreviations, so this stays well below 1.
+const MIN_SCRIPT_SHARE = 0.6;
+
+// Checks that text is mostly written in the script of the given language;
+// empty text passes since there is nothing to judge.
+export const isWrittenIn = (texts: string[], script: Script): boolean => {
+  const letters = texts.join(' ').match(/[\p{L}\p{M}]/gu) ?? [];
+  if (letters.length === 0) return true;
+  const inScript = letters.filter((letter) => scriptPatterns[script].test(letter)).length;
+  return inScript / letters.length >= MIN_SCRIPT_SHARE;
+};
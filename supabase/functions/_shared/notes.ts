@@ -0,0 +1,7 @@
+import { z } from 'zod';
+
+// Room for a couple of minutes of dictation
+export const MAX_NOTES_LENGTH = 2000;
+
+// The farmer's own description of the plant, usually transcribed from a voice note
+export const notesSchema = z.preprocess((value) => value ?? '', z.string().trim().max(MAX_NOTES_LENGTH));
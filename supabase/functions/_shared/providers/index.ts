@@ -0,0 +1,50 @@
+import { AppError } from '../errors.ts';
+import { createMockProvider } from './mock.ts';
+import { createOpenAICompatibleProvider } from './openai-compatible.ts';
+import type { ModelProvider } from './types.ts';
+
+export * from './types.ts';
+
+const LOVABLE_GATEWAY_URL = 'https://ai.gateway.lovable.dev/v1/chat/completions';
+const DEFAULT_MODEL = 'google/gemini-2.5-flash';
+
+const requireEnv = (name: string) => {
+  const value = Deno.env.get(name);
+  if (!value) {
+    console.error(`${name} is not configured`);
+    throw new AppError('misconfigured', 'The analysis service is not configured.');
+  }
+  return value;
+};
+
+// AI_PROVIDER selects the backend:
+// - "lovable" (default): the Lovable AI gateway, authenticated with LOVABLE_API_KEY
+// - "openai": any OpenAI-compatible endpoint at AI_BASE_URL, authenticated with AI_API_KEY
+// - "mock": canned fixture diagnoses for offline demos and tests
+// AI_MODEL overrides the model for the first two.
+export const getProvider = (): ModelProvider => {
+  const provider = Deno.env.get('AI_PROVIDER') ?? 'lovable';
+  const model = Deno.env.get('AI_MODEL') ?? DEFAULT_MODEL;
+
+  switch (provider) {
+    case 'lovable':
+      return createOpenAICompatibleProvider({
+        name: 'Lovable AI gateway',
+        url: LOVABLE_GATEWAY_URL,
+        apiKey: requireEnv('LOVABLE_API_KEY'),
+        model,
+      });
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        name: 'OpenAI-compatible provider',
+        url: `${requireEnv('AI_BASE_URL').replace(/\/$/, '')}/chat/completions`,
+        apiKey: requireEnv('AI_API_KEY'),
+        model,
+      });
+    case 'mock':
+      return createMockProvider(Deno.env.get('MOCK_FIXTURE'));
+    default:
+      console.error(`Unknown AI_PROVIDER "${provider}"`);
+      throw new AppError('misconfigured', 'The analysis service is not configured.');
+  }
+};
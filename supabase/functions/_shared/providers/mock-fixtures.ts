@@ -0,0 +1,91 @@
+// Canned model replies for the mock provider. They are written the way a real
+// model answers, so they still go through the normal validation path.
+export const mockFixtures = {
+  early_blight: {
+    kind: 'diseased',
+    crop: { commonName: 'Tomato', scientificName: 'Solanum lycopersicum', confidence: 91, matchesReported: true },
+    diseaseName: 'Early Blight',
+    scientificName: 'Alternaria solani',
+    confidence: 87,
+    severity: 'moderate',
+    severityEstimate: { percentAffected: 18 },
+    description:
+      'Early blight is a common fungal disease of tomato and potato that starts on older leaves as brown spots with concentric rings.',
+    symptoms: [
+      'Brown spots with concentric rings on lower leaves',
+      'Yellowing of leaf tissue around the spots',
+      'Premature leaf drop starting from the base of the plant',
+    ],
+    causes: ['Fungal spores surviving in crop debris and soil', 'Warm, humid weather with frequent leaf wetness'],
+    treatment: [
+      'Remove and destroy infected lower leaves',
+      'Spray a copper or mancozeb based fungicide at 7-10 day intervals',
+      'Water at the base of the plant in the morning',
+    ],
+    prevention: ['Rotate crops away from tomato and potato for 2-3 years', 'Mulch to stop soil splashing onto leaves'],
+    affectedParts: ['leaves', 'stems'],
+    spreadRate: 'moderate',
+    alternatives: [
+      {
+        diseaseName: 'Septoria Leaf Spot',
+        scientificName: 'Septoria lycopersici',
+        probability: 8,
+        distinguishingSymptom: 'Many small spots with grey centres and dark borders, without concentric rings',
+      },
+      {
+        diseaseName: 'Late Blight',
+        scientificName: 'Phytophthora infestans',
+        probability: 5,
+        distinguishingSymptom: 'Large water-soaked patches with white mould on the leaf underside in humid weather',
+      },
+    ],
+    retakeTips: [],
+    photoFindings: [{ photo: 1, symptoms: ['Brown spots with concentric rings on lower leaves'] }],
+    regions: [
+      { photo: 1, label: 'Brown spots with concentric rings', x: 0.18, y: 0.32, width: 0.22, height: 0.18 },
+      { photo: 1, label: 'Yellowing around the spots', x: 0.55, y: 0.5, width: 0.25, height: 0.2 },
+    ],
+  },
+  healthy: {
+    kind: 'healthy',
+    crop: { commonName: 'Tomato', scientificName: 'Solanum lycopersicum', confidence: 94, matchesReported: true },
+    diseaseName: '',
+    scientificName: '',
+    confidence: 92,
+    severity: 'low',
+    severityEstimate: { percentAffected: 0 },
+    description: 'The leaves are evenly green and firm, with no spots, wilting or pest damage.',
+    symptoms: [],
+    causes: [],
+    treatment: [],
+    prevention: ['Keep watering regular and avoid wetting the leaves', 'Inspect the underside of leaves weekly for pests'],
+    affectedParts: [],
+    spreadRate: 'low',
+    alternatives: [],
+    retakeTips: [],
+    photoFindings: [],
+    regions: [],
+  },
+  unclear_image: {
+    kind: 'unclear_image',
+    crop: { commonName: '', scientificName: '', confidence: 0, matchesReported: null },
+    diseaseName: '',
+    scientificName: '',
+    confidence: 0,
+    severity: 'low',
+    severityEstimate: { percentAffected: 0 },
+    description: 'The photo is too blurry to make out the leaf surface.',
+    symptoms: [],
+    causes: [],
+    treatment: [],
+    prevention: [],
+    affectedParts: [],
+    spreadRate: 'low',
+    alternatives: [],
+    retakeTips: ['Hold the phone still and tap the leaf to focus before taking the photo'],
+    photoFindings: [],
+    regions: [],
+  },
+} as const;
+
+export type MockFixtureName = keyof typeof mockFixtures;
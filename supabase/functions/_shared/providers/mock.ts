@@ -0,0 +1,46 @@
+import { sha256 } from '../hash.ts';
+import { mockFixtures, type MockFixtureName } from './mock-fixtures.ts';
+import type { ContentPart, ModelProvider } from './types.ts';
+
+const fixtureNames = Object.keys(mockFixtures) as MockFixtureName[];
+
+const hashImages = async (urls: string[]) => {
+  const hashes: string[] = [];
+  for (const url of urls) {
+    const response = await fetch(url);
+    hashes.push(await sha256(new Uint8Array(await response.arrayBuffer())));
+  }
+  return sha256(hashes.join(':'));
+};
+
+// Deterministic offline stand-in for a real model. Image requests get a
+// fixture diagnosis picked by the hash of the photos, so the same photo always
+// gives the same answer; MOCK_FIXTURE pins one fixture for every request.
+// Text-only requests (translations) echo the input back unchanged. Follow-up
+// turns are ignored: the original request always decides the answer. The
+// fixtures are in English, so replies are not checked for the language.
+export const createMockProvider = (pinnedFixture?: string): ModelProvider => ({
+  name: 'mock',
+  englishOnly: true,
+  async complete({ messages }) {
+    const userMessage = messages.find((message) => message.role === 'user');
+    const parts: ContentPart[] =
+      typeof userMessage?.content === 'string'
+        ? [{ type: 'text', text: userMessage.content }]
+        : userMessage?.content ?? [];
+    const imageUrls = parts.flatMap((part) => (part.type === 'image_url' ? [part.image_url.url] : []));
+
+    if (imageUrls.length === 0) {
+      return parts.map((part) => (part.type === 'text' ? part.text : '')).join('\n');
+    }
+
+    let fixture = pinnedFixture as MockFixtureName | undefined;
+    if (!fixture || !(fixture in mockFixtures)) {
+      const hash = await hashImages(imageUrls);
+      fixture = fixtureNames[parseInt(hash.slice(0, 8), 16) % fixtureNames.length];
+      console.log('Mock provider image hash:', hash, 'fixture:', fixture);
+    }
+
+    return JSON.stringify(mockFixtures[fixture]);
+  },
+});
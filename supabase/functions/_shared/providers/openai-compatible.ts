@@ -0,0 +1,69 @@
+import { AppError } from '../errors.ts';
+import { GatewayError, type ModelProvider } from './types.ts';
+
+interface OpenAICompatibleConfig {
+  name: string;
+  url: string;
+  apiKey: string;
+  model: string;
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Works with any endpoint that implements the OpenAI chat completions API,
+// including the Lovable AI gateway.
+export const createOpenAICompatibleProvider = ({ name, url, apiKey, model }: OpenAICompatibleConfig): ModelProvider => ({
+  name,
+  async complete({ messages, temperature, signal }) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model, messages, temperature }),
+      signal,
+    });
+
+    if (!response.ok) {
+      if (response.status === 429) {
+        throw new GatewayError(
+          'rate_limited',
+          'Rate limit exceeded. Please try again later.',
+          parseRetryAfter(response.headers.get('Retry-After'))
+        );
+      }
+      if (response.status === 402) {
+        throw new AppError('payment_required', 'Payment required. Please add credits to your workspace.');
+      }
+
+      const errorText = await response.text();
+      console.error(`${name} error:`, response.status, errorText);
+      if (response.status >= 500) {
+        throw new GatewayError('upstream_unavailable', 'The AI provider is temporarily unavailable. Please try again.');
+      }
+      throw new AppError('upstream_error', 'The AI provider rejected the request.');
+    }
+
+    // A truncated or garbled body from a busy gateway is worth another try
+    const data = await response.json().catch((error) => {
+      if (!(error instanceof SyntaxError)) throw error;
+      console.error(`${name} returned a reply that is not JSON:`, error);
+      throw new GatewayError('upstream_error', 'The AI provider sent a reply that could not be read.');
+    });
+    const content = data.choices?.[0]?.message?.content;
+
+    if (!content) {
+      throw new AppError('model_output_invalid', 'The AI provider returned an empty reply.');
+    }
+
+    return content;
+  },
+});
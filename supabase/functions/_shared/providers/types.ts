@@ -0,0 +1,37 @@
+import { AppError, type ErrorCode } from '../errors.ts';
+
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ContentPart[];
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  temperature: number;
+  signal?: AbortSignal;
+}
+
+// A model backend that turns chat messages into the raw text of the reply
+export interface ModelProvider {
+  name: string;
+  // Set for providers that answer in English whatever language is asked for;
+  // their replies are not checked against the requested script
+  englishOnly?: boolean;
+  complete(request: CompletionRequest): Promise<string>;
+}
+
+// A transient provider failure that is worth retrying
+export class GatewayError extends AppError {
+  constructor(
+    code: Extract<ErrorCode, 'rate_limited' | 'upstream_unavailable' | 'upstream_error'>,
+    message: string,
+    public readonly retryAfterMs?: number
+  ) {
+    super(code, message);
+    this.name = 'GatewayError';
+  }
+}
@@ -0,0 +1,79 @@
+import { AppError } from './errors.ts';
+import { GatewayError } from './providers/types.ts';
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Upper bound on each attempt, so one hung request can't use the whole deadline
+  attemptTimeoutMs: number;
+  // Overall budget across every attempt and wait
+  deadlineMs: number;
+}
+
+export class DeadlineExceededError extends AppError {
+  constructor(public readonly deadlineMs: number) {
+    super('upstream_timeout', 'The analysis took too long. Please try again.');
+    this.name = 'DeadlineExceededError';
+  }
+}
+
+const readNumberEnv = (name: string, fallback: number) => {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export const defaultRetryOptions = (): RetryOptions => ({
+  maxAttempts: readNumberEnv('AI_MAX_ATTEMPTS', 3),
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  attemptTimeoutMs: readNumberEnv('AI_ATTEMPT_TIMEOUT_MS', 30000),
+  deadlineMs: readNumberEnv('AI_DEADLINE_MS', 60000),
+});
+
+// When the overall budget runs out. Requests that make several model calls
+// start one deadline and share it, so together they stay within the budget.
+export const startDeadline = (options: RetryOptions = defaultRetryOptions()) => Date.now() + options.deadlineMs;
+
+const isTimeout = (error: unknown) => error instanceof DOMException && error.name === 'TimeoutError';
+
+// Transient failures only: upstream 5xx, rate limiting, unreadable replies,
+// timeouts of a single attempt and network errors. Anything else would fail the same way again.
+const isRetryable = (error: unknown) =>
+  error instanceof GatewayError || error instanceof TypeError || isTimeout(error);
+
+// Exponential backoff with full jitter
+const backoffDelay = (attempt: number, { baseDelayMs, maxDelayMs }: RetryOptions) =>
+  Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const withRetry = async <T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  options: RetryOptions = defaultRetryOptions(),
+  deadline = startDeadline(options)
+): Promise<T> => {
+
+  for (let attempt = 0; ; attempt++) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) throw new DeadlineExceededError(options.deadlineMs);
+
+    const timeout = Math.min(options.attemptTimeoutMs, remaining);
+    try {
+      return await operation(AbortSignal.timeout(timeout));
+    } catch (error) {
+      const isLastAttempt = deadline - Date.now() <= 0 || attempt + 1 >= options.maxAttempts;
+      if (isTimeout(error) && isLastAttempt) throw new DeadlineExceededError(options.deadlineMs);
+      if (!isRetryable(error) || isLastAttempt) throw error;
+
+      const retryAfterMs = error instanceof GatewayError ? error.retryAfterMs : undefined;
+      const delay = retryAfterMs ?? backoffDelay(attempt, options);
+      // Waiting longer than the deadline allows is pointless; report the
+      // original failure now instead of a timeout later.
+      if (Date.now() + delay >= deadline) throw error;
+
+      console.warn(`AI request failed (attempt ${attempt + 1}/${options.maxAttempts}), retrying in ${Math.round(delay)}ms:`, error);
+      await sleep(delay);
+    }
+  }
+};
@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { DIAGNOSIS_SCHEMA_VERSION, diagnosisSchema } from './diagnosis.ts';
+import { imageLabels } from './images.ts';
+
+// Lifetimes offered when creating a link; null means it never expires
+export const shareExpiryDays = [1, 7, 30] as const;
+
+export type ShareExpiryDays = (typeof shareExpiryDays)[number];
+
+const shareIdSchema = z.string().regex(/^[\w-]{20,64}$/);
+
+export const shareRequestSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('create'),
+    diagnosisId: z.string().uuid(),
+    expiresInDays: z
+      .number()
+      .refine((days): days is ShareExpiryDays => shareExpiryDays.includes(days as ShareExpiryDays))
+      .nullable(),
+  }),
+  z.object({ action: z.literal('get'), shareId: shareIdSchema }),
+  z.object({ action: z.literal('revoke'), shareId: shareIdSchema, revokeToken: z.string().min(1) }),
+]);
+
+export type ShareRequest = z.infer<typeof shareRequestSchema>;
+
+export const createdShareSchema = z.object({
+  shareId: shareIdSchema,
+  // Only ever returned once, to the browser that created the link
+  revokeToken: z.string(),
+  expiresAt: z.string().nullable(),
+});
+
+export type CreatedShare = z.infer<typeof createdShareSchema>;
+
+export const sharedDiagnosisSchema = z.object({
+  schemaVersion: z.literal(DIAGNOSIS_SCHEMA_VERSION),
+  diagnosis: diagnosisSchema,
+  language: z.string(),
+  images: z.array(z.object({ url: z.string(), label: z.enum(imageLabels).catch('other') })),
+  reportedCrop: z.string().nullable().catch(null),
+  createdAt: z.string(),
+  expiresAt: z.string().nullable(),
+});
+
+export type SharedDiagnosis = z.infer<typeof sharedDiagnosisSchema>;
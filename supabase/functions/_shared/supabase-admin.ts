@@ -0,0 +1,57 @@
+import { createClient } from '@supabase/supabase-js';
+import { AppError } from './errors.ts';
+import { PLANT_IMAGES_BUCKET } from './images.ts';
+
+export const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+  { auth: { persistSession: false } }
+);
+
+// The user ID behind the caller's session, or null for calls made with only
+// the anon key. The app signs every device in anonymously.
+export const getRequestUserId = async (req: Request) => {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+  const { data, error } = await supabaseAdmin.auth.getUser(token);
+  return error || !data.user ? null : data.user.id;
+};
+
+export const requireRequestUserId = async (req: Request) => {
+  const userId = await getRequestUserId(req);
+  if (!userId) {
+    throw new AppError('unauthorized', 'A session is required for this request.');
+  }
+  return userId;
+};
+
+export class ImageNotFoundError extends AppError {
+  constructor(public readonly path: string) {
+    super('image_not_found', 'The uploaded image could not be found. Please upload it again.');
+    this.name = 'ImageNotFoundError';
+  }
+}
+
+// The model provider fetches the photo itself, so hand it a short-lived URL
+// instead of the image bytes.
+export const createSignedImageUrl = async (path: string, expiresIn = 600) => {
+  const { data, error } = await supabaseAdmin.storage
+    .from(PLANT_IMAGES_BUCKET)
+    .createSignedUrl(path, expiresIn);
+
+  if (error || !data) {
+    console.error('Failed to sign image URL:', error);
+    throw new ImageNotFoundError(path);
+  }
+  return data.signedUrl;
+};
+
+export const downloadImage = async (path: string) => {
+  const { data, error } = await supabaseAdmin.storage.from(PLANT_IMAGES_BUCKET).download(path);
+
+  if (error || !data) {
+    console.error('Failed to download image:', error);
+    throw new ImageNotFoundError(path);
+  }
+  return new Uint8Array(await data.arrayBuffer());
+};
@@ -1,9 +1,17 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+import { DIAGNOSIS_SCHEMA_VERSION, diagnosisSchema, MAX_SYMPTOM_REGIONS } from "../_shared/diagnosis.ts";
+import { getLanguage, languages } from "../_shared/languages.ts";
+import { corsHeaders, errorResponse, jsonResponse, readJsonBody, toErrorResponse } from "../_shared/cors.ts";
+import { type ContentPart, modelOutputInvalidResponse, requestDiagnosisIn } from "../_shared/ai-gateway.ts";
+import { createSignedImageUrl, requireRequestUserId } from "../_shared/supabase-admin.ts";
+import { analysisImagesSchema, imageLabelNames, isOwnedImagePath, MAX_IMAGES } from "../_shared/images.ts";
+import { hashAnalysisImages, readCachedResult, writeCachedResult } from "../_shared/cache.ts";
+import { MAX_NOTES_LENGTH, notesSchema } from "../_shared/notes.ts";
+import { describeFieldContext, fieldContextSchema } from "../_shared/field-context.ts";
+
+// Part of the cache key: bump whenever the prompt or the diagnosis schema
+// changes so stale cached answers are not served.
+const PROMPT_VERSION = 5;
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -11,140 +19,208 @@ serve(async (req) => {
   }
 
   try {
-    const { imageData, language } = await req.json();
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY is not configured');
+    const {
+      images: requestedImages,
+      language: languageCode,
+      notes: requestedNotes,
+      fieldContext: requestedFieldContext,
+      forceRefresh,
+    } = await readJsonBody(req);
+    const images = analysisImagesSchema.safeParse(requestedImages);
+
+    if (!images.success) {
+      return errorResponse('invalid_request', `Between 1 and ${MAX_IMAGES} uploaded images are required.`);
+    }
+    const userId = await requireRequestUserId(req);
+    if (!images.data.every((image) => isOwnedImagePath(image.path, userId))) {
+      return errorResponse('forbidden', 'Only photos uploaded from this device can be analysed.');
+    }
+    const language = getLanguage(languageCode);
+    if (!language) {
+      return errorResponse(
+        'invalid_request',
+        `A supported language is required: ${languages.map((supported) => supported.code).join(', ')}.`
+      );
+    }
+    const notes = notesSchema.safeParse(requestedNotes);
+    if (!notes.success) {
+      return errorResponse('invalid_request', `Notes must be text of at most ${MAX_NOTES_LENGTH} characters.`);
+    }
+    const fieldContext = fieldContextSchema.safeParse(requestedFieldContext ?? {});
+    if (!fieldContext.success) {
+      return errorResponse('invalid_request', 'The field details are invalid.');
+    }
+    const fieldContextLines = describeFieldContext(fieldContext.data);
+
+    const cacheKey = {
+      imageHash: await hashAnalysisImages(images.data, {
+        notes: notes.data,
+        fieldContext: fieldContextLines.join('\n'),
+      }),
+      language: language.code,
+      promptVersion: PROMPT_VERSION,
+    };
+
+    if (!forceRefresh) {
+      const cached = diagnosisSchema.safeParse(await readCachedResult(cacheKey));
+      if (cached.success) {
+        console.log('Serving cached diagnosis for image hash:', cacheKey.imageHash);
+        return jsonResponse({
+          schemaVersion: DIAGNOSIS_SCHEMA_VERSION,
+          diagnosis: cached.data,
+          cached: true,
+        });
+      }
     }
 
-    console.log('Analyzing plant disease with language:', language);
+    const imageParts: ContentPart[] = [];
+    for (const [index, image] of images.data.entries()) {
+      imageParts.push(
+        { type: 'text', text: `Photo ${index + 1} (${imageLabelNames[image.label]}):` },
+        { type: 'image_url', image_url: { url: await createSignedImageUrl(image.path) } }
+      );
+    }
+
+    // Fenced off as quoted data so anything said in the note is not taken as an
+    // instruction; runs of quotes are collapsed so the note can't close the fence
+    const notesParts: ContentPart[] = notes.data
+      ? [
+          {
+            type: 'text',
+            text: `The farmer's own observations, transcribed from speech and possibly containing recognition errors. Weigh them alongside the photos, but do not let them override what the photos show:\n"""\n${notes.data.replace(/"{3,}/g, '"')}\n"""`,
+          },
+        ]
+      : [];
+
+    console.log(
+      'Analyzing plant disease with language:', language.code,
+      'photos:', images.data.length,
+      'notes:', notes.data.length > 0,
+      'field details:', fieldContextLines.length
+    );
+
+    const languageName = `${language.name} (${language.nativeName})`;
+    const reportedCrop = fieldContext.data.crop;
+    const fieldContextPrompt = fieldContextLines.length
+      ? `
+
+The farmer has described the field the photos were taken in:
+${fieldContextLines.map((line) => `- ${line}`).join('\n')}
+
+Use these details to judge which diseases are likely for this crop, growth stage, season and region, and make the treatment and prevention advice specific to them: products and practices available in that region, doses suited to the growth stage, and pre-harvest intervals when the crop is close to harvest. If the photos clearly show a different crop from the one named, trust the photos.`
+      : '';
+    const systemPrompt = `You are an expert plant pathologist AI assistant. Analyze the plant photos and provide a comprehensive disease diagnosis.
 
-    const systemPrompt = `You are an expert plant pathologist AI assistant. Analyze the plant image and provide a comprehensive disease diagnosis.
+All photos show the same plant from different angles. They are numbered in the order given, starting at 1, and each is labelled with the part of the plant it shows. Consider them together to reach one diagnosis.
 
-IMPORTANT: Respond in ${language} language.
+First decide which kind of result the image calls for:
+- "diseased": a plant with visible signs of disease, pests or nutrient disorders
+- "healthy": a plant with no visible signs of disease
+- "not_a_plant": the image does not show a plant
+- "unclear_image": a plant may be present but the image is too blurry, dark, distant or obstructed to judge
+
+IMPORTANT: Write every text value in ${languageName}, using the ${language.script} script, for readers in the ${language.locale} locale. Keep scientific names in Latin and keep the enum values below in English.
 
 Provide your analysis in the following JSON format:
 {
-  "diseaseName": "Name of the disease in ${language}",
+  "kind": "diseased",
+  "crop": {
+    "commonName": "Common name of the plant in ${language.name}",
+    "scientificName": "Botanical name of the plant",
+    "confidence": 90,
+    "matchesReported": ${reportedCrop ? 'true' : 'null'}
+  },
+  "diseaseName": "Name of the disease in ${language.name}",
   "scientificName": "Scientific name of the disease",
   "confidence": 85,
   "severity": "moderate",
-  "description": "Detailed description in ${language}",
+  "severityEstimate": { "percentAffected": 18 },
+  "description": "Detailed description in ${language.name}",
   "symptoms": ["symptom1", "symptom2", "symptom3"],
   "causes": ["cause1", "cause2"],
   "treatment": ["treatment1", "treatment2", "treatment3"],
   "prevention": ["prevention1", "prevention2"],
   "affectedParts": ["leaves", "stems", "roots"],
-  "spreadRate": "moderate"
+  "spreadRate": "moderate",
+  "alternatives": [
+    {
+      "diseaseName": "Name of another disease that could explain the image, in ${language.name}",
+      "scientificName": "Scientific name of that disease",
+      "probability": 10,
+      "distinguishingSymptom": "The symptom that separates it from the main diagnosis, in ${language.name}"
+    }
+  ],
+  "retakeTips": ["tip1", "tip2"],
+  "photoFindings": [
+    { "photo": 1, "symptoms": ["symptom seen in photo 1, in ${language.name}"] }
+  ],
+  "regions": [
+    { "photo": 1, "label": "The symptom inside this box, in ${language.name}", "x": 0.42, "y": 0.18, "width": 0.2, "height": 0.15 }
+  ]
 }
 
+Kind must be one of: "diseased", "healthy", "not_a_plant", "unclear_image"
+Crop identifies which plant the photos show, with your confidence (0-100) in that identification. For "not_a_plant", and for "unclear_image" when the plant cannot be recognised, leave commonName and scientificName empty and set confidence to 0.
+${reportedCrop
+  ? `The farmer says the crop is ${JSON.stringify(reportedCrop)}. Set matchesReported to false if the photos clearly show a different plant, otherwise true.`
+  : 'The farmer did not name the crop, so set matchesReported to null.'}
+For "healthy", leave diseaseName, scientificName, symptoms, causes, treatment and alternatives empty, set severity to "low", describe the plant's condition in description and give care tips in prevention.
+For "not_a_plant" and "unclear_image", leave every disease field empty, explain what you see in description and give concrete advice for taking a better photo in retakeTips.
 Severity must be one of: "low", "moderate", "high", "critical"
+SeverityEstimate.percentAffected is your estimate of the percentage (0-100) of the visible leaf or tissue area in the photos that shows symptoms. Judge it from the photos alone and use 0 for "healthy", "not_a_plant" and "unclear_image".
 Confidence should be a number between 0-100.
-Spread rate must be one of: "low", "moderate", "high"`;
-
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
+Spread rate must be one of: "low", "moderate", "high"
+Alternatives is a differential diagnosis: list the 2-4 next most likely diseases, ranked by probability (0-100), excluding the main diagnosis. Each distinguishingSymptom must describe what a person should look for on the plant to tell that disease apart from the main diagnosis.
+PhotoFindings lists, for each photo number that shows visible symptoms, which of the symptoms can be seen in that photo.
+Regions marks where the visible symptoms are: up to ${MAX_SYMPTOM_REGIONS} approximate boxes, each around one lesion or cluster of lesions in one photo, labelled with the symptom it shows. x and y are the top-left corner and width and height the size of the box, all as fractions (0-1) of that photo's width and height, measured from its top-left corner. Leave regions empty when no symptom is visible.${fieldContextPrompt}`;
+
+    const { parsed, inLanguage } = await requestDiagnosisIn(language, [
+      {
+        role: 'system',
+        content: systemPrompt
       },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
+      {
+        role: 'user',
+        content: [
           {
-            role: 'system',
-            content: systemPrompt
+            type: 'text',
+            text: `Analyze these plant photos for diseases. Write the response in ${languageName}.`
           },
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: `Analyze this plant image for diseases. Provide the response in ${language} language.`
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: imageData
-                }
-              }
-            ]
-          }
-        ],
-        temperature: 0.3,
-      }),
-    });
-
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
+          ...notesParts,
+          ...imageParts
+        ]
       }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: 'Payment required. Please add credits to your workspace.' }),
-          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      
-      const errorText = await response.text();
-      console.error('AI gateway error:', response.status, errorText);
-      throw new Error('Failed to analyze image');
-    }
+    ]);
 
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
-    
-    if (!content) {
-      throw new Error('No analysis result received');
+    if (!parsed.success) {
+      return modelOutputInvalidResponse(parsed.error.issues);
     }
 
-    console.log('Raw AI response:', content);
-
-    // Extract JSON from the response
-    let analysisResult;
-    try {
-      // Try to parse the entire response as JSON
-      analysisResult = JSON.parse(content);
-    } catch {
-      // If that fails, try to extract JSON from markdown code blocks
-      const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-      if (jsonMatch) {
-        analysisResult = JSON.parse(jsonMatch[1]);
-      } else {
-        // Last resort: try to find JSON object in the text
-        const objectMatch = content.match(/\{[\s\S]*\}/);
-        if (objectMatch) {
-          analysisResult = JSON.parse(objectMatch[0]);
-        } else {
-          throw new Error('Could not extract JSON from response');
-        }
-      }
+    // Discard findings and regions for photos that were never sent, and any crop
+    // comparison when there was nothing to compare with
+    const diagnosis = {
+      ...parsed.data,
+      crop: { ...parsed.data.crop, matchesReported: reportedCrop ? parsed.data.crop.matchesReported : null },
+      photoFindings: parsed.data.photoFindings.filter((finding) => finding.photo <= images.data.length),
+      regions: parsed.data.regions.filter((region) => region.photo <= images.data.length),
+    };
+
+    console.log('Validated analysis result:', diagnosis);
+
+    // Serve a reply that stayed in the wrong language, but don't cache it
+    if (inLanguage) {
+      await writeCachedResult(cacheKey, diagnosis);
+    } else {
+      console.warn('Diagnosis is not in', language.name, '- not caching it');
     }
 
-    console.log('Parsed analysis result:', analysisResult);
-
-    return new Response(
-      JSON.stringify(analysisResult),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200 
-      }
-    );
+    return jsonResponse({
+      schemaVersion: DIAGNOSIS_SCHEMA_VERSION,
+      diagnosis,
+      cached: false,
+    });
 
   } catch (error) {
-    console.error('Error in analyze-plant-disease:', error);
-    return new Response(
-      JSON.stringify({ 
-        error: error instanceof Error ? error.message : 'Unknown error occurred'
-      }),
-      { 
-        status: 500, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      }
-    );
+    return toErrorResponse(error, 'Error in analyze-plant-disease');
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,153 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { DIAGNOSIS_SCHEMA_VERSION, diagnosisSchema } from "../_shared/diagnosis.ts";
+import { corsHeaders, errorResponse, jsonResponse, readJsonBody, toErrorResponse } from "../_shared/cors.ts";
+import { AppError } from "../_shared/errors.ts";
+import { sha256 } from "../_shared/hash.ts";
+import { analysisImagesSchema } from "../_shared/images.ts";
+import { type ShareRequest, shareRequestSchema } from "../_shared/shares.ts";
+import { createSignedImageUrl, requireRequestUserId, supabaseAdmin } from "../_shared/supabase-admin.ts";
+
+// Long enough to read the page; the viewer's browser re-requests on reload
+const IMAGE_URL_TTL_SECONDS = 60 * 60;
+
+const randomToken = (bytes: number) =>
+  btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(bytes))))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const findShare = async (shareId: string) => {
+  const { data, error } = await supabaseAdmin
+    .from('diagnosis_shares')
+    .select('*')
+    .eq('id', shareId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || data.revoked_at) {
+    throw new AppError('share_not_found', 'This link does not exist or has been revoked.');
+  }
+  return data;
+};
+
+// Only the device that saved a diagnosis can share it; someone else's
+// diagnosis looks the same as a missing one
+const createShare = async (
+  { diagnosisId, expiresInDays }: Extract<ShareRequest, { action: 'create' }>,
+  userId: string
+) => {
+  const { data: diagnosis, error: diagnosisError } = await supabaseAdmin
+    .from('diagnoses')
+    .select('id')
+    .eq('id', diagnosisId)
+    .eq('owner_id', userId)
+    .maybeSingle();
+
+  if (diagnosisError) throw diagnosisError;
+  if (!diagnosis) {
+    return errorResponse('invalid_request', 'The diagnosis to share does not exist.');
+  }
+
+  const shareId = randomToken(24);
+  const revokeToken = randomToken(32);
+  const expiresAt = expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString() : null;
+
+  const { error } = await supabaseAdmin.from('diagnosis_shares').insert({
+    id: shareId,
+    diagnosis_id: diagnosisId,
+    revoke_token_hash: await sha256(revokeToken),
+    expires_at: expiresAt,
+  });
+  if (error) throw error;
+
+  console.log('Created share for diagnosis:', diagnosisId, 'expires:', expiresAt ?? 'never');
+  return jsonResponse({ shareId, revokeToken, expiresAt });
+};
+
+const getShare = async ({ shareId }: Extract<ShareRequest, { action: 'get' }>) => {
+  const share = await findShare(shareId);
+  if (share.expires_at && new Date(share.expires_at) <= new Date()) {
+    return errorResponse('share_expired', 'This link has expired.');
+  }
+
+  const { data: record, error } = await supabaseAdmin
+    .from('diagnoses')
+    .select('*')
+    .eq('id', share.diagnosis_id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!record) {
+    throw new AppError('share_not_found', 'The shared diagnosis no longer exists.');
+  }
+
+  // A result stored in a shape this version can no longer read is treated
+  // like a missing one, so the page shows its own message instead of a crash
+  const diagnosis = diagnosisSchema.safeParse(record.result);
+  if (!diagnosis.success) {
+    console.error('Stored diagnosis could not be read:', share.diagnosis_id, diagnosis.error.issues);
+    throw new AppError('share_not_found', 'The shared diagnosis can no longer be shown.');
+  }
+
+  // Same fallbacks as the history page for records saved by older versions
+  const storedImages = analysisImagesSchema.safeParse(record.images);
+  const images = storedImages.success ? storedImages.data : [{ path: record.image_path, label: 'other' as const }];
+
+  return jsonResponse({
+    schemaVersion: DIAGNOSIS_SCHEMA_VERSION,
+    diagnosis: diagnosis.data,
+    language: record.language,
+    images: await Promise.all(
+      images.map(async ({ path, label }) => ({
+        // Diagnoses saved before images moved to storage hold an inline data URL
+        url: path.startsWith('data:') ? path : await createSignedImageUrl(path, IMAGE_URL_TTL_SECONDS),
+        label,
+      }))
+    ),
+    reportedCrop: record.crop,
+    createdAt: record.created_at,
+    expiresAt: share.expires_at,
+  });
+};
+
+const revokeShare = async ({ shareId, revokeToken }: Extract<ShareRequest, { action: 'revoke' }>) => {
+  const share = await findShare(shareId);
+  // A wrong token looks the same as a missing link
+  if (share.revoke_token_hash !== (await sha256(revokeToken))) {
+    throw new AppError('share_not_found', 'This link does not exist or has been revoked.');
+  }
+
+  const { error } = await supabaseAdmin
+    .from('diagnosis_shares')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', shareId);
+  if (error) throw error;
+
+  console.log('Revoked share:', shareId);
+  return jsonResponse({ revoked: true });
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const request = shareRequestSchema.safeParse(await readJsonBody(req));
+    if (!request.success) {
+      return errorResponse('invalid_request', 'A valid share action is required.');
+    }
+
+    switch (request.data.action) {
+      case 'create':
+        return await createShare(request.data, await requireRequestUserId(req));
+      case 'get':
+        return await getShare(request.data);
+      case 'revoke':
+        return await revokeShare(request.data);
+    }
+
+  } catch (error) {
+    return toErrorResponse(error, 'Error in share-diagnosis');
+  }
+});
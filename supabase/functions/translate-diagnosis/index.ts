@@ -0,0 +1,70 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  DIAGNOSIS_SCHEMA_VERSION,
+  diagnosisSchema,
+  preserveUntranslatedFields,
+  untranslatedFields,
+} from "../_shared/diagnosis.ts";
+import { corsHeaders, errorResponse, jsonResponse, readJsonBody, toErrorResponse } from "../_shared/cors.ts";
+import { modelOutputInvalidResponse, requestDiagnosisIn } from "../_shared/ai-gateway.ts";
+import { getLanguage } from "../_shared/languages.ts";
+import { requireRequestUserId } from "../_shared/supabase-admin.ts";
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Only devices with a session can spend model calls on translations
+    await requireRequestUserId(req);
+    const { diagnosis, language: languageCode } = await readJsonBody(req);
+    const source = diagnosisSchema.safeParse(diagnosis);
+    const language = getLanguage(languageCode);
+
+    if (!source.success || !language) {
+      return errorResponse('invalid_request', 'A valid diagnosis and supported target language are required.');
+    }
+
+    console.log('Translating diagnosis to language:', language.code);
+
+    const systemPrompt = `You are a professional agricultural translator. Translate the plant disease diagnosis JSON you are given into ${language.name} (${language.nativeName}), written in the ${language.script} script for readers in the ${language.locale} locale.
+
+Rules:
+- Translate only the human-readable text values.
+- Keep every JSON key exactly as it is.
+- Keep the number and order of items in every array.
+- Do not change these fields: ${untranslatedFields.join(', ')}.
+- Inside "crop", translate only commonName.
+- Inside "alternatives", translate only diseaseName and distinguishingSymptom.
+- Inside "photoFindings", translate only the symptoms and keep every photo number.
+- Inside "regions", translate only label and keep every photo number and coordinate.
+- Do not add, remove or reinterpret any medical or agronomic content.
+
+Respond with the translated JSON object only.`;
+
+    const { parsed: translated, inLanguage } = await requestDiagnosisIn(
+      language,
+      [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: JSON.stringify(source.data) },
+      ],
+      0
+    );
+
+    if (!translated.success) {
+      return modelOutputInvalidResponse(translated.error.issues);
+    }
+    if (!inLanguage) {
+      console.warn('Translation is not in', language.name, '- returning it anyway');
+    }
+
+    return jsonResponse({
+      schemaVersion: DIAGNOSIS_SCHEMA_VERSION,
+      diagnosis: preserveUntranslatedFields(source.data, translated.data),
+    });
+
+  } catch (error) {
+    return toErrorResponse(error, 'Error in translate-diagnosis');
+  }
+});
@@ -0,0 +1,42 @@
+-- Stores every completed analysis so it can be revisited from the history page
+CREATE TABLE public.diagnoses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  image_url TEXT NOT NULL,
+  language TEXT NOT NULL,
+  result JSONB NOT NULL,
+  schema_version INTEGER NOT NULL,
+  kind TEXT NOT NULL,
+  disease_name TEXT,
+  severity TEXT,
+  crop TEXT,
+  field_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX diagnoses_created_at_idx ON public.diagnoses (created_at DESC);
+CREATE INDEX diagnoses_severity_idx ON public.diagnoses (severity);
+
+ALTER TABLE public.diagnoses ENABLE ROW LEVEL SECURITY;
+
+-- The app has no sign-in, so history is shared by everyone using it
+CREATE POLICY "Anyone can view diagnoses"
+  ON public.diagnoses FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can create diagnoses"
+  ON public.diagnoses FOR INSERT
+  WITH CHECK (true);
+
+CREATE OR REPLACE FUNCTION public.update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_diagnoses_updated_at
+  BEFORE UPDATE ON public.diagnoses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
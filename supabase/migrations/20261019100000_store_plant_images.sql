@@ -0,0 +1,20 @@
+-- Plant photos are uploaded once to storage and referenced by path
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'plant-images',
+  'plant-images',
+  false,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp']
+);
+
+CREATE POLICY "Anyone can upload plant images"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'plant-images');
+
+CREATE POLICY "Anyone can view plant images"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'plant-images');
+
+-- Existing rows keep their inline data URLs, which the client still renders
+ALTER TABLE public.diagnoses RENAME COLUMN image_url TO image_path;
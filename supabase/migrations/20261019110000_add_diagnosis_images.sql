@@ -0,0 +1,7 @@
+-- A diagnosis can be based on several labelled photos of the same plant.
+-- image_path keeps the first photo for list thumbnails.
+ALTER TABLE public.diagnoses
+  ADD COLUMN images JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+UPDATE public.diagnoses
+  SET images = jsonb_build_array(jsonb_build_object('path', image_path, 'label', 'other'));
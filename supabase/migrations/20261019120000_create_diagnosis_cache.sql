@@ -0,0 +1,17 @@
+-- Validated model results keyed by photo content, language and prompt version,
+-- so re-submitting the same photos skips the model call. Only the edge
+-- functions (service role) read or write it.
+CREATE TABLE public.diagnosis_cache (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  image_hash TEXT NOT NULL,
+  language TEXT NOT NULL,
+  prompt_version INTEGER NOT NULL,
+  result JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  CONSTRAINT diagnosis_cache_key UNIQUE (image_hash, language, prompt_version)
+);
+
+CREATE INDEX diagnosis_cache_expires_at_idx ON public.diagnosis_cache (expires_at);
+
+ALTER TABLE public.diagnosis_cache ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,15 @@
+-- Public read-only links to a diagnosis. The share ID in the URL is random and
+-- unguessable; whoever created the link holds a revoke token, stored here only
+-- as a hash. Only the share-diagnosis edge function (service role) touches it.
+CREATE TABLE public.diagnosis_shares (
+  id TEXT NOT NULL PRIMARY KEY,
+  diagnosis_id UUID NOT NULL REFERENCES public.diagnoses (id) ON DELETE CASCADE,
+  revoke_token_hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX diagnosis_shares_diagnosis_id_idx ON public.diagnosis_shares (diagnosis_id);
+
+ALTER TABLE public.diagnosis_shares ENABLE ROW LEVEL SECURITY;
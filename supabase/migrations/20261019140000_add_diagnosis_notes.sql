@@ -0,0 +1,3 @@
+-- What the farmer said or typed about the plant, sent to the model as context
+ALTER TABLE public.diagnoses
+  ADD COLUMN notes TEXT;
@@ -0,0 +1,5 @@
+-- The crop the model recognised in the photos, kept alongside the crop the
+-- farmer entered so history can be filtered by either
+ALTER TABLE public.diagnoses
+  ADD COLUMN identified_crop TEXT,
+  ADD COLUMN identified_crop_scientific TEXT;
@@ -0,0 +1,35 @@
+-- Every device signs in anonymously and can only read what it created.
+-- Others reach a diagnosis only through the share-diagnosis edge function,
+-- so revoking or expiring a link actually blocks access. Rows saved before
+-- this have no owner and stay reachable through their share links only.
+ALTER TABLE public.diagnoses
+  ADD COLUMN owner_id UUID DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE;
+
+CREATE INDEX diagnoses_owner_id_idx ON public.diagnoses (owner_id);
+
+DROP POLICY "Anyone can view diagnoses" ON public.diagnoses;
+DROP POLICY "Anyone can create diagnoses" ON public.diagnoses;
+
+CREATE POLICY "Owners can view their diagnoses"
+  ON public.diagnoses FOR SELECT
+  TO authenticated
+  USING (owner_id = auth.uid());
+
+CREATE POLICY "Owners can create diagnoses"
+  ON public.diagnoses FOR INSERT
+  TO authenticated
+  WITH CHECK (owner_id = auth.uid());
+
+-- Photos are uploaded into a folder named after the owner's user ID
+DROP POLICY "Anyone can upload plant images" ON storage.objects;
+DROP POLICY "Anyone can view plant images" ON storage.objects;
+
+CREATE POLICY "Owners can upload plant images"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'plant-images' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Owners can view plant images"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'plant-images' AND (storage.foldername(name))[1] = auth.uid()::text);
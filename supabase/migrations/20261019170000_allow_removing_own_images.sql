@@ -0,0 +1,6 @@
+-- Lets a device remove photos from its own folder, so uploads left behind by
+-- a failed analysis can be cleaned up
+CREATE POLICY "Owners can delete plant images"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'plant-images' AND (storage.foldername(name))[1] = auth.uid()::text);